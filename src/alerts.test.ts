@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseAlertChannel,
+  shouldAlert,
+  buildAlert,
+  deliverAlert,
+  SubscriptionValidationError,
+  type Alert,
+  type AlertSubscription,
+} from './alerts';
+import { base64UrlEncode } from './webpush';
+
+const SUB: AlertSubscription = {
+  id: 'sub-1',
+  name: 'North bush',
+  lat: 44.26,
+  lon: -72.58,
+  profile: 'sugar_maple',
+  channel: { type: 'webhook', url: 'https://hooks.example.com/sap' },
+  lastType: null,
+  createdAt: '2026-02-01T00:00:00.000Z',
+};
+
+const ALERT: Alert = {
+  subscriptionId: 'sub-1',
+  name: 'North bush',
+  type: 'tap_now',
+  message: 'Tap now!',
+  url: 'https://sapcast.ca/?lat=44.26&lon=-72.58',
+};
+
+// Records requests instead of sending them — a local stand-in for the endpoint
+function stubFetch(status: number) {
+  const calls: { url: string; init: RequestInit }[] = [];
+  const fetchFn = (async (url: string, init: RequestInit) => {
+    calls.push({ url, init });
+    return new Response(null, { status });
+  }) as unknown as typeof fetch;
+  return { calls, fetchFn };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// parseAlertChannel
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('parseAlertChannel', () => {
+  it('accepts an https webhook', () => {
+    expect(parseAlertChannel({ type: 'webhook', url: 'https://hooks.example.com/sap' }))
+      .toEqual({ type: 'webhook', url: 'https://hooks.example.com/sap' });
+  });
+
+  it('allows plain http only for a localhost stand-in', () => {
+    expect(parseAlertChannel({ type: 'webhook', url: 'http://localhost:8788/hook' }).type).toBe('webhook');
+    expect(parseAlertChannel({ type: 'webhook', url: 'http://127.0.0.1/hook' }).type).toBe('webhook');
+    expect(() => parseAlertChannel({ type: 'webhook', url: 'http://hooks.example.com' })).toThrow(SubscriptionValidationError);
+    expect(() => parseAlertChannel({ type: 'webhook', url: 'not a url' })).toThrow('https URL');
+  });
+
+  it('keeps only the push endpoint and keys', () => {
+    expect(parseAlertChannel({
+      type: 'webpush',
+      endpoint: 'https://push.example.com/abc',
+      keys: { p256dh: 'pub', auth: 'secret', extra: 'x' },
+      expirationTime: null,
+    })).toEqual({ type: 'webpush', endpoint: 'https://push.example.com/abc', keys: { p256dh: 'pub', auth: 'secret' } });
+  });
+
+  it('rejects a push subscription without keys', () => {
+    expect(() => parseAlertChannel({ type: 'webpush', endpoint: 'https://push.example.com/abc' }))
+      .toThrow('keys are missing');
+  });
+
+  it('rejects unknown channel types', () => {
+    expect(() => parseAlertChannel({ type: 'sms' })).toThrow(SubscriptionValidationError);
+    expect(() => parseAlertChannel(undefined)).toThrow(SubscriptionValidationError);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Evaluation
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('shouldAlert', () => {
+  it('alerts when the recommendation changes into an alert type', () => {
+    expect(shouldAlert(null, 'tap_now')).toBe(true);
+    expect(shouldAlert('upcoming', 'tap_now')).toBe(true);
+    expect(shouldAlert('no_window', 'season_over')).toBe(true);
+  });
+
+  it('stays quiet when nothing changed', () => {
+    expect(shouldAlert('tap_now', 'tap_now')).toBe(false);
+  });
+
+  it('stays quiet for recommendations that are not worth an alert', () => {
+    expect(shouldAlert('tap_now', 'no_window')).toBe(false);
+  });
+});
+
+describe('buildAlert', () => {
+  it('links back to the subscribed location', () => {
+    expect(buildAlert(SUB, { type: 'tap_now', code: 'rec.tap_now', params: { quality: 'good', days: 2 },
+      window: { quality: 'good', startOffset: 0, length: 2, singleDay: false }, reason: null, notes: [], message: 'Tap now!' }, 'https://sapcast.ca')).toEqual(ALERT);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Delivery
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('deliverAlert', () => {
+  it('POSTs the alert as JSON to a webhook', async () => {
+    const { calls, fetchFn } = stubFetch(204);
+    const result = await deliverAlert({ type: 'webhook', url: 'https://hooks.example.com/sap' }, ALERT, null, fetchFn);
+
+    expect(result).toEqual({ ok: true, status: 204, gone: false });
+    expect(calls).toHaveLength(1);
+    expect(calls[0].url).toBe('https://hooks.example.com/sap');
+    expect(calls[0].init.method).toBe('POST');
+    expect(JSON.parse(calls[0].init.body as string)).toEqual(ALERT);
+  });
+
+  it('sends an encrypted, VAPID-signed push', async () => {
+    const vapidPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign']) as CryptoKeyPair;
+    const vapidJwk = await crypto.subtle.exportKey('jwk', vapidPair.privateKey) as JsonWebKey;
+    const vapid = {
+      publicKey: base64UrlEncode(new Uint8Array(await crypto.subtle.exportKey('raw', vapidPair.publicKey) as ArrayBuffer)),
+      privateKey: vapidJwk.d as string,
+      subject: 'mailto:test@example.com',
+    };
+    const ua = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair;
+    const keys = {
+      p256dh: base64UrlEncode(new Uint8Array(await crypto.subtle.exportKey('raw', ua.publicKey) as ArrayBuffer)),
+      auth: base64UrlEncode(crypto.getRandomValues(new Uint8Array(16))),
+    };
+
+    const { calls, fetchFn } = stubFetch(201);
+    const result = await deliverAlert({ type: 'webpush', endpoint: 'https://push.example.com/abc', keys }, ALERT, vapid, fetchFn);
+
+    expect(result.ok).toBe(true);
+    const headers = calls[0].init.headers as Record<string, string>;
+    expect(headers['Authorization']).toMatch(/^vapid t=.+, k=/);
+    expect(headers['Content-Encoding']).toBe('aes128gcm');
+    expect(headers['Urgency']).toBe('high');
+    expect(headers['TTL']).toBe('86400');
+    expect(calls[0].init.body).toBeInstanceOf(Uint8Array);
+  });
+
+  it('does not try a push without VAPID keys', async () => {
+    const { calls, fetchFn } = stubFetch(201);
+    const channel = { type: 'webpush' as const, endpoint: 'https://push.example.com/abc', keys: { p256dh: 'x', auth: 'y' } };
+    const result = await deliverAlert(channel, ALERT, null, fetchFn);
+    expect(result.ok).toBe(false);
+    expect(calls).toHaveLength(0);
+  });
+
+  it('reports expired endpoints as gone', async () => {
+    const { fetchFn } = stubFetch(410);
+    const result = await deliverAlert({ type: 'webhook', url: 'https://hooks.example.com/sap' }, ALERT, null, fetchFn);
+    expect(result).toEqual({ ok: false, status: 410, gone: true });
+  });
+});
@@ -0,0 +1,139 @@
+// Tapping alerts — subscriptions to a location's recommendation, and
+// delivery by webhook or Web Push when it changes
+
+import type { Recommendation, RecommendationType } from './scoring';
+import { buildVapidAuthorization, encryptPayload, type PushSubscriptionKeys, type VapidKeys } from './webpush';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type AlertChannel =
+  | { type: 'webhook'; url: string }
+  | { type: 'webpush'; endpoint: string; keys: PushSubscriptionKeys };
+
+export interface AlertSubscription {
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+  profile: string;
+  channel: AlertChannel;
+  lastType: RecommendationType | null; // last recommendation we evaluated
+  createdAt: string;
+}
+
+export interface Alert {
+  subscriptionId: string;
+  name: string;
+  type: RecommendationType;
+  message: string;
+  url: string;
+}
+
+export interface DeliveryResult {
+  ok: boolean;
+  status: number;
+  gone: boolean; // the endpoint no longer exists; drop the subscription
+}
+
+export class SubscriptionValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubscriptionValidationError';
+  }
+}
+
+// Recommendations worth interrupting someone's day for
+export const ALERT_TYPES: readonly RecommendationType[] = ['tap_now', 'upcoming', 'season_over', 'pull_taps'];
+
+const PUSH_TTL = 86400; // a day-old alert is still useful; older isn't
+
+// ── Validation ─────────────────────────────────────────────────────────────
+
+// Webhooks must be HTTPS, except a localhost stand-in for local testing
+function isAllowedWebhookUrl(raw: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return false;
+  }
+  if (url.protocol === 'https:') return true;
+  return url.protocol === 'http:' && (url.hostname === 'localhost' || url.hostname === '127.0.0.1');
+}
+
+export function parseAlertChannel(input: unknown): AlertChannel {
+  const raw = (input ?? {}) as Record<string, unknown>;
+
+  if (raw.type === 'webhook') {
+    if (typeof raw.url !== 'string' || !isAllowedWebhookUrl(raw.url)) {
+      throw new SubscriptionValidationError('Webhook url must be an https URL');
+    }
+    return { type: 'webhook', url: raw.url };
+  }
+
+  if (raw.type === 'webpush') {
+    const keys = (raw.keys ?? {}) as Record<string, unknown>;
+    if (typeof raw.endpoint !== 'string' || !raw.endpoint.startsWith('https://')) {
+      throw new SubscriptionValidationError('Push endpoint must be an https URL');
+    }
+    if (typeof keys.p256dh !== 'string' || typeof keys.auth !== 'string') {
+      throw new SubscriptionValidationError('Push subscription keys are missing');
+    }
+    return { type: 'webpush', endpoint: raw.endpoint, keys: { p256dh: keys.p256dh, auth: keys.auth } };
+  }
+
+  throw new SubscriptionValidationError('Channel type must be webhook or webpush');
+}
+
+// ── Evaluation ─────────────────────────────────────────────────────────────
+
+// Alert on a change into an alert-worthy recommendation, not on every run
+export function shouldAlert(previous: RecommendationType | null, next: RecommendationType): boolean {
+  return ALERT_TYPES.includes(next) && next !== previous;
+}
+
+export function buildAlert(sub: AlertSubscription, recommendation: Recommendation, origin: string): Alert {
+  return {
+    subscriptionId: sub.id,
+    name: sub.name,
+    type: recommendation.type,
+    message: recommendation.message,
+    url: `${origin}/?lat=${sub.lat}&lon=${sub.lon}`,
+  };
+}
+
+// ── Delivery ───────────────────────────────────────────────────────────────
+
+export async function deliverAlert(
+  channel: AlertChannel,
+  alert: Alert,
+  vapid: VapidKeys | null,
+  fetchFn: typeof fetch = fetch,
+): Promise<DeliveryResult> {
+  let resp: Response;
+
+  if (channel.type === 'webhook') {
+    resp = await fetchFn(channel.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(alert),
+    });
+  } else {
+    if (!vapid) {
+      return { ok: false, status: 500, gone: false };
+    }
+    resp = await fetchFn(channel.endpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': await buildVapidAuthorization(channel.endpoint, vapid),
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        'TTL': String(PUSH_TTL),
+        'Urgency': alert.type === 'tap_now' ? 'high' : 'normal',
+      },
+      body: await encryptPayload(JSON.stringify(alert), channel.keys),
+    });
+  }
+
+  return { ok: resp.ok, status: resp.status, gone: resp.status === 404 || resp.status === 410 };
+}
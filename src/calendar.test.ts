@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { buildCalendar, escapeText, foldLine, eventUid, type CalendarInput } from './calendar';
+import { forecastDay as day } from './testing';
+
+const INPUT: CalendarInput = {
+  lat: 44.26,
+  lon: -72.58,
+  name: 'North bush, VT',
+  url: 'https://sapcast.ca/?lat=44.26&lon=-72.58',
+  days: [day('2026-03-10', 'excellent'), day('2026-03-11', 'good'), day('2026-03-12', 'fair'), day('2026-03-13', 'poor')],
+  bestWindow: { startDate: '2026-03-10', endDate: '2026-03-11', length: 2, totalYield: 4 },
+  seasonInfo: { tapByDate: '2026-03-01', seasonEndDate: '2026-04-05', message: 'Season wraps up around Apr 5.' },
+  refreshSeconds: 10800,
+  now: new Date('2026-03-09T12:00:00Z'),
+};
+
+function events(ics: string): string[] {
+  return ics.split('BEGIN:VEVENT').slice(1);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Formatting helpers
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('escapeText', () => {
+  it('escapes iCalendar special characters', () => {
+    expect(escapeText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+  });
+});
+
+describe('foldLine', () => {
+  it('leaves short lines alone', () => {
+    expect(foldLine('SUMMARY:Good sap day')).toBe('SUMMARY:Good sap day');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const line = 'DESCRIPTION:' + '°'.repeat(80);
+    const folded = foldLine(line).split('\r\n');
+    const encoder = new TextEncoder();
+    for (const part of folded) {
+      expect(encoder.encode(part).length).toBeLessThanOrEqual(75);
+    }
+    expect(folded.slice(1).every(part => part.startsWith(' '))).toBe(true);
+    expect(folded.map((p, i) => i === 0 ? p : p.slice(1)).join('')).toBe(line);
+  });
+});
+
+describe('eventUid', () => {
+  it('is the same anywhere within a forecast cell', () => {
+    expect(eventUid('best-window', 44.26, -72.58)).toBe('best-window_44.3_-72.6@sapcast.ca');
+    expect(eventUid('best-window', 44.31, -72.61)).toBe(eventUid('best-window', 44.26, -72.58));
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// buildCalendar
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('buildCalendar', () => {
+  const ics = buildCalendar(INPUT);
+
+  it('wraps events in a CRLF-delimited calendar', () => {
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('X-WR-CALNAME:Sapcast — North bush\\, VT\r\n');
+    expect(ics).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT3H\r\n');
+  });
+
+  it('emits the best window as one all-day event', () => {
+    const [window] = events(ics);
+    expect(window).toContain('UID:best-window_44.3_-72.6@sapcast.ca');
+    expect(window).toContain('DTSTART;VALUE=DATE:20260310');
+    expect(window).toContain('DTEND;VALUE=DATE:20260312');
+    expect(window).toContain('SUMMARY:Best tapping window (2 days)');
+    expect(window).toContain('DTSTAMP:20260309T120000Z');
+  });
+
+  it('emits only good and excellent days', () => {
+    const dayEvents = events(ics).filter(e => e.includes('UID:day-'));
+    expect(dayEvents).toHaveLength(2);
+    expect(dayEvents[0]).toContain('UID:day-2026-03-10_44.3_-72.6@sapcast.ca');
+    expect(dayEvents[0]).toContain('SUMMARY:Excellent sap day');
+    expect(dayEvents[1]).toContain('SUMMARY:Good sap day');
+    expect(dayEvents[1]).toContain('DTEND;VALUE=DATE:20260312');
+  });
+
+  it('adds the season dates as all-day events', () => {
+    expect(ics).toContain('UID:tap-by-2026_44.3_-72.6@sapcast.ca');
+    expect(ics).toContain('UID:season-end-2026_44.3_-72.6@sapcast.ca');
+    expect(ics).toContain('DTSTART;VALUE=DATE:20260405');
+  });
+
+  it('keeps UIDs stable when the forecast changes', () => {
+    const shifted = buildCalendar({
+      ...INPUT,
+      bestWindow: { startDate: '2026-03-11', endDate: '2026-03-13', length: 3, totalYield: 6 },
+      now: new Date('2026-03-10T12:00:00Z'),
+    });
+    const uids = (text: string) => text.match(/^UID:.*$/gm);
+    expect(uids(shifted)).toEqual(uids(ics));
+  });
+
+  it('omits the window and season events when there are none', () => {
+    const bare = buildCalendar({ ...INPUT, days: [], bestWindow: null, seasonInfo: null });
+    expect(events(bare)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,176 @@
+// iCalendar feed — the forecast's tapping window, good days and season
+// dates as all-day events a calendar app can subscribe to
+
+import type { ForecastDay, SeasonInfo } from './scoring';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface CalendarWindow {
+  startDate: string;
+  endDate: string;
+  length: number;
+  totalYield: number; // litres per tap
+}
+
+export interface CalendarInput {
+  lat: number;
+  lon: number;
+  name: string;     // shown as the calendar's title
+  url: string;      // link back to the forecast
+  days: ForecastDay[];
+  bestWindow: CalendarWindow | null;
+  seasonInfo: SeasonInfo | null;
+  refreshSeconds: number;
+  now: Date;
+}
+
+const UID_DOMAIN = 'sapcast.ca';
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+// ── Formatting helpers ─────────────────────────────────────────────────────
+
+// RFC 5545 §3.3.11: backslash, semicolon, comma and newline are escaped
+export function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// RFC 5545 §3.1: lines over 75 octets continue on the next line after a space
+export function foldLine(line: string): string {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function icsDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+// All-day events end on the (exclusive) following day
+function nextDate(date: string): string {
+  const d = new Date(date + 'T00:00:00Z');
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().split('T')[0];
+}
+
+function icsTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Stable per location and slot, so a changed forecast updates the event in
+// place instead of adding a duplicate
+export function eventUid(kind: string, lat: number, lon: number): string {
+  const rlat = Math.round(lat * 10) / 10;
+  const rlon = Math.round(lon * 10) / 10;
+  return `${kind}_${rlat}_${rlon}@${UID_DOMAIN}`;
+}
+
+function allDayEvent(
+  uid: string,
+  start: string,
+  end: string,
+  summary: string,
+  description: string,
+  input: CalendarInput,
+): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${icsTimestamp(input.now)}`,
+    `DTSTART;VALUE=DATE:${icsDate(start)}`,
+    `DTEND;VALUE=DATE:${icsDate(nextDate(end))}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `URL:${input.url}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+// ── Calendar ───────────────────────────────────────────────────────────────
+
+export function buildCalendar(input: CalendarInput): string {
+  const { lat, lon, days, bestWindow, seasonInfo } = input;
+  const events: string[][] = [];
+
+  if (bestWindow) {
+    const dayCount = `${bestWindow.length} day${bestWindow.length > 1 ? 's' : ''}`;
+    events.push(allDayEvent(
+      eventUid('best-window', lat, lon),
+      bestWindow.startDate,
+      bestWindow.endDate,
+      `Best tapping window (${dayCount})`,
+      `Sustained freeze-thaw cycles forecast. Estimated ${bestWindow.totalYield.toFixed(1)} L of sap per tap over the window.`,
+      input,
+    ));
+  }
+
+  for (const day of days) {
+    if (day.rating !== 'excellent' && day.rating !== 'good') continue;
+    const label = day.rating === 'excellent' ? 'Excellent' : 'Good';
+    events.push(allDayEvent(
+      eventUid(`day-${day.date}`, lat, lon),
+      day.date,
+      day.date,
+      `${label} sap day`,
+      `Low ${Math.round(day.tempLow ?? 0)}°C, high ${Math.round(day.tempHigh ?? 0)}°C. `
+        + `Estimated ${day.sapYield.toFixed(1)} L of sap per tap.`,
+      input,
+    ));
+  }
+
+  if (seasonInfo) {
+    const year = seasonInfo.tapByDate.substring(0, 4);
+    events.push(allDayEvent(
+      eventUid(`tap-by-${year}`, lat, lon),
+      seasonInfo.tapByDate,
+      seasonInfo.tapByDate,
+      'Tap by today',
+      'Typical latest tapping date for this latitude. Tap now even without an ideal window.',
+      input,
+    ));
+    events.push(allDayEvent(
+      eventUid(`season-end-${year}`, lat, lon),
+      seasonInfo.seasonEndDate,
+      seasonInfo.seasonEndDate,
+      'Sap season typically ends',
+      seasonInfo.message,
+      input,
+    ));
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Sapcast//Tapping forecast//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`Sapcast — ${input.name}`)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${Math.round(input.refreshSeconds / 3600)}H`,
+    `X-PUBLISHED-TTL:PT${Math.round(input.refreshSeconds / 3600)}H`,
+    ...events.flat(),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
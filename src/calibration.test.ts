@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseCalibrationRecords,
+  recordsFromJournal,
+  calibrateProfile,
+  CalibrationError,
+  MIN_FLOW_DAYS,
+  type CalibrationRecord,
+} from './calibration';
+import { scoreDay, validateProfile, SCORING_PROFILES, SUGAR_MAPLE } from './scoring';
+import type { JournalEntry } from './journal';
+
+// A northern stand: sap runs on hard freezes and barely-above-thaw days
+const NORTHERN: CalibrationRecord[] = [
+  { tempLow: -9, tempHigh: 1.5, volume: 1.2 },
+  { tempLow: -11, tempHigh: 2, volume: 1.8 },
+  { tempLow: -8, tempHigh: 3, volume: 2.1 },
+  { tempLow: -12, tempHigh: 1, volume: 0.9 },
+  { tempLow: -10, tempHigh: 4, volume: 1.5 },
+  { tempLow: -3, tempHigh: 8, volume: 0 },
+];
+
+function repeat(records: CalibrationRecord[], times: number): CalibrationRecord[] {
+  return Array.from({ length: times }, () => records).flat();
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Input
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('parseCalibrationRecords', () => {
+  it('keeps valid records', () => {
+    expect(parseCalibrationRecords([{ tempLow: -5, tempHigh: 6, volume: 1, extra: true }]))
+      .toEqual([{ tempLow: -5, tempHigh: 6, volume: 1 }]);
+  });
+
+  it('rejects malformed records', () => {
+    expect(() => parseCalibrationRecords([])).toThrow(CalibrationError);
+    expect(() => parseCalibrationRecords([{ tempLow: -5, volume: 1 }])).toThrow('Record 1 needs a numeric');
+    expect(() => parseCalibrationRecords([{ tempLow: 5, tempHigh: -5, volume: 1 }])).toThrow('low above its high');
+    expect(() => parseCalibrationRecords([{ tempLow: -5, tempHigh: 5, volume: -1 }])).toThrow('non-negative volume');
+  });
+});
+
+describe('recordsFromJournal', () => {
+  const base = { lat: 44, lon: -72, spiles: null, litres: null, note: '', forecast: null };
+  const entries: JournalEntry[] = [
+    { ...base, id: '1', type: 'tap_in', date: '2026-02-20', stand: 'North', spiles: 10 },
+    { ...base, id: '2', type: 'collection', date: '2026-03-01', stand: 'North', litres: 20,
+      forecast: { rating: 'good', score: 2, sapYield: 1.5, tempLow: -8, tempHigh: 3 } },
+    { ...base, id: '3', type: 'collection', date: '2026-03-02', stand: 'North', litres: 5 },
+    { ...base, id: '4', type: 'tap_in', date: '2026-02-20', stand: 'South', spiles: 5 },
+    { ...base, id: '5', type: 'collection', date: '2026-03-01', stand: 'South', litres: 5,
+      forecast: { rating: 'fair', score: 1, sapYield: 0.5, tempLow: -15, tempHigh: 1 } },
+  ];
+
+  it('uses litres per tap on days with known temperatures', () => {
+    expect(recordsFromJournal(entries)).toEqual([
+      { tempLow: -8, tempHigh: 3, volume: 2 },
+      { tempLow: -15, tempHigh: 1, volume: 1 },
+    ]);
+  });
+
+  it('filters to one stand', () => {
+    expect(recordsFromJournal(entries, 'South')).toEqual([{ tempLow: -15, tempHigh: 1, volume: 1 }]);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// calibrateProfile
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('calibrateProfile', () => {
+  it('needs enough days with sap', () => {
+    const few = NORTHERN.slice(0, MIN_FLOW_DAYS - 1);
+    expect(() => calibrateProfile(few)).toThrow(`at least ${MIN_FLOW_DAYS} days`);
+  });
+
+  it('shifts a cold stand toward colder ranges', () => {
+    const { profile, report } = calibrateProfile(NORTHERN);
+
+    expect(profile.name).toBe('Calibrated (Sugar maple)');
+    expect(profile.idealLowMax).toBeLessThan(SUGAR_MAPLE.idealLowMax);
+    expect(profile.idealHighMin).toBeLessThan(SUGAR_MAPLE.idealHighMin);
+    expect(profile.idealHighMax).toBeLessThan(SUGAR_MAPLE.idealHighMax);
+    expect(profile.thawThreshold).toBeLessThan(SUGAR_MAPLE.thawThreshold);
+    expect(validateProfile(profile)).toBeNull();
+    expect(report).toMatchObject({ days: 6, flowDays: 5, weight: 0.33 });
+  });
+
+  it('reports how far each threshold moved', () => {
+    const { report } = calibrateProfile(NORTHERN);
+    expect(report.changes.map(c => c.threshold)).toEqual([
+      'freezeThreshold', 'thawThreshold', 'idealLowMin', 'idealLowMax', 'idealHighMin', 'idealHighMax',
+    ]);
+    for (const c of report.changes) {
+      expect(c.change).toBe(c.after - c.before);
+      expect(Number.isInteger(c.after * 2)).toBe(true);
+    }
+    expect(report.changes.find(c => c.threshold === 'thawThreshold')).toEqual({
+      threshold: 'thawThreshold', before: 2, after: 1.5, change: -0.5,
+    });
+  });
+
+  it('moves further with more data', () => {
+    const short = calibrateProfile(NORTHERN).profile;
+    const long = calibrateProfile(repeat(NORTHERN, 10)).profile;
+    expect(long.idealHighMax).toBeLessThan(short.idealHighMax);
+    expect(long.thawThreshold).toBeLessThanOrEqual(short.thawThreshold);
+  });
+
+  it('scores the stand\'s own best days better than the preset did', () => {
+    const { profile } = calibrateProfile(repeat(NORTHERN, 10));
+    expect(scoreDay(-8, 3).rating).toBe('fair');
+    expect(scoreDay(-8, 3, profile).rating).toBe('excellent');
+  });
+
+  it('never tightens the freeze or thaw threshold', () => {
+    const mild = repeat([{ tempLow: -4, tempHigh: 7, volume: 2 }], 10);
+    const { profile } = calibrateProfile(mild);
+    expect(profile.freezeThreshold).toBe(SUGAR_MAPLE.freezeThreshold);
+    expect(profile.thawThreshold).toBe(SUGAR_MAPLE.thawThreshold);
+  });
+
+  it('loosens freeze when sap ran on nights that stayed above it', () => {
+    const birchy = repeat([{ tempLow: 1, tempHigh: 9, volume: 1 }, { tempLow: 2, tempHigh: 12, volume: 1 }], 10);
+    const { profile } = calibrateProfile(birchy);
+    expect(profile.freezeThreshold).toBeGreaterThan(SUGAR_MAPLE.freezeThreshold);
+    expect(validateProfile(profile)).toBeNull();
+  });
+
+  it('starts from the chosen preset', () => {
+    const { profile, report } = calibrateProfile(NORTHERN, SCORING_PROFILES.red_maple);
+    expect(profile.name).toBe('Calibrated (Red maple)');
+    expect(report.changes[0].before).toBe(SCORING_PROFILES.red_maple.freezeThreshold);
+  });
+});
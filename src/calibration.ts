@@ -0,0 +1,179 @@
+// Calibration — fits a stand's scoring thresholds to the days its sap
+// actually ran, starting from a preset and moving only as far as the data
+// supports
+
+import {
+  customizeProfile,
+  validateProfile,
+  SUGAR_MAPLE,
+  type ScoringProfile,
+  type ScoringThresholds,
+} from './scoring';
+import { collectionsPerTap, type JournalEntry } from './journal';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface CalibrationRecord {
+  tempLow: number;  // °C
+  tempHigh: number; // °C
+  volume: number;   // sap per tap that day, in any consistent unit
+}
+
+export type CalibratedThreshold = Exclude<keyof ScoringThresholds, 'minWindowScore'>;
+
+export interface ThresholdChange {
+  threshold: CalibratedThreshold;
+  before: number;
+  after: number;
+  change: number;
+}
+
+export interface CalibrationReport {
+  days: number;      // records used
+  flowDays: number;  // records with any sap
+  weight: number;    // 0–1, how far thresholds moved toward the fit
+  changes: ThresholdChange[];
+}
+
+export interface CalibrationResult {
+  profile: ScoringProfile;
+  report: CalibrationReport;
+}
+
+export class CalibrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalibrationError';
+  }
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+export const MIN_FLOW_DAYS = 5;
+export const MAX_CALIBRATION_RECORDS = 1000;
+// The literature defaults count as this many days of evidence, so a short
+// log nudges the thresholds and a few seasons of logs move them most of the way
+const PRIOR_DAYS = 10;
+const STEP = 0.5; // thresholds are reported to the nearest half degree
+
+// ── Input ──────────────────────────────────────────────────────────────────
+
+export function parseCalibrationRecords(input: unknown): CalibrationRecord[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new CalibrationError('Expected a non-empty list of records');
+  }
+  if (input.length > MAX_CALIBRATION_RECORDS) {
+    throw new CalibrationError(`At most ${MAX_CALIBRATION_RECORDS} records are allowed`);
+  }
+
+  return input.map((item, i) => {
+    const { tempLow, tempHigh, volume } = (item ?? {}) as Record<string, unknown>;
+    if (typeof tempLow !== 'number' || typeof tempHigh !== 'number' || !isFinite(tempLow) || !isFinite(tempHigh)) {
+      throw new CalibrationError(`Record ${i + 1} needs a numeric tempLow and tempHigh`);
+    }
+    if (tempLow > tempHigh) {
+      throw new CalibrationError(`Record ${i + 1} has a low above its high`);
+    }
+    if (typeof volume !== 'number' || !isFinite(volume) || volume < 0) {
+      throw new CalibrationError(`Record ${i + 1} needs a non-negative volume`);
+    }
+    return { tempLow, tempHigh, volume };
+  });
+}
+
+// Collections from a tap log that carry the day's temperatures
+export function recordsFromJournal(entries: JournalEntry[], stand?: string): CalibrationRecord[] {
+  return collectionsPerTap(entries)
+    .filter(({ entry }) => stand === undefined || entry.stand === stand)
+    .flatMap(({ entry, litresPerTap }) => {
+      const low = entry.forecast?.tempLow;
+      const high = entry.forecast?.tempHigh;
+      return typeof low === 'number' && typeof high === 'number'
+        ? [{ tempLow: low, tempHigh: high, volume: litresPerTap }]
+        : [];
+    });
+}
+
+// ── Fitting ────────────────────────────────────────────────────────────────
+
+// Value below which `q` of the total weight falls
+function weightedQuantile(values: number[], weights: number[], q: number): number {
+  const order = values.map((v, i) => i).sort((a, b) => values[a] - values[b]);
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let running = 0;
+  for (const i of order) {
+    running += weights[i];
+    if (running >= q * total) return values[i];
+  }
+  return values[order[order.length - 1]];
+}
+
+function roundToStep(value: number): number {
+  return Math.round(value / STEP) * STEP;
+}
+
+// Where the thresholds would sit if only this stand's flow days counted,
+// weighting each day by how much sap it gave
+function fitThresholds(flow: CalibrationRecord[], base: ScoringProfile): Record<CalibratedThreshold, number> {
+  const lows = flow.map(r => r.tempLow);
+  const highs = flow.map(r => r.tempHigh);
+  const weights = flow.map(r => r.volume);
+
+  return {
+    // Freeze and thaw only loosen: sap on a day the preset ruled out is
+    // evidence, but a log without such days says nothing about the edges
+    freezeThreshold: Math.max(base.freezeThreshold, weightedQuantile(lows, weights, 0.9) + STEP),
+    thawThreshold: Math.min(base.thawThreshold, weightedQuantile(highs, weights, 0.1) - STEP),
+    // The middle half of the sap came from these lows and highs
+    idealLowMin: weightedQuantile(lows, weights, 0.25),
+    idealLowMax: weightedQuantile(lows, weights, 0.75),
+    idealHighMin: weightedQuantile(highs, weights, 0.25),
+    idealHighMax: weightedQuantile(highs, weights, 0.75),
+  };
+}
+
+// Nudges blended thresholds back into an order scoreDay can use
+function makeConsistent(t: Record<CalibratedThreshold, number>): void {
+  if (t.idealLowMax >= t.freezeThreshold) t.idealLowMax = t.freezeThreshold - STEP;
+  if (t.idealLowMin > t.idealLowMax) t.idealLowMin = t.idealLowMax;
+  if (t.idealHighMin <= t.thawThreshold) t.idealHighMin = t.thawThreshold + STEP;
+  if (t.idealHighMax < t.idealHighMin) t.idealHighMax = t.idealHighMin;
+}
+
+export function calibrateProfile(records: CalibrationRecord[], base: ScoringProfile = SUGAR_MAPLE): CalibrationResult {
+  const flow = records.filter(r => r.volume > 0);
+  if (flow.length < MIN_FLOW_DAYS) {
+    throw new CalibrationError(`Need at least ${MIN_FLOW_DAYS} days with sap to calibrate, got ${flow.length}`);
+  }
+
+  const fitted = fitThresholds(flow, base);
+  const weight = flow.length / (flow.length + PRIOR_DAYS);
+  const keys = Object.keys(fitted) as CalibratedThreshold[];
+
+  const blended = {} as Record<CalibratedThreshold, number>;
+  for (const key of keys) {
+    blended[key] = roundToStep(base[key] + (fitted[key] - base[key]) * weight);
+  }
+  makeConsistent(blended);
+
+  const profile = { ...customizeProfile(base, blended), name: `Calibrated (${base.name})` };
+  const problem = validateProfile(profile);
+  if (problem) {
+    throw new CalibrationError(`Calibration produced an unusable profile: ${problem}`);
+  }
+
+  return {
+    profile,
+    report: {
+      days: records.length,
+      flowDays: flow.length,
+      weight: Math.round(weight * 100) / 100,
+      changes: keys.map(threshold => ({
+        threshold,
+        before: base[threshold],
+        after: profile[threshold],
+        change: profile[threshold] - base[threshold],
+      })),
+    },
+  };
+}
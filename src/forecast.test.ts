@@ -0,0 +1,242 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getForecast, cellToday, trackKey, CACHE_TTL, type ForecastEnv } from './forecast';
+import { WeatherProviderError, type OpenMeteoResponse } from './weather';
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+// Open-Meteo's answer: days from one local midnight, -5°C nights and 6°C days
+function openMeteo(timezone: string, utcOffset: number, firstMidnight: number, days = 5): OpenMeteoResponse {
+  const time = Array.from({ length: days }, (_, i) => firstMidnight + i * 86400);
+  return {
+    timezone,
+    utc_offset_seconds: utcOffset,
+    current: { time: firstMidnight, temperature_2m: 0, weather_code: 0 },
+    daily: {
+      time,
+      temperature_2m_max: time.map(() => 6),
+      temperature_2m_min: time.map(() => -5),
+      weather_code: time.map(() => 0),
+    },
+  };
+}
+
+function serveForecast(response: OpenMeteoResponse) {
+  const fetchMock = vi.fn(async () => Response.json(response));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const ENV: ForecastEnv = { WEATHER_PROVIDER: 'openmeteo' };
+
+interface StoredValue {
+  value: string;
+  metadata: unknown;
+  expirationTtl?: number;
+}
+
+// Just enough of KV for the forecast cache; expiry is recorded, not enforced
+function memoryKV() {
+  const store = new Map<string, StoredValue>();
+  const kv = {
+    async get(key: string, type?: string) {
+      const entry = store.get(key);
+      if (!entry) return null;
+      return type === 'json' ? JSON.parse(entry.value) : entry.value;
+    },
+    async getWithMetadata(key: string, type?: string) {
+      const entry = store.get(key);
+      return {
+        value: entry ? (type === 'json' ? JSON.parse(entry.value) : entry.value) : null,
+        metadata: entry?.metadata ?? null,
+      };
+    },
+    async put(key: string, value: string, options: { metadata?: unknown; expirationTtl?: number } = {}) {
+      store.set(key, { value, metadata: options.metadata ?? null, expirationTtl: options.expirationTtl });
+    },
+  };
+  return { store, kv: kv as unknown as KVNamespace };
+}
+
+// Collects what a request hands to waitUntil, to run it when the test says
+function executionContext() {
+  const pending: Promise<unknown>[] = [];
+  const ctx = {
+    waitUntil: vi.fn((promise: Promise<unknown>) => { pending.push(promise); }),
+    passThroughOnException: () => {},
+  };
+  return { ctx: ctx as unknown as ExecutionContext, waitUntil: ctx.waitUntil, settle: () => Promise.all(pending) };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Local dates
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('getForecast — local dates', () => {
+  it('dates days in a zone behind UTC where the UTC date has already moved on', async () => {
+    // 23:30 on Mar 2 in Los Angeles is 07:30 on Mar 3 in UTC; the forecast
+    // was fetched the day before and still starts on Mar 1
+    serveForecast(openMeteo('America/Los_Angeles', -28800, Date.UTC(2026, 2, 1, 8) / 1000));
+    const now = new Date('2026-03-03T07:30:00Z');
+    const result = await getForecast(34.05, -118.24, ENV, undefined, undefined, null, undefined, undefined, now);
+
+    expect(result.days.map(d => d.date)).toEqual(['2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05']);
+    expect(result.today?.date).toBe('2026-03-02');
+    expect(result.days[0].confidence).toBe(1);
+    expect(result.timezone).toBe('America/Los_Angeles');
+  });
+
+  it('dates days in a zone ahead of UTC where the UTC date is still the day before', async () => {
+    // 08:00 on Mar 3 in Tokyo is 23:00 on Mar 2 in UTC
+    serveForecast(openMeteo('Asia/Tokyo', 32400, Date.UTC(2026, 2, 2, 15) / 1000));
+    const now = new Date('2026-03-02T23:00:00Z');
+    const result = await getForecast(43.06, 141.35, ENV, undefined, undefined, null, undefined, undefined, now);
+
+    expect(result.days[0].date).toBe('2026-03-03');
+    expect(result.days).toHaveLength(5);
+    expect(result.recommendation.window?.startOffset).toBe(0);
+  });
+
+  it('takes the season year from the local date on New Year’s Eve', async () => {
+    serveForecast(openMeteo('America/Los_Angeles', -28800, Date.UTC(2026, 11, 31, 8) / 1000));
+    const now = new Date('2027-01-01T07:30:00Z');
+    const result = await getForecast(44.26, -72.58, ENV, undefined, undefined, null, undefined, undefined, now);
+
+    expect(result.today?.date).toBe('2026-12-31');
+    expect(result.seasonInfo?.tapByDate.startsWith('2026-')).toBe(true);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Cache
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('getForecast — cache', () => {
+  const CELL = 'weather:openmeteo:44.3:-72.6';
+  const FETCHED = new Date('2026-03-10T12:00:00Z');
+  const later = (hours: number) => new Date(FETCHED.getTime() + hours * 3600 * 1000);
+  const response = openMeteo('America/New_York', -18000, Date.UTC(2026, 2, 10, 5) / 1000);
+
+  // A cache holding the cell's forecast as fetched at FETCHED
+  async function primed() {
+    const { store, kv } = memoryKV();
+    serveForecast(response);
+    await getForecast(44.26, -72.58, { ...ENV, FORECAST_CACHE: kv }, undefined, undefined, null, undefined, undefined, FETCHED);
+    return { store, env: { ...ENV, FORECAST_CACHE: kv } };
+  }
+
+  it('fetches on a miss and stores the forecast with when it was fetched', async () => {
+    const { store } = await primed();
+    expect(store.get(CELL)).toMatchObject({ metadata: { fetchedAt: FETCHED.getTime() }, expirationTtl: 86400 });
+    expect(store.get(trackKey('openmeteo', 44.26, -72.58))?.metadata).toMatchObject({ timezone: 'America/New_York' });
+  });
+
+  it('serves a fresh entry without asking the provider', async () => {
+    const { env } = await primed();
+    const fetchMock = serveForecast(response);
+    const { ctx, waitUntil } = executionContext();
+    const result = await getForecast(44.26, -72.58, env, ctx, undefined, null, undefined, undefined, later(1));
+
+    expect(result).toMatchObject({ cached: true, stale: false, fetchedAt: FETCHED.toISOString() });
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(waitUntil).not.toHaveBeenCalled();
+  });
+
+  it('serves a stale entry at once and refreshes it in the background', async () => {
+    const { store, env } = await primed();
+    const fetchMock = serveForecast(response);
+    const { ctx, waitUntil, settle } = executionContext();
+    const now = later(CACHE_TTL / 3600 + 1);
+    const result = await getForecast(44.26, -72.58, env, ctx, undefined, null, undefined, undefined, now);
+
+    expect(result).toMatchObject({ cached: true, stale: true, fetchedAt: FETCHED.toISOString() });
+    expect(waitUntil).toHaveBeenCalledTimes(1);
+    await settle();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(store.get(CELL)?.metadata).toEqual({ fetchedAt: now.getTime() });
+  });
+
+  it('starts no second refresh for requests that arrive while one runs', async () => {
+    const { store, env } = await primed();
+    const fetchMock = serveForecast(response);
+    const { ctx, waitUntil, settle } = executionContext();
+    const now = later(4);
+    for (let i = 0; i < 3; i++) {
+      const result = await getForecast(44.26, -72.58, env, ctx, undefined, null, undefined, undefined, now);
+      expect(result.stale).toBe(true);
+    }
+
+    expect(waitUntil).toHaveBeenCalledTimes(1);
+    expect(store.get(`refreshing:${CELL}`)?.expirationTtl).toBe(60);
+    await settle();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('treats an entry cached before fetchedAt was kept as stale', async () => {
+    const { store, env } = await primed();
+    store.set(CELL, { ...store.get(CELL)!, metadata: null });
+    serveForecast(response);
+    const { ctx, waitUntil } = executionContext();
+    const result = await getForecast(44.26, -72.58, env, ctx, undefined, null, undefined, undefined, later(1));
+
+    expect(result).toMatchObject({ cached: true, stale: true, fetchedAt: null });
+    expect(waitUntil).toHaveBeenCalledTimes(1);
+  });
+
+  it('refreshes a stale entry in the foreground without a ctx', async () => {
+    const { env } = await primed();
+    const fetchMock = serveForecast(response);
+    const now = later(4);
+    const result = await getForecast(44.26, -72.58, env, undefined, undefined, null, undefined, undefined, now);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ cached: false, stale: false, fetchedAt: now.toISOString() });
+  });
+
+  it('keeps the stale entry when the provider fails', async () => {
+    const { env } = await primed();
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('network down'); }));
+    const result = await getForecast(44.26, -72.58, env, undefined, undefined, null, undefined, undefined, later(4));
+
+    expect(result).toMatchObject({ cached: true, stale: true, fetchedAt: FETCHED.toISOString() });
+    expect(result.days).toHaveLength(5);
+  });
+
+  it('keeps the stale entry when the provider answers with an error page', async () => {
+    const { env } = await primed();
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('<html>Maintenance</html>')));
+    const result = await getForecast(44.26, -72.58, env, undefined, undefined, null, undefined, undefined, later(4));
+
+    expect(result).toMatchObject({ cached: true, stale: true });
+  });
+
+  it('fails when the provider is down and nothing is cached', async () => {
+    const { kv } = memoryKV();
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('network down'); }));
+    await expect(getForecast(44.26, -72.58, { ...ENV, FORECAST_CACHE: kv }, undefined, undefined, null, undefined, undefined, FETCHED))
+      .rejects.toBeInstanceOf(WeatherProviderError);
+  });
+});
+
+describe('cellToday', () => {
+  const now = new Date('2026-03-03T07:30:00Z');
+
+  it('uses the cell’s timezone, then its offset', () => {
+    expect(cellToday({ lat: 34.1, lon: -118.2, timezone: 'America/Los_Angeles', utcOffset: -28800 }, now)).toBe('2026-03-02');
+    expect(cellToday({ lat: 34.1, lon: -118.2, timezone: null, utcOffset: -28800 }, now)).toBe('2026-03-02');
+  });
+
+  it('falls back to UTC for cells tracked before the timezone was kept', () => {
+    expect(cellToday({ lat: 34.1, lon: -118.2 }, now)).toBe('2026-03-03');
+    expect(cellToday(null, now)).toBe('2026-03-03');
+  });
+});
+
+describe('trackKey', () => {
+  it('rounds to the forecast cell', () => {
+    expect(trackKey('openmeteo', 44.26, -72.58)).toBe('track:openmeteo:44.3:-72.6');
+  });
+});
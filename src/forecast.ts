@@ -0,0 +1,346 @@
+// Forecast pipeline — fetches the forecast for a location, or reads it from
+// the KV cache, and scores it into days, tapping windows and a recommendation
+
+import {
+  scoreDay,
+  scoreDayHourly,
+  estimateSapYield,
+  forecastConfidence,
+  daysBetween,
+  findWindows,
+  generateRecommendation,
+  estimateBudBreak,
+  getSeasonInfo,
+  SUGAR_MAPLE,
+  type BestWindow,
+  type BudBreakEstimate,
+  type DayScore,
+  type Recommendation,
+  type ForecastDay,
+  type Rating,
+  type ScoringProfile,
+  type SeasonInfo,
+  type WindowObjective,
+} from './scoring';
+import {
+  getProvider,
+  localDate,
+  WeatherProviderError,
+  type CurrentConditions,
+  type NormalizedForecast,
+  type ProviderConfig,
+} from './weather';
+import { historyKey, type ObservedDay } from './history';
+import {
+  terrainCorrection,
+  correctDaily,
+  correctHours,
+  createElevationService,
+  type ElevationConfig,
+  type ElevationService,
+  type TerrainOptions,
+  type TerrainResult,
+} from './terrain';
+import { DEFAULT_LOCALE, type Locale } from './i18n';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface ForecastEnv extends ProviderConfig, ElevationConfig {
+  FORECAST_CACHE?: KVNamespace;
+}
+
+export interface WindowSummary {
+  startDate: string;
+  endDate: string;
+  length: number;
+  avgScore: number;
+  totalYield: number; // litres per tap
+  confidence: number;
+}
+
+export interface ForecastResult {
+  current: CurrentConditions;
+  today: ForecastDay | null;
+  days: ForecastDay[];
+  bestWindow: WindowSummary | null; // the first of windows
+  windows: WindowSummary[];         // every qualifying run, best first
+  rankedBy: WindowObjective;
+  recommendation: Recommendation;
+  seasonInfo: SeasonInfo | null;
+  budBreak: BudBreakEstimate | null;
+  terrain: TerrainResult | null;
+  profile: ScoringProfile;
+  locale: Locale; // the language recommendation and season messages are in
+  timezone: string | null; // the location's, which the dates are in
+  utcOffset: number | null;
+  cached: boolean;
+  fetchedAt: string | null; // when the provider was asked; unknown for forecasts cached before it was kept
+  stale: boolean;           // older than CACHE_TTL: a refresh is under way, or the provider is down
+}
+
+type CacheStatus = Pick<ForecastResult, 'cached' | 'fetchedAt' | 'stale'>;
+
+interface ForecastCacheMetadata {
+  fetchedAt: number; // unix ms
+}
+
+// Metadata on a cell's track key, which marks it for the season archive
+export interface TrackedCell {
+  lat: number;
+  lon: number;
+  timezone?: string | null; // missing on cells tracked before it was kept
+  utcOffset?: number | null;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+export const CACHE_TTL = 10800; // 3 hours in seconds
+// A forecast older than CACHE_TTL is refreshed, but until it's this old it can
+// still be served while that happens, or when the provider is down
+const FORECAST_MAX_AGE = 86400; // 1 day
+// While a cell's background refresh runs, other requests don't start their
+// own; KV's shortest expiry, which also spaces out retries when it fails
+const REFRESH_MARKER_TTL = 60;
+const ELEVATION_CACHE_TTL = 31536000; // 1 year — the ground doesn't move
+const TRACK_TTL = 5184000; // 60 days — cells nobody asks about drop out of the archive
+
+// ── Pipeline ───────────────────────────────────────────────────────────────
+
+// Fetches (or reads from cache) the forecast for one location and scores it.
+// The cache holds the provider's normalized forecast, so any scoring profile
+// can be applied (and any language used) without another upstream call.
+// An old forecast is answered at once and refreshed in the background when
+// there's a ctx to finish the refresh in, and is kept if the provider fails.
+// Throws WeatherProviderError when the upstream can't be used and nothing is cached.
+export async function getForecast(
+  lat: number,
+  lon: number,
+  env: ForecastEnv,
+  ctx: ExecutionContext | undefined,
+  profile: ScoringProfile = SUGAR_MAPLE,
+  terrainOptions: TerrainOptions | null = null,
+  locale: Locale = DEFAULT_LOCALE,
+  objective: WindowObjective = 'length',
+  now: Date = new Date(),
+): Promise<ForecastResult> {
+  const provider = getProvider(env);
+
+  // Round to 1 decimal for cache key (~11km grid)
+  const rlat = Math.round(lat * 10) / 10;
+  const rlon = Math.round(lon * 10) / 10;
+  const cacheKey = `weather:${provider.name}:${rlat}:${rlon}`;
+
+  const fetchFresh = async () => {
+    const fresh = await provider.fetchForecast(lat, lon);
+    return { forecast: fresh, fetchedAt: await cacheForecast(env, provider.name, rlat, rlon, fresh, now) };
+  };
+
+  // Check KV cache
+  const entry = env.FORECAST_CACHE
+    ? await env.FORECAST_CACHE.getWithMetadata<NormalizedForecast, ForecastCacheMetadata>(cacheKey, 'json')
+    : null;
+  let forecast = entry?.value ?? null;
+  // Forecasts cached before fetchedAt was kept are due for a refresh
+  let fetchedAt = entry?.metadata?.fetchedAt ?? null;
+  let cached = forecast !== null;
+  let stale = false;
+
+  if (!forecast) {
+    ({ forecast, fetchedAt } = await fetchFresh());
+  } else if (fetchedAt === null || now.getTime() - fetchedAt > CACHE_TTL * 1000) {
+    if (ctx && env.FORECAST_CACHE) {
+      // KV is eventually consistent, so this thins a burst out rather than
+      // guaranteeing a single upstream call
+      const marker = `refreshing:${cacheKey}`;
+      if (await env.FORECAST_CACHE.get(marker) === null) {
+        await env.FORECAST_CACHE.put(marker, '1', { expirationTtl: REFRESH_MARKER_TTL });
+        ctx.waitUntil(fetchFresh().catch(err => {
+          console.error(`Forecast refresh for ${cacheKey} failed: ${err instanceof Error ? err.message : err}`);
+        }));
+      }
+      stale = true;
+    } else {
+      try {
+        ({ forecast, fetchedAt } = await fetchFresh());
+        cached = false;
+      } catch (err) {
+        if (!(err instanceof WeatherProviderError)) throw err;
+        stale = true;
+      }
+    }
+  }
+
+  // This year's archive feeds the growing degree day total
+  const today = localDate(now.getTime() / 1000, forecast);
+  const recorded = env.FORECAST_CACHE
+    ? await env.FORECAST_CACHE.get<ObservedDay[]>(historyKey(provider.name, lat, lon, Number(today.substring(0, 4))), 'json')
+    : null;
+
+  const terrain = terrainOptions ? await resolveTerrain(env, lat, lon, forecast, terrainOptions) : null;
+
+  const cache: CacheStatus = { cached, fetchedAt: fetchedAt === null ? null : new Date(fetchedAt).toISOString(), stale };
+  return scoreForecast(forecast, lat, profile, cache, recorded ?? [], terrain, locale, objective, today);
+}
+
+// Stores a forecast just fetched, with when, and marks the cell for the
+// daily season archive. Returns the fetch time in unix ms.
+async function cacheForecast(
+  env: ForecastEnv,
+  providerName: string,
+  rlat: number,
+  rlon: number,
+  forecast: NormalizedForecast,
+  now: Date = new Date(),
+): Promise<number> {
+  const fetchedAt = now.getTime();
+  if (env.FORECAST_CACHE) {
+    const metadata: ForecastCacheMetadata = { fetchedAt };
+    await env.FORECAST_CACHE.put(`weather:${providerName}:${rlat}:${rlon}`, JSON.stringify(forecast), {
+      expirationTtl: FORECAST_MAX_AGE,
+      metadata,
+    });
+    const cell: TrackedCell = { lat: rlat, lon: rlon, timezone: forecast.timezone, utcOffset: forecast.utcOffset };
+    await env.FORECAST_CACHE.put(trackKey(providerName, rlat, rlon), '', {
+      expirationTtl: TRACK_TTL,
+      metadata: cell,
+    });
+  }
+  return fetchedAt;
+}
+
+export function trackKey(providerName: string, lat: number, lon: number): string {
+  return `track:${providerName}:${Math.round(lat * 10) / 10}:${Math.round(lon * 10) / 10}`;
+}
+
+// Today at a tracked cell; UTC for one tracked before its timezone was kept
+export function cellToday(cell: TrackedCell | null, now: Date = new Date()): string {
+  return localDate(now.getTime() / 1000, { timezone: cell?.timezone ?? null, utcOffset: cell?.utcOffset ?? null });
+}
+
+async function lookupElevation(env: ForecastEnv, service: ElevationService, lat: number, lon: number): Promise<number> {
+  const cacheKey = `elevation:${lat.toFixed(3)}:${lon.toFixed(3)}`;
+  const cached = env.FORECAST_CACHE ? await env.FORECAST_CACHE.get(cacheKey) : null;
+  if (cached !== null) return Number(cached);
+
+  const elevation = await service.fetchElevation(lat, lon);
+  if (env.FORECAST_CACHE) {
+    await env.FORECAST_CACHE.put(cacheKey, String(elevation), { expirationTtl: ELEVATION_CACHE_TTL });
+  }
+  return elevation;
+}
+
+// The stand's own elevation and aspect against the forecast cell's. The cell
+// is ~11 km across, so a stand can sit hundreds of metres above or below it.
+async function resolveTerrain(
+  env: ForecastEnv,
+  lat: number,
+  lon: number,
+  forecast: NormalizedForecast,
+  options: TerrainOptions,
+): Promise<TerrainResult | null> {
+  if (options.elevation === null && options.aspect === null) return null;
+
+  const service = createElevationService(env);
+  const elevation = options.elevation === 'auto'
+    ? await lookupElevation(env, service, lat, lon)
+    : options.elevation;
+  // Forecasts cached before the cell elevation was kept fall back to a lookup
+  const referenceElevation = elevation === null ? null
+    : forecast.elevation ?? await lookupElevation(env, service, Math.round(lat * 10) / 10, Math.round(lon * 10) / 10);
+
+  const correction = terrainCorrection({ lat, elevation, referenceElevation, aspect: options.aspect });
+  return { ...correction, elevation, referenceElevation, aspect: options.aspect };
+}
+
+function summarizeWindow(window: BestWindow): WindowSummary {
+  return {
+    startDate: window.start,
+    endDate: window.end,
+    length: window.days.length,
+    avgScore: window.totalScore / window.days.length,
+    totalYield: window.totalYield,
+    confidence: window.confidence,
+  };
+}
+
+export function scoreForecast(
+  forecast: NormalizedForecast,
+  lat: number,
+  profile: ScoringProfile,
+  cache: CacheStatus,
+  recorded: ObservedDay[],
+  terrain: TerrainResult | null = null,
+  locale: Locale = DEFAULT_LOCALE,
+  objective: WindowObjective = 'length',
+  today: string = localDate(Date.now() / 1000, forecast),
+): ForecastResult {
+  const { current, hourly } = forecast;
+  const daily = terrain ? forecast.daily.map(d => correctDaily(d, terrain)) : forecast.daily;
+  const scored: ForecastDay[] = daily.map((d, i) => {
+    // Days start at local midnight; date them at noon so a fixed offset
+    // that's an hour out across a daylight saving change can't slip a day
+    const date = localDate(d.time + 43200, forecast);
+    const { tempHigh, tempLow } = d;
+
+    // Prefer the hourly path; fall back to daily high/low when the day
+    // isn't fully covered by hourly data (partial today, days past ~7)
+    const dayEnd = daily[i + 1]?.time ?? d.time + 86400;
+    const cellHours = hourly.filter(h => h.time >= d.time && h.time < dayEnd);
+    const dayHours = terrain ? correctHours(cellHours, terrain) : cellHours;
+    let dayScore: DayScore = scoreDayHourly(dayHours, profile);
+    if (dayScore.rating === 'unknown') {
+      dayScore = (tempHigh !== null && tempLow !== null)
+        ? scoreDay(tempLow, tempHigh, profile)
+        : { rating: 'unknown' as Rating, score: 0 };
+    }
+
+    const prevLow = daily[i - 1]?.tempLow ?? null;
+    const sapYield = (dayScore.score > 0 && tempHigh !== null && tempLow !== null)
+      ? estimateSapYield(tempLow, tempHigh, prevLow, profile)
+      : 0;
+
+    return {
+      date,
+      tempHigh,
+      tempLow,
+      summary: d.summary,
+      icon: d.icon,
+      rating: dayScore.rating,
+      score: dayScore.score,
+      sapYield,
+      confidence: forecastConfidence(Math.max(0, daysBetween(today, date))),
+      precipType: d.precipType ?? null,
+      snowfall: d.snowfall ?? 0,
+      cloudCover: d.cloudCover ?? null,
+      ...(dayScore.hourly ? { hourly: dayScore.hourly } : {}),
+    };
+  });
+
+  // A forecast cached before local midnight still starts with yesterday
+  const days = scored.filter(d => d.date >= today);
+
+  // Rank the tapping windows and recommend the best one
+  const windows = findWindows(days, profile, objective);
+  const bestWindow = windows[0] ?? null;
+  const budBreak = estimateBudBreak(recorded, days, profile, today);
+  const recommendation = generateRecommendation(days, bestWindow, profile, budBreak, locale, today);
+  const seasonInfo = getSeasonInfo(lat, Number(today.substring(0, 4)), locale);
+
+  return {
+    current,
+    today: days[0] || null,
+    days,
+    bestWindow: bestWindow ? summarizeWindow(bestWindow) : null,
+    windows: windows.map(summarizeWindow),
+    rankedBy: objective,
+    recommendation,
+    seasonInfo,
+    budBreak,
+    terrain,
+    profile,
+    locale,
+    timezone: forecast.timezone ?? null,
+    utcOffset: forecast.utcOffset ?? null,
+    ...cache,
+  };
+}
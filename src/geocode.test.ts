@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  normalizePostalCode,
+  placeLabel,
+  parseZippopotam,
+  parsePlaceSearch,
+  parseReverse,
+  createGeocoder,
+  GeocodeError,
+  MAX_PLACE_RESULTS,
+} from './geocode';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// normalizePostalCode
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('normalizePostalCode', () => {
+  it('keeps the 5-digit US ZIP', () => {
+    expect(normalizePostalCode('05602-1234', 'us')).toBe('05602');
+  });
+
+  it('keeps the Canadian forward sortation area', () => {
+    expect(normalizePostalCode('k1a 0b1', 'ca')).toBe('K1A');
+  });
+
+  it('keeps the UK outward code', () => {
+    expect(normalizePostalCode('SW1A 1AA', 'gb')).toBe('SW1A');
+    expect(normalizePostalCode('m1 1ae', 'gb')).toBe('M1');
+    expect(normalizePostalCode('EH1', 'gb')).toBe('EH1');
+  });
+
+  it('drops the Dutch letters', () => {
+    expect(normalizePostalCode('1012 JS', 'nl')).toBe('1012');
+  });
+
+  it('hyphenates Japanese codes', () => {
+    expect(normalizePostalCode('1000001', 'jp')).toBe('100-0001');
+    expect(normalizePostalCode('100-0001', 'jp')).toBe('100-0001');
+  });
+
+  it('passes other countries through, upper-cased', () => {
+    expect(normalizePostalCode(' 75001 ', 'fr')).toBe('75001');
+    expect(normalizePostalCode('10115', 'de')).toBe('10115');
+  });
+
+  it('rejects unsupported countries and junk', () => {
+    expect(() => normalizePostalCode('D02 X285', 'ie')).toThrow(GeocodeError);
+    expect(() => normalizePostalCode('../etc', 'us')).toThrow(GeocodeError);
+  });
+});
+
+describe('placeLabel', () => {
+  it('uses the state abbreviation in North America', () => {
+    expect(placeLabel('Montpelier', 'VT', 'us', 'United States')).toBe('Montpelier, VT');
+  });
+
+  it('uses the country elsewhere', () => {
+    expect(placeLabel('Kyoto', 'Kyoto Prefecture', 'jp', 'Japan')).toBe('Kyoto, Japan');
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Upstream responses
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('parseZippopotam', () => {
+  it('takes the first place', () => {
+    const result = parseZippopotam({
+      'country abbreviation': 'GB',
+      places: [{ 'place name': 'Edinburgh', longitude: '-3.19', latitude: '55.95', state: 'Scotland', 'state abbreviation': 'SCT' }],
+    }, 'gb');
+    expect(result).toEqual({
+      lat: 55.95, lon: -3.19, placeName: 'Edinburgh', state: 'SCT', country: 'gb', label: 'Edinburgh, United Kingdom',
+    });
+  });
+
+  it('falls back to the state name without an abbreviation', () => {
+    const result = parseZippopotam({ places: [{ 'place name': 'Berlin', longitude: '13.4', latitude: '52.5', state: 'Berlin' }] }, 'de');
+    expect(result?.state).toBe('Berlin');
+  });
+
+  it('is null without a usable place', () => {
+    expect(parseZippopotam({}, 'us')).toBeNull();
+    expect(parseZippopotam({ places: [{ 'place name': 'X', latitude: '', longitude: '' }] }, 'us')).toBeNull();
+  });
+});
+
+describe('parsePlaceSearch', () => {
+  it('labels candidates with region and country', () => {
+    const [place] = parsePlaceSearch({
+      results: [{ name: 'Montpelier', latitude: 44.26, longitude: -72.58, country_code: 'US', country: 'United States', admin1: 'Vermont' }],
+    });
+    expect(place).toEqual({
+      name: 'Montpelier',
+      region: 'Vermont',
+      country: 'United States',
+      countryCode: 'us',
+      lat: 44.26,
+      lon: -72.58,
+      label: 'Montpelier, Vermont, United States',
+    });
+  });
+
+  it('does not repeat a region named like the place', () => {
+    const [place] = parsePlaceSearch({
+      results: [{ name: 'Berlin', latitude: 52.5, longitude: 13.4, country_code: 'DE', country: 'Germany', admin1: 'Berlin' }],
+    });
+    expect(place.label).toBe('Berlin, Germany');
+  });
+
+  it('skips results without coordinates and caps the list', () => {
+    const results = Array.from({ length: 8 }, (_, i) => ({ name: `Town ${i}`, latitude: i, longitude: i }));
+    expect(parsePlaceSearch({ results: [{ name: 'Nowhere' }, ...results] })).toHaveLength(MAX_PLACE_RESULTS);
+    expect(parsePlaceSearch({})).toEqual([]);
+  });
+});
+
+describe('parseReverse', () => {
+  it('names a US town with its state abbreviation', () => {
+    const place = parseReverse({
+      lat: '44.26',
+      lon: '-72.58',
+      address: { city: 'Montpelier', state: 'Vermont', 'ISO3166-2-lvl4': 'US-VT', country: 'United States', country_code: 'us' },
+    });
+    expect(place?.label).toBe('Montpelier, VT');
+  });
+
+  it('names a village elsewhere with its country', () => {
+    const place = parseReverse({
+      lat: '46.5',
+      lon: '7.9',
+      address: { village: 'Grindelwald', state: 'Bern', country: 'Switzerland', country_code: 'ch' },
+    });
+    expect(place).toMatchObject({ name: 'Grindelwald', region: 'Bern', label: 'Grindelwald, Switzerland' });
+  });
+
+  it('falls back to the region when there is no locality', () => {
+    const place = parseReverse({ address: { state: 'Quebec', 'ISO3166-2-lvl4': 'CA-QC', country: 'Canada', country_code: 'ca' } });
+    expect(place?.label).toBe('QC, Canada');
+  });
+
+  it('is null for open ocean', () => {
+    expect(parseReverse({})).toBeNull();
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// createGeocoder
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('createGeocoder', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports an error page served with a 200 as a geocoding error', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('<html>Too many requests</html>')));
+    const geocoder = createGeocoder();
+    for (const lookup of [
+      () => geocoder.reverse(44.26, -72.58),
+      () => geocoder.searchPlaces('Montpelier'),
+      () => geocoder.lookupPostalCode('05602', 'us'),
+    ]) {
+      await expect(lookup()).rejects.toThrow(new GeocodeError('Geocoding service returned an unreadable response', 502));
+    }
+  });
+
+  it('reports a body that is not an object as a geocoding error', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json(null)));
+    await expect(createGeocoder().reverse(44.26, -72.58)).rejects.toBeInstanceOf(GeocodeError);
+  });
+});
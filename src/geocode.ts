@@ -0,0 +1,284 @@
+// Geocoding — postal codes and place names to coordinates, and coordinates
+// back to a place name, for any country the upstream services cover
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface PostalResult {
+  lat: number;
+  lon: number;
+  placeName: string;
+  state: string;   // abbreviation where the country has one (VT, ON, ENG)
+  country: string; // ISO 3166-1 alpha-2, lower case
+  label: string;   // e.g. "Montpelier, VT"
+}
+
+export interface Place {
+  name: string;
+  region: string;
+  country: string;     // display name
+  countryCode: string; // ISO 3166-1 alpha-2, lower case
+  lat: number;
+  lon: number;
+  label: string;
+}
+
+export interface Geocoder {
+  lookupPostalCode(code: string, country: string): Promise<PostalResult>;
+  searchPlaces(query: string): Promise<Place[]>;
+  reverse(lat: number, lon: number): Promise<Place | null>;
+}
+
+export interface GeocoderConfig {
+  WEATHER_PROVIDER?: string;
+}
+
+// Carries the HTTP status the API handler should respond with
+export class GeocodeError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'GeocodeError';
+  }
+}
+
+// ── Countries ──────────────────────────────────────────────────────────────
+
+// Every country Zippopotam.us has postal codes for
+export const POSTAL_COUNTRIES: Readonly<Record<string, string>> = {
+  ad: 'Andorra', ar: 'Argentina', as: 'American Samoa', at: 'Austria', au: 'Australia',
+  bd: 'Bangladesh', be: 'Belgium', bg: 'Bulgaria', br: 'Brazil', ca: 'Canada',
+  ch: 'Switzerland', cz: 'Czechia', de: 'Germany', dk: 'Denmark', do: 'Dominican Republic',
+  es: 'Spain', fi: 'Finland', fo: 'Faroe Islands', fr: 'France', gb: 'United Kingdom',
+  gf: 'French Guiana', gg: 'Guernsey', gl: 'Greenland', gp: 'Guadeloupe', gt: 'Guatemala',
+  gu: 'Guam', gy: 'Guyana', hr: 'Croatia', hu: 'Hungary', im: 'Isle of Man',
+  in: 'India', is: 'Iceland', it: 'Italy', je: 'Jersey', jp: 'Japan',
+  li: 'Liechtenstein', lk: 'Sri Lanka', lt: 'Lithuania', lu: 'Luxembourg', mc: 'Monaco',
+  md: 'Moldova', mh: 'Marshall Islands', mk: 'North Macedonia', mp: 'Northern Mariana Islands', mq: 'Martinique',
+  mx: 'Mexico', my: 'Malaysia', nl: 'Netherlands', no: 'Norway', nz: 'New Zealand',
+  ph: 'Philippines', pk: 'Pakistan', pl: 'Poland', pm: 'Saint Pierre and Miquelon', pr: 'Puerto Rico',
+  pt: 'Portugal', re: 'Réunion', ru: 'Russia', se: 'Sweden', si: 'Slovenia',
+  sj: 'Svalbard and Jan Mayen', sk: 'Slovakia', sm: 'San Marino', th: 'Thailand', tr: 'Turkey',
+  us: 'United States', va: 'Vatican City', vi: 'U.S. Virgin Islands', yt: 'Mayotte', za: 'South Africa',
+};
+
+// Countries whose places read best with a state or province abbreviation
+const ABBREVIATED_REGIONS = new Set(['us', 'ca', 'au']);
+
+export const MAX_QUERY_LENGTH = 100;
+export const MAX_PLACE_RESULTS = 5;
+const POSTAL_CODE_PATTERN = /^[A-Z0-9][A-Z0-9 -]{0,11}$/;
+
+const USER_AGENT = 'Sapcast (https://sapcast.ca)';
+
+// ── Normalization ──────────────────────────────────────────────────────────
+
+// Zippopotam only knows part of the code in some countries, and one
+// spelling of it in others
+export function normalizePostalCode(code: string, country: string): string {
+  if (!Object.prototype.hasOwnProperty.call(POSTAL_COUNTRIES, country)) {
+    throw new GeocodeError(`Postal codes aren't supported for country: ${country}`, 400);
+  }
+  const upper = code.trim().toUpperCase().replace(/\s+/g, ' ');
+  if (!POSTAL_CODE_PATTERN.test(upper)) {
+    throw new GeocodeError('That doesn\'t look like a postal code', 400);
+  }
+
+  switch (country) {
+    case 'us':
+      return upper.substring(0, 5);
+    case 'ca':
+      // Forward sortation area (K1A)
+      return upper.replace(/ /g, '').substring(0, 3);
+    case 'gb': {
+      // Outward code only (SW1A 1AA → SW1A)
+      const compact = upper.replace(/ /g, '');
+      return compact.length > 4 ? compact.substring(0, compact.length - 3) : compact;
+    }
+    case 'nl':
+      return upper.substring(0, 4);
+    case 'jp': {
+      const digits = upper.replace(/\D/g, '');
+      return digits.length === 7 ? `${digits.substring(0, 3)}-${digits.substring(3)}` : upper;
+    }
+    default:
+      return upper;
+  }
+}
+
+export function placeLabel(name: string, region: string, countryCode: string, country: string): string {
+  const qualifier = ABBREVIATED_REGIONS.has(countryCode) ? region : country;
+  return [name, qualifier].filter(Boolean).join(', ');
+}
+
+// ── Upstream responses ─────────────────────────────────────────────────────
+
+export interface ZippopotamResponse {
+  'country abbreviation'?: string;
+  places?: Array<Record<string, string>>;
+}
+
+export function parseZippopotam(data: ZippopotamResponse, country: string): PostalResult | null {
+  const place = data.places?.[0];
+  if (!place) return null;
+
+  const lat = parseFloat(place.latitude);
+  const lon = parseFloat(place.longitude);
+  if (isNaN(lat) || isNaN(lon)) return null;
+
+  const placeName = place['place name'] ?? '';
+  const state = place['state abbreviation'] || place.state || '';
+  return {
+    lat,
+    lon,
+    placeName,
+    state,
+    country,
+    label: placeLabel(placeName, state, country, POSTAL_COUNTRIES[country] ?? ''),
+  };
+}
+
+export interface OpenMeteoGeocodingResponse {
+  results?: Array<{
+    name?: string;
+    latitude?: number;
+    longitude?: number;
+    country_code?: string;
+    country?: string;
+    admin1?: string;
+  }>;
+}
+
+export function parsePlaceSearch(data: OpenMeteoGeocodingResponse): Place[] {
+  return (data.results ?? []).flatMap(r => {
+    if (typeof r.latitude !== 'number' || typeof r.longitude !== 'number' || !r.name) return [];
+    const region = r.admin1 ?? '';
+    const country = r.country ?? '';
+    return [{
+      name: r.name,
+      region,
+      country,
+      countryCode: (r.country_code ?? '').toLowerCase(),
+      lat: r.latitude,
+      lon: r.longitude,
+      // Candidates need the full qualifier to tell the Springfields apart
+      label: [r.name, region, country].filter((part, i, all) => part && all.indexOf(part) === i).join(', '),
+    }];
+  }).slice(0, MAX_PLACE_RESULTS);
+}
+
+export interface NominatimReverseResponse {
+  lat?: string;
+  lon?: string;
+  address?: Record<string, string>;
+}
+
+const LOCALITY_FIELDS = ['city', 'town', 'village', 'hamlet', 'municipality', 'county'];
+
+export function parseReverse(data: NominatimReverseResponse): Place | null {
+  const address = data.address;
+  if (!address) return null;
+
+  const name = LOCALITY_FIELDS.map(f => address[f]).find(Boolean) ?? '';
+  const countryCode = (address.country_code ?? '').toLowerCase();
+  const country = address.country ?? '';
+  // ISO 3166-2 subdivision, e.g. US-VT
+  const subdivision = address['ISO3166-2-lvl4']?.split('-')[1];
+  const region = ABBREVIATED_REGIONS.has(countryCode) && subdivision ? subdivision : address.state ?? '';
+  if (!name && !region && !country) return null;
+
+  return {
+    name,
+    region,
+    country,
+    countryCode,
+    lat: parseFloat(data.lat ?? ''),
+    lon: parseFloat(data.lon ?? ''),
+    label: name ? placeLabel(name, region, countryCode, country) : [region, country].filter(Boolean).join(', '),
+  };
+}
+
+// ── Geocoders ──────────────────────────────────────────────────────────────
+
+async function fetchJSON(url: string, notFound: string): Promise<unknown> {
+  let resp: Response;
+  try {
+    resp = await fetch(url, { headers: { 'User-Agent': USER_AGENT, Accept: 'application/json' } });
+  } catch {
+    throw new GeocodeError('Failed to reach geocoding service', 502);
+  }
+  if (resp.status === 404) {
+    throw new GeocodeError(notFound, 404);
+  }
+  if (!resp.ok) {
+    throw new GeocodeError(`Geocoding service returned ${resp.status}`, 502);
+  }
+  // Nominatim answers a rate-limited request with an HTML page
+  let body: unknown;
+  try {
+    body = await resp.json();
+  } catch {
+    throw new GeocodeError('Geocoding service returned an unreadable response', 502);
+  }
+  if (!body || typeof body !== 'object') {
+    throw new GeocodeError('Geocoding service returned an unreadable response', 502);
+  }
+  return body;
+}
+
+// Zippopotam.us for postal codes, Open-Meteo for place search, and
+// OpenStreetMap Nominatim for reverse lookups
+export function createGeocoder(config: GeocoderConfig = {}): Geocoder {
+  if ((config.WEATHER_PROVIDER || '').toLowerCase() === 'fixture') {
+    return createFixtureGeocoder();
+  }
+
+  return {
+    async lookupPostalCode(code, country) {
+      const normalized = normalizePostalCode(code, country);
+      const data = await fetchJSON(
+        `https://api.zippopotam.us/${country}/${encodeURIComponent(normalized)}`,
+        'Postal code not found',
+      );
+      const result = parseZippopotam(data as ZippopotamResponse, country);
+      if (!result) {
+        throw new GeocodeError('Postal code not found', 404);
+      }
+      return result;
+    },
+    async searchPlaces(query) {
+      const url = 'https://geocoding-api.open-meteo.com/v1/search'
+        + `?name=${encodeURIComponent(query)}&count=${MAX_PLACE_RESULTS}&language=en&format=json`;
+      return parsePlaceSearch(await fetchJSON(url, 'No places found') as OpenMeteoGeocodingResponse);
+    },
+    async reverse(lat, lon) {
+      // zoom 10 is town level; finer zooms name streets
+      const url = 'https://nominatim.openstreetmap.org/reverse'
+        + `?format=jsonv2&lat=${lat}&lon=${lon}&zoom=10&accept-language=en`;
+      return parseReverse(await fetchJSON(url, 'No place found') as NominatimReverseResponse);
+    },
+  };
+}
+
+// Offline stand-in matching the fixture forecast's location
+export function createFixtureGeocoder(): Geocoder {
+  const montpelier: Place = {
+    name: 'Montpelier',
+    region: 'VT',
+    country: 'United States',
+    countryCode: 'us',
+    lat: 44.26,
+    lon: -72.58,
+    label: 'Montpelier, VT',
+  };
+  return {
+    async lookupPostalCode(code, country) {
+      normalizePostalCode(code, country);
+      return { lat: montpelier.lat, lon: montpelier.lon, placeName: 'Montpelier', state: 'VT', country: 'us', label: montpelier.label };
+    },
+    async searchPlaces() {
+      return [{ ...montpelier, region: 'Vermont', label: 'Montpelier, Vermont, United States' }];
+    },
+    async reverse(lat, lon) {
+      return { ...montpelier, lat, lon };
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { historyKey, mergeObservation, scoreObservedDays, summarizeSeason, MAX_SEASON_DAYS, type ObservedDay } from './history';
+import { SCORING_PROFILES } from './scoring';
+
+// ── Helper to build an archived day ──
+function observed(date: string, tempLow: number | null, tempHigh: number | null): ObservedDay {
+  return { date, tempLow, tempHigh, summary: '', icon: '', rating: 'unknown' };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// historyKey / mergeObservation
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('historyKey', () => {
+  it('rounds to the same ~11km grid as the forecast cache', () => {
+    expect(historyKey('pirateweather', 44.26, -72.58, 2026)).toBe('history:pirateweather:44.3:-72.6:2026');
+  });
+});
+
+describe('mergeObservation', () => {
+  it('keeps records sorted by date', () => {
+    const merged = mergeObservation([observed('2026-03-02', -5, 6)], observed('2026-03-01', -4, 5));
+    expect(merged.map(r => r.date)).toEqual(['2026-03-01', '2026-03-02']);
+  });
+
+  it('replaces an existing record for the same date', () => {
+    const merged = mergeObservation([observed('2026-03-01', -5, 6)], observed('2026-03-01', -2, 9));
+    expect(merged).toEqual([observed('2026-03-01', -2, 9)]);
+  });
+
+  it('caps the season length', () => {
+    const records = Array.from({ length: MAX_SEASON_DAYS }, (_, i) =>
+      observed(new Date(Date.UTC(2026, 0, 1 + i)).toISOString().split('T')[0], -5, 6));
+    const merged = mergeObservation(records, observed('2027-01-02', -5, 6));
+    expect(merged).toHaveLength(MAX_SEASON_DAYS);
+    expect(merged[merged.length - 1].date).toBe('2027-01-02');
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// scoreObservedDays / summarizeSeason
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('scoreObservedDays', () => {
+  it('rescores archived days and uses the previous night for yield', () => {
+    const days = scoreObservedDays([observed('2026-03-01', 3, 10), observed('2026-03-02', -5, 7)]);
+    expect(days[0]).toMatchObject({ rating: 'poor', score: 0, sapYield: 0 });
+    expect(days[1]).toMatchObject({ rating: 'excellent', score: 3, sapYield: 1.8 });
+  });
+
+  it('marks days with missing temperatures as unknown', () => {
+    expect(scoreObservedDays([observed('2026-03-01', null, 5)])[0].rating).toBe('unknown');
+  });
+
+  it('applies the requested profile', () => {
+    const [day] = scoreObservedDays([observed('2026-04-20', 1, 10)], SCORING_PROFILES.birch);
+    expect(day.rating).toBe('excellent');
+  });
+});
+
+describe('summarizeSeason', () => {
+  const records = [
+    observed('2026-03-01', -10, -2),  // poor (no thaw)
+    observed('2026-03-02', -5, 7),    // excellent
+    observed('2026-03-03', -4, 6),    // excellent
+    observed('2026-03-04', 3, 10),    // poor
+    observed('2026-03-05', -10, 6),   // good
+    observed('2026-03-06', -1, 3),    // fair
+  ];
+
+  it('counts sap days and their span', () => {
+    const summary = summarizeSeason(records, 45, 2026);
+    expect(summary.sapDays).toBe(3);
+    expect(summary.firstSapDay).toBe('2026-03-02');
+    expect(summary.lastSapDay).toBe('2026-03-05');
+  });
+
+  it('reports the best run and total yield', () => {
+    const summary = summarizeSeason(records, 45, 2026);
+    expect(summary.bestWindow).toMatchObject({ startDate: '2026-03-02', endDate: '2026-03-03', length: 2 });
+    expect(summary.totalYield).toBeGreaterThan(summary.bestWindow!.totalYield);
+  });
+
+  it('includes the latitude prediction for comparison', () => {
+    const summary = summarizeSeason(records, 45, 2026);
+    expect(summary.predicted.tapByDate).toBe('2026-03-17');
+  });
+
+  it('handles a season with no sap days', () => {
+    const summary = summarizeSeason([observed('2026-03-01', 3, 10)], 45, 2026);
+    expect(summary).toMatchObject({ sapDays: 0, totalYield: 0, firstSapDay: null, lastSapDay: null, bestWindow: null });
+  });
+});
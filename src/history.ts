@@ -0,0 +1,124 @@
+// Season archive — observed daily high/low per location, replayed through
+// the same scoring as the forecast so past seasons can be compared
+
+import {
+  scoreDay,
+  estimateSapYield,
+  findBestWindow,
+  getSeasonInfo,
+  SUGAR_MAPLE,
+  type ForecastDay,
+  type PrecipType,
+  type Rating,
+  type ScoringProfile,
+  type SeasonInfo,
+} from './scoring';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface ObservedDay {
+  date: string;
+  tempHigh: number | null;
+  tempLow: number | null;
+  summary: string;
+  icon: string;
+  rating: Rating; // as scored with the default profile when recorded
+  // Absent on records archived before these were kept
+  precipType?: PrecipType | null;
+  snowfall?: number;
+  cloudCover?: number | null;
+}
+
+export interface SeasonSummary {
+  year: number;
+  days: ForecastDay[];
+  bestWindow: {
+    startDate: string;
+    endDate: string;
+    length: number;
+    totalYield: number;
+  } | null;
+  sapDays: number;       // days that counted toward a window
+  totalYield: number;    // litres per tap over the recorded days
+  firstSapDay: string | null;
+  lastSapDay: string | null;
+  predicted: SeasonInfo; // latitude-based guess, for comparison
+}
+
+// Cap per season so a long-lived cell can't grow its KV value unbounded
+export const MAX_SEASON_DAYS = 366;
+
+// ── Storage helpers ────────────────────────────────────────────────────────
+
+export function historyKey(provider: string, lat: number, lon: number, year: number): string {
+  const rlat = Math.round(lat * 10) / 10;
+  const rlon = Math.round(lon * 10) / 10;
+  return `history:${provider}:${rlat}:${rlon}:${year}`;
+}
+
+// Adds or replaces the record for a date, keeping the list sorted by date
+export function mergeObservation(records: ObservedDay[], observed: ObservedDay): ObservedDay[] {
+  const merged = records.filter(r => r.date !== observed.date);
+  merged.push(observed);
+  merged.sort((a, b) => a.date.localeCompare(b.date));
+  return merged.slice(-MAX_SEASON_DAYS);
+}
+
+// ── Replay ─────────────────────────────────────────────────────────────────
+
+export function scoreObservedDays(records: ObservedDay[], profile: ScoringProfile = SUGAR_MAPLE): ForecastDay[] {
+  return records.map((r, i) => {
+    const { tempHigh, tempLow } = r;
+    const { rating, score } = (tempHigh !== null && tempLow !== null)
+      ? scoreDay(tempLow, tempHigh, profile)
+      : { rating: 'unknown' as Rating, score: 0 };
+    const prevLow = records[i - 1]?.tempLow ?? null;
+    const sapYield = (score > 0 && tempHigh !== null && tempLow !== null)
+      ? estimateSapYield(tempLow, tempHigh, prevLow, profile)
+      : 0;
+
+    // Observed, so nothing left to doubt
+    return {
+      date: r.date,
+      tempHigh,
+      tempLow,
+      summary: r.summary,
+      icon: r.icon,
+      rating,
+      score,
+      sapYield,
+      confidence: 1,
+      precipType: r.precipType ?? null,
+      snowfall: r.snowfall ?? 0,
+      cloudCover: r.cloudCover ?? null,
+    };
+  });
+}
+
+export function summarizeSeason(
+  records: ObservedDay[],
+  lat: number,
+  year: number,
+  profile: ScoringProfile = SUGAR_MAPLE,
+): SeasonSummary {
+  const days = scoreObservedDays(records, profile);
+  const bestWindow = findBestWindow(days, profile);
+  const sapDays = days.filter(d => d.score >= profile.minWindowScore);
+  const totalYield = Math.round(days.reduce((sum, d) => sum + d.sapYield, 0) * 10) / 10;
+
+  return {
+    year,
+    days,
+    bestWindow: bestWindow ? {
+      startDate: bestWindow.start,
+      endDate: bestWindow.end,
+      length: bestWindow.days.length,
+      totalYield: bestWindow.totalYield,
+    } : null,
+    sapDays: sapDays.length,
+    totalYield,
+    firstSapDay: sapDays[0]?.date ?? null,
+    lastSapDay: sapDays[sapDays.length - 1]?.date ?? null,
+    predicted: getSeasonInfo(lat, year),
+  };
+}
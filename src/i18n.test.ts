@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  matchLocale,
+  parseAcceptLanguage,
+  negotiateLocale,
+  requestLocale,
+  formatDate,
+  formatWindowDates,
+  formatDecimal,
+  plural,
+  interpolate,
+  formatMessage,
+} from './i18n';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Negotiation
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('matchLocale', () => {
+  it('reads any French as Quebec French and any English as English', () => {
+    expect(matchLocale('fr')).toBe('fr-CA');
+    expect(matchLocale('fr-FR')).toBe('fr-CA');
+    expect(matchLocale('FR_ca')).toBe('fr-CA');
+    expect(matchLocale('en-GB')).toBe('en');
+    expect(matchLocale('de')).toBeNull();
+  });
+});
+
+describe('parseAcceptLanguage', () => {
+  it('orders tags by weight, then by position', () => {
+    expect(parseAcceptLanguage('de;q=0.5, fr-CA, en;q=0.8, es')).toEqual(['fr-CA', 'es', 'en', 'de']);
+  });
+
+  it('drops wildcards and refused languages', () => {
+    expect(parseAcceptLanguage('*, fr;q=0, en;q=0.1')).toEqual(['en']);
+    expect(parseAcceptLanguage('')).toEqual([]);
+  });
+});
+
+describe('negotiateLocale', () => {
+  it('lets lang win over the browser', () => {
+    expect(negotiateLocale('en', 'fr-CA,fr;q=0.9')).toBe('en');
+    expect(negotiateLocale('fr', 'en-US')).toBe('fr-CA');
+  });
+
+  it('falls through an unknown lang to the first language it speaks', () => {
+    expect(negotiateLocale('xx', 'de-DE, fr;q=0.7, en;q=0.5')).toBe('fr-CA');
+  });
+
+  it('falls back to English', () => {
+    expect(negotiateLocale(null, null)).toBe('en');
+    expect(negotiateLocale(null, 'de, es')).toBe('en');
+  });
+
+  it('reads both from a request', () => {
+    const request = new Request('https://sapcast.ca/forecast?lang=fr', { headers: { 'Accept-Language': 'en' } });
+    expect(requestLocale(request)).toBe('fr-CA');
+    expect(requestLocale(new Request('https://sapcast.ca/', { headers: { 'Accept-Language': 'fr-CA' } }))).toBe('fr-CA');
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Formatting
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('dates', () => {
+  it('stays on the calendar day whatever the server time zone', () => {
+    expect(formatDate('2026-03-10')).toBe('Tue, Mar 10');
+    expect(formatDate('2026-03-10', 'fr-CA')).toBe('mar. 10 mars');
+  });
+
+  it('formats a window as a range, or a single weekday', () => {
+    expect(formatWindowDates('2026-03-10', '2026-03-12')).toBe('Mar 10 – Mar 12');
+    expect(formatWindowDates('2026-03-10', '2026-03-10')).toBe('Tue, Mar 10');
+    expect(formatWindowDates('2026-03-10', '2026-03-12', 'fr-CA')).toBe('10 mars – 12 mars');
+  });
+});
+
+describe('numbers and plurals', () => {
+  it('uses the locale decimal mark', () => {
+    expect(formatDecimal(1.46)).toBe('1.5');
+    expect(formatDecimal(1.46, 'fr-CA')).toBe('1,5');
+  });
+
+  it('counts zero as singular in French only', () => {
+    const forms = { one: 'jour', other: 'jours' };
+    expect(plural(forms, 0, 'fr-CA')).toBe('jour');
+    expect(plural(forms, 0, 'en')).toBe('jours');
+    expect(plural(forms, 2, 'fr-CA')).toBe('jours');
+  });
+
+  it('fills placeholders and leaves unknown ones', () => {
+    expect(interpolate('{n} of {total} — {other}', { n: 3, total: '7' })).toBe('3 of 7 — {other}');
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Messages
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('formatMessage', () => {
+  it('words the same message in each language', () => {
+    const ref = { code: 'rec.upcoming', params: { date: '2026-03-17', days: 3 } } as const;
+    expect(formatMessage(ref, 'en')).toBe('Great window coming Tue, Mar 17 — 3 days of favorable conditions.');
+    expect(formatMessage(ref, 'fr-CA')).toBe('Très bonne période à partir du mar. 17 mars — 3 jours de conditions favorables.');
+  });
+
+  it('defaults to English', () => {
+    expect(formatMessage({ code: 'rec.no_window', params: {} })).toBe('No strong tapping window in the current forecast.');
+  });
+});
@@ -0,0 +1,190 @@
+// Localization — the languages Sapcast speaks, choosing one for a request,
+// date formatting, and the catalogue every forecast message comes from.
+// Recommendations carry a code and parameters; the words are filled in
+// per locale, so the same forecast reads in English or Quebec French.
+
+// ── Locales ────────────────────────────────────────────────────────────────
+
+export type Locale = 'en' | 'fr-CA';
+
+export const LOCALES: readonly Locale[] = ['en', 'fr-CA'];
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// The tag handed to Intl; plain English keeps the US date order it always had
+const INTL_TAGS: Record<Locale, string> = {
+  en: 'en-US',
+  'fr-CA': 'fr-CA',
+};
+
+export function intlTag(locale: Locale): string {
+  return INTL_TAGS[locale];
+}
+
+// Any French reads as Quebec French and any English as English; there's
+// only one of each to offer
+export function matchLocale(tag: string): Locale | null {
+  const language = tag.trim().toLowerCase().split(/[-_]/)[0];
+  if (language === 'fr') return 'fr-CA';
+  if (language === 'en') return 'en';
+  return null;
+}
+
+// Language tags from an Accept-Language header, most preferred first
+export function parseAcceptLanguage(header: string): string[] {
+  return header.split(',')
+    .map((part, i) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map(p => p.trim()).find(p => p.startsWith('q='));
+      return { tag: tag.trim(), q: q ? parseFloat(q.substring(2)) : 1, i };
+    })
+    .filter(l => l.tag && l.tag !== '*' && !isNaN(l.q) && l.q > 0)
+    .sort((a, b) => b.q - a.q || a.i - b.i)
+    .map(l => l.tag);
+}
+
+// An explicit lang parameter wins over the browser's languages; anything
+// unrecognized falls through to the next choice, then to English
+export function negotiateLocale(lang: string | null, acceptLanguage: string | null): Locale {
+  const requested = lang ? matchLocale(lang) : null;
+  if (requested) return requested;
+  for (const tag of parseAcceptLanguage(acceptLanguage ?? '')) {
+    const locale = matchLocale(tag);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function requestLocale(request: Request): Locale {
+  return negotiateLocale(new URL(request.url).searchParams.get('lang'), request.headers.get('Accept-Language'));
+}
+
+// ── Formatting ─────────────────────────────────────────────────────────────
+
+// Dates are calendar days, so format them at noon UTC to stay on the day
+function calendarDay(date: string): Date {
+  return new Date(`${date}T12:00:00Z`);
+}
+
+// "Tue, Mar 17" / "mar. 17 mars"
+export function formatDate(date: string, locale: Locale = DEFAULT_LOCALE): string {
+  return calendarDay(date)
+    .toLocaleDateString(intlTag(locale), { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+// "Mar 17" / "17 mars"
+export function formatShortDate(date: string, locale: Locale = DEFAULT_LOCALE): string {
+  return calendarDay(date).toLocaleDateString(intlTag(locale), { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+export function formatWindowDates(start: string, end: string, locale: Locale = DEFAULT_LOCALE): string {
+  if (start === end) return formatDate(start, locale);
+  return `${formatShortDate(start, locale)} – ${formatShortDate(end, locale)}`;
+}
+
+// One decimal, with the locale's decimal mark (1.5 / 1,5)
+export function formatDecimal(n: number, locale: Locale = DEFAULT_LOCALE): string {
+  return n.toLocaleString(intlTag(locale), { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+}
+
+export interface PluralForms {
+  one: string;
+  other: string;
+}
+
+// French counts 0 and 1 as singular, English only 1
+export function plural(forms: PluralForms, n: number, locale: Locale): string {
+  return new Intl.PluralRules(intlTag(locale)).select(n) === 'one' ? forms.one : forms.other;
+}
+
+// Fills {name} placeholders; unknown names are left as they are
+export function interpolate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? String(values[name]) : match);
+}
+
+// ── Messages ───────────────────────────────────────────────────────────────
+
+// Parameters for each message. Dates are ISO days and counts are plain
+// numbers, so a client can word them itself.
+export interface MessageParams {
+  'rec.season_over': Record<string, never>;
+  'rec.too_cold': Record<string, never>;
+  'rec.no_window': Record<string, never>;
+  'rec.brief_window': { date: string; today: boolean };
+  'rec.tap_now': { quality: 'excellent' | 'good'; days: number };
+  'rec.likely_window': { from: number; to: number; confidence: 'medium' | 'low'; days: number };
+  'rec.upcoming': { date: string; days: number };
+  'rec.pull_taps': { gdd: number };
+  'rec.pull_taps_soon': { days: number; gdd: number; target: number };
+  'note.rain_on_snow': { date: string };
+  'note.deep_snow': { cm: number };
+  'note.sunny': Record<string, never>;
+  'season.timing': { tapBy: string; seasonEnd: string };
+}
+
+export type MessageCode = keyof MessageParams;
+
+export type MessageRef = { [C in MessageCode]: { code: C; params: MessageParams[C] } }[MessageCode];
+
+type Catalogue = { [C in MessageCode]: (params: MessageParams[C]) => string };
+
+const EN: Catalogue = {
+  'rec.season_over': () => 'Season may be over — no freezing nights in the forecast.',
+  'rec.too_cold': () => 'Too cold — daytime temperatures aren\'t rising above freezing yet.',
+  'rec.no_window': () => 'No strong tapping window in the current forecast.',
+  'rec.brief_window': p => `Only a brief 1-day window ${p.today ? 'today' : `coming ${formatDate(p.date, 'en')}`}`
+    + ' — longer freeze-thaw runs produce much better sap flow.',
+  'rec.tap_now': p => `Tap now — ${p.quality} conditions for the next ${p.days} days.`
+    + (p.days >= 3 ? ' Great stretch for strong sap flow.' : ''),
+  'rec.likely_window': p => `Likely window in ${p.from}–${p.to} days (${p.confidence} confidence) — `
+    + `${p.days} days of favorable conditions if the forecast holds. Worth getting equipment out now.`,
+  'rec.upcoming': p => `${p.days >= 3 ? 'Great' : 'Good'} window coming ${formatDate(p.date, 'en')}`
+    + ` — ${p.days} days of favorable conditions.`,
+  'rec.pull_taps': p => `Pull taps — buds are breaking and sap will turn buddy (${p.gdd} growing degree days since Jan 1).`,
+  'rec.pull_taps_soon': p => `Pull taps — buddy sap likely within ${p.days} day${p.days > 1 ? 's' : ''}. `
+    + `${p.gdd} of ~${p.target} growing degree days to bud break so far.`,
+  'note.rain_on_snow': p => `Rain on snow ${formatDate(p.date, 'en')} — expect a fast melt and soft woods roads. `
+    + 'Once the snowpack goes the ground thaws, which can end the season early.',
+  'note.deep_snow': p => `${p.cm} cm of snow in the forecast — snow cover keeps roots cold `
+    + 'and tends to lengthen the season.',
+  'note.sunny': () => 'Mostly sunny — south-facing slopes will thaw and run earlier in the day than shaded ones.',
+  'season.timing': p => `Based on your latitude, sap season typically wraps up around ${formatDate(p.seasonEnd, 'en')}. `
+    + `If you haven't seen an ideal window by ${formatDate(p.tapBy, 'en')}, tap your trees anyway — `
+    + 'early tapping doesn\'t reduce yield, and you\'ll catch any remaining freeze-thaw cycles.',
+};
+
+const FR_CA: Catalogue = {
+  'rec.season_over': () => 'La saison est peut-être terminée — aucune nuit de gel dans les prévisions.',
+  'rec.too_cold': () => 'Trop froid — le jour, le mercure ne monte pas encore au-dessus du point de congélation.',
+  'rec.no_window': () => 'Aucune bonne période d’entaillage dans les prévisions actuelles.',
+  'rec.brief_window': p => `Une seule journée favorable ${p.today ? 'aujourd’hui' : `le ${formatDate(p.date, 'fr-CA')}`}`
+    + ' — les séquences de gel et de dégel plus longues donnent de bien meilleures coulées.',
+  'rec.tap_now': p => `Entaillez maintenant — ${p.quality === 'excellent' ? 'excellentes' : 'bonnes'} conditions `
+    + `pour les ${p.days} prochains jours.` + (p.days >= 3 ? ' Belle séquence pour de fortes coulées.' : ''),
+  'rec.likely_window': p => `Période probable dans ${p.from} à ${p.to} jours `
+    + `(confiance ${p.confidence === 'medium' ? 'moyenne' : 'faible'}) — ${p.days} jours de conditions favorables `
+    + 'si les prévisions se maintiennent. C’est le temps de sortir l’équipement.',
+  'rec.upcoming': p => `${p.days >= 3 ? 'Très bonne' : 'Bonne'} période à partir du ${formatDate(p.date, 'fr-CA')}`
+    + ` — ${p.days} jours de conditions favorables.`,
+  'rec.pull_taps': p => 'Retirez les chalumeaux — les bourgeons éclatent et la sève prendra un goût de bourgeon '
+    + `(${p.gdd} degrés-jours de croissance depuis le 1er janvier).`,
+  'rec.pull_taps_soon': p => `Retirez les chalumeaux — goût de bourgeon probable d’ici ${p.days} jour${p.days > 1 ? 's' : ''}. `
+    + `${p.gdd} degrés-jours de croissance sur ~${p.target} avant le débourrement jusqu’ici.`,
+  'note.rain_on_snow': p => `Pluie sur la neige le ${formatDate(p.date, 'fr-CA')} — attendez-vous à une fonte rapide `
+    + 'et à des chemins d’érablière détrempés. Une fois la neige partie, le sol dégèle, ce qui peut écourter la saison.',
+  'note.deep_snow': p => `${p.cm} cm de neige dans les prévisions — la neige garde les racines au froid `
+    + 'et tend à allonger la saison.',
+  'note.sunny': () => 'Plutôt ensoleillé — les versants exposés au sud dégèleront et couleront plus tôt dans la journée '
+    + 'que ceux à l’ombre.',
+  'season.timing': p => `Selon votre latitude, la saison des sucres se termine habituellement vers le ${formatDate(p.seasonEnd, 'fr-CA')} ; `
+    + `si vous n’avez pas vu de période idéale d’ici le ${formatDate(p.tapBy, 'fr-CA')}, entaillez quand même — `
+    + 'entailler tôt ne réduit pas le rendement, et vous profiterez des derniers cycles de gel et de dégel.',
+};
+
+const CATALOGUES: Record<Locale, Catalogue> = { en: EN, 'fr-CA': FR_CA };
+
+export function formatMessage(ref: MessageRef, locale: Locale = DEFAULT_LOCALE): string {
+  // The union doesn't narrow through the index, so look the template up loosely
+  const template = CATALOGUES[locale][ref.code] as (params: MessageRef['params']) => string;
+  return template(ref.params);
+}
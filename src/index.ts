@@ -1,49 +1,295 @@
 // Sapcast — Cloudflare Worker
-// Serves the frontend and proxies/caches Pirate Weather API requests
+// Serves the frontend and proxies/caches weather provider requests
 
 import {
   scoreDay,
-  findBestWindow,
-  generateRecommendation,
-  getSeasonInfo,
-  type ForecastDay,
+  getScoringProfile,
+  customizeProfile,
+  validateProfile,
+  SCORING_PROFILES,
+  SUGAR_MAPLE,
+  WINDOW_OBJECTIVES,
+  addDays,
+  type Recommendation,
   type Rating,
-  type SeasonInfo,
+  type ScoringProfile,
+  type ScoringThresholds,
+  type WindowObjective,
 } from './scoring';
+import {
+  getProvider,
+  WeatherProviderError,
+  type WeatherProvider,
+} from './weather';
+import {
+  historyKey,
+  mergeObservation,
+  scoreObservedDays,
+  summarizeSeason,
+  type ObservedDay,
+  type SeasonSummary,
+} from './history';
+import {
+  parseAlertChannel,
+  shouldAlert,
+  buildAlert,
+  deliverAlert,
+  SubscriptionValidationError,
+  type AlertChannel,
+  type AlertSubscription,
+} from './alerts';
+import type { VapidKeys } from './webpush';
+import { buildCalendar } from './calendar';
+import { createRouter, type Route, type RouteParams } from './router';
+import {
+  buildOpenApiDocument,
+  LOCATION_PARAM_DOCS,
+  PROFILE_PARAM_DOCS,
+  TERRAIN_PARAM_DOCS,
+  RANK_PARAM_DOC,
+  LANG_PARAM_DOC,
+  type ParameterDoc,
+} from './openapi';
+import {
+  parseCalibrationRecords,
+  recordsFromJournal,
+  calibrateProfile,
+  CalibrationError,
+  type CalibrationRecord,
+} from './calibration';
+import {
+  parseJournalEntry,
+  addJournalEntry,
+  rateDay,
+  summarizeJournal,
+  JournalValidationError,
+  type JournalEntry,
+  type RatedDay,
+} from './journal';
+import {
+  createGeocoder,
+  normalizePostalCode,
+  GeocodeError,
+  POSTAL_COUNTRIES,
+  MAX_QUERY_LENGTH,
+  type Place,
+  type PostalResult,
+} from './geocode';
+import {
+  parseAspect,
+  parseElevation,
+  TerrainError,
+  type TerrainOptions,
+} from './terrain';
+import {
+  parseStands,
+  isValidListId,
+  standTerrain,
+  StandValidationError,
+  MAX_STAND_NAME_LENGTH,
+  type Stand,
+} from './stands';
+import { getForecast, trackKey, cellToday, CACHE_TTL, type ForecastResult, type TrackedCell } from './forecast';
+import { prerenderForecast, describeForecast, escapeHTML } from './prerender';
+import {
+  offlineSpot,
+  nearestOffline,
+  offlineSpotsToPrune,
+  offlineFallback,
+  clientSource,
+  OFFLINE_POLICY,
+  SHELL_CACHE,
+  SHELL_ASSETS,
+} from './offline';
+import {
+  newShareId,
+  isValidShareId,
+  parseShareLabel,
+  renderShareImage,
+  ShareValidationError,
+  SHARE_TTL,
+  type ShareSnapshot,
+} from './share';
+import { renderSharePng } from './sharepng';
+import {
+  toWidgetData,
+  parseWidgetDays,
+  parseEmbedOptions,
+  renderEmbed,
+  WidgetOptionsError,
+  type WidgetData,
+} from './widget';
+import { requestLocale, intlTag, formatDate, interpolate, DEFAULT_LOCALE, type Locale } from './i18n';
+import { PAGE_TEXT, UI_TEXT, structuredData, countryName } from './pagetext';
 
 interface Env {
   FORECAST_CACHE: KVNamespace;
   PIRATE_WEATHER_API_KEY: string;
   POSTHOG_API_KEY?: string;
+  WEATHER_PROVIDER?: string; // 'pirateweather' (default) | 'openmeteo' | 'fixture'
+  VAPID_PUBLIC_KEY?: string;
+  VAPID_PRIVATE_KEY?: string;
+  VAPID_SUBJECT?: string;
+  ELEVATION_API_URL?: string; // defaults to Open-Meteo's elevation API
+}
+
+const GEOCODE_CACHE_TTL = 2592000; // 30 days — place coords and names don't change
+const STANDS_TTL = 31536000; // 1 year — refreshed whenever the list is saved
+const MAX_TRACKED_PER_RUN = 40; // stay well under the Worker subrequest limit
+const MAX_HISTORY_YEARS = 10;
+const MAX_ALERTS_PER_RUN = 40; // each needs a forecast and a delivery subrequest
+const JOURNAL_TTL = 63072000; // 2 years — keeps last season for comparison
+const SITE_ORIGIN = 'https://sapcast.ca';
+
+// Query params for custom thresholds, applied on top of the chosen preset
+const PROFILE_PARAMS: Record<string, keyof ScoringThresholds> = {
+  freeze: 'freezeThreshold',
+  thaw: 'thawThreshold',
+  lowMin: 'idealLowMin',
+  lowMax: 'idealLowMax',
+  highMin: 'idealHighMin',
+  highMax: 'idealHighMax',
+  minScore: 'minWindowScore',
+};
+
+// Returns the requested scoring profile, or an error message
+function parseProfileParams(params: URLSearchParams): ScoringProfile | string {
+  const id = params.get('profile') || SUGAR_MAPLE.id;
+  const base = getScoringProfile(id);
+  if (!base) {
+    return `Unknown profile: ${id}. Expected one of ${Object.keys(SCORING_PROFILES).join(', ')}`;
+  }
+
+  const overrides: Partial<ScoringThresholds> = {};
+  for (const [param, field] of Object.entries(PROFILE_PARAMS)) {
+    const raw = params.get(param);
+    if (raw === null) continue;
+    const value = parseFloat(raw);
+    if (isNaN(value)) {
+      return `Invalid ${param} parameter`;
+    }
+    overrides[field] = value;
+  }
+
+  if (Object.keys(overrides).length === 0) {
+    return base;
+  }
+  const profile = customizeProfile(base, overrides);
+  return validateProfile(profile) ?? profile;
 }
 
-interface CurrentConditions {
-  temperature: number | null;
-  summary: string;
-  icon: string;
+// The same profile and overrides as fields of a JSON body
+function parseProfileFields(body: Record<string, unknown>): ScoringProfile | string {
+  const params = new URLSearchParams();
+  for (const field of ['profile', ...Object.keys(PROFILE_PARAMS)]) {
+    const value = body[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      return `Invalid ${field} parameter`;
+    }
+    params.set(field, String(value));
+  }
+  return parseProfileParams(params);
 }
 
-interface ForecastResult {
-  current: CurrentConditions;
-  today: ForecastDay | null;
-  days: ForecastDay[];
-  bestWindow: {
-    startDate: string;
-    endDate: string;
-    length: number;
-    avgScore: number;
-  } | null;
-  recommendation: { type: string; message: string };
-  seasonInfo: SeasonInfo | null;
-  cached: boolean;
+interface ForecastParams {
+  lat: number;
+  lon: number;
+  profile: ScoringProfile;
+  terrain: TerrainOptions;
+  rank: WindowObjective;
 }
 
-const CACHE_TTL = 10800; // 3 hours in seconds
-const GEOCODE_CACHE_TTL = 2592000; // 30 days — postal code coords don't change
+// Location, profile, terrain and window ranking from a forecast query, or an error message
+function parseForecastParams(params: URLSearchParams): ForecastParams | string {
+  const lat = parseFloat(params.get('lat') ?? '');
+  const lon = parseFloat(params.get('lon') ?? '');
+  if (isNaN(lat) || isNaN(lon)) {
+    return 'Missing or invalid lat/lon parameters';
+  }
+
+  const profile = parseProfileParams(params);
+  if (typeof profile === 'string') {
+    return profile;
+  }
+
+  const rank = params.get('rank') || 'length';
+  if (!WINDOW_OBJECTIVES.includes(rank as WindowObjective)) {
+    return `Unknown rank: ${rank}. Expected one of ${WINDOW_OBJECTIVES.join(', ')}`;
+  }
+
+  try {
+    const terrain: TerrainOptions = {
+      elevation: parseElevation(params.get('elevation')),
+      aspect: parseAspect(params.get('aspect')),
+    };
+    return { lat, lon, profile, terrain, rank: rank as WindowObjective };
+  } catch (err) {
+    if (err instanceof TerrainError) {
+      return err.message;
+    }
+    throw err;
+  }
+}
 
-// ── API handler ────────────────────────────────────────────────────────────
+// ── API handlers ───────────────────────────────────────────────────────────
 
-async function handleForecast(request: Request, env: Env): Promise<Response> {
+async function handleForecast(request: Request, env: Env, _params: RouteParams, ctx?: ExecutionContext): Promise<Response> {
+  const params = parseForecastParams(new URL(request.url).searchParams);
+  if (typeof params === 'string') {
+    return Response.json({ error: params }, { status: 400 });
+  }
+
+  try {
+    const forecast = await getForecast(
+      params.lat, params.lon, env, ctx, params.profile, params.terrain, requestLocale(request), params.rank,
+    );
+    return Response.json(forecast, { headers: { Vary: 'Accept-Language' } });
+  } catch (err) {
+    if (err instanceof WeatherProviderError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
+
+// Forecasts several saved stands in one request, with the same profile and
+// overrides /forecast takes. Each stand succeeds or fails on its own so one
+// bad upstream call doesn't blank the dashboard.
+async function handleForecastBatch(request: Request, env: Env, _params: RouteParams, ctx?: ExecutionContext): Promise<Response> {
+  const body = await request.json().catch(() => null) as Record<string, unknown> | null;
+  const profile = parseProfileFields(body ?? {});
+  if (typeof profile === 'string') {
+    return Response.json({ error: profile }, { status: 400 });
+  }
+
+  let stands: Stand[];
+  try {
+    stands = parseStands(body?.locations);
+  } catch (err) {
+    if (err instanceof StandValidationError) {
+      return Response.json({ error: err.message }, { status: 400 });
+    }
+    throw err;
+  }
+
+  const locale = requestLocale(request);
+  const results = await Promise.all(stands.map(async stand => {
+    try {
+      return { ...stand, forecast: await getForecast(stand.lat, stand.lon, env, ctx, profile, standTerrain(stand), locale) };
+    } catch (err) {
+      if (err instanceof WeatherProviderError) {
+        return { ...stand, error: err.message };
+      }
+      throw err;
+    }
+  }));
+
+  return Response.json({ results });
+}
+
+// Subscribable feed; calendar apps poll it, so it's cached like the forecast
+async function handleCalendar(request: Request, env: Env, _params: RouteParams, ctx?: ExecutionContext): Promise<Response> {
   const url = new URL(request.url);
   const lat = parseFloat(url.searchParams.get('lat') ?? '');
   const lon = parseFloat(url.searchParams.get('lon') ?? '');
@@ -52,101 +298,529 @@ async function handleForecast(request: Request, env: Env): Promise<Response> {
     return Response.json({ error: 'Missing or invalid lat/lon parameters' }, { status: 400 });
   }
 
-  // Round to 1 decimal for cache key (~11km grid)
-  const rlat = Math.round(lat * 10) / 10;
-  const rlon = Math.round(lon * 10) / 10;
-  const cacheKey = `forecast:${rlat}:${rlon}`;
+  const profile = parseProfileParams(url.searchParams);
+  if (typeof profile === 'string') {
+    return Response.json({ error: profile }, { status: 400 });
+  }
 
-  // Check KV cache
-  if (env.FORECAST_CACHE) {
-    const cached = await env.FORECAST_CACHE.get(cacheKey, 'json');
-    if (cached) {
-      return Response.json({ ...(cached as ForecastResult), cached: true });
+  let forecast: ForecastResult;
+  try {
+    forecast = await getForecast(lat, lon, env, ctx, profile);
+  } catch (err) {
+    if (err instanceof WeatherProviderError) {
+      return Response.json({ error: err.message }, { status: err.status });
     }
+    throw err;
+  }
+
+  const name = (url.searchParams.get('name') || `${lat.toFixed(1)}, ${lon.toFixed(1)}`).substring(0, MAX_STAND_NAME_LENGTH);
+  const ics = buildCalendar({
+    lat,
+    lon,
+    name,
+    url: `${url.origin}/?lat=${lat}&lon=${lon}`,
+    days: forecast.days,
+    bestWindow: forecast.bestWindow,
+    seasonInfo: forecast.seasonInfo,
+    refreshSeconds: CACHE_TTL,
+    now: new Date(),
+  });
+
+  return new Response(ics, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="sapcast.ics"',
+      'Cache-Control': `public, max-age=${CACHE_TTL}`,
+    },
+  });
+}
+
+// Optional shared stand list, so a crew can load the same stands on any device
+async function handleStands(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const listId = url.searchParams.get('list') ?? '';
+
+  if (!isValidListId(listId)) {
+    return Response.json({ error: 'Missing or invalid list parameter' }, { status: 400 });
+  }
+  if (!env.FORECAST_CACHE) {
+    return Response.json({ error: 'Storage not configured' }, { status: 500 });
+  }
+
+  const key = `stands:${listId}`;
+
+  if (request.method === 'GET') {
+    const stands = await env.FORECAST_CACHE.get(key, 'json');
+    if (!stands) {
+      return Response.json({ error: 'Stand list not found' }, { status: 404 });
+    }
+    return Response.json({ stands });
+  }
+
+  // PUT
+  const body = await request.json().catch(() => null) as { stands?: unknown } | null;
+  let stands: Stand[];
+  try {
+    stands = parseStands(body?.stands);
+  } catch (err) {
+    if (err instanceof StandValidationError) {
+      return Response.json({ error: err.message }, { status: 400 });
+    }
+    throw err;
+  }
+  await env.FORECAST_CACHE.put(key, JSON.stringify(stands), { expirationTtl: STANDS_TTL });
+  return Response.json({ stands });
+}
+
+// ── Season archive ─────────────────────────────────────────────────────────
+
+// Cron: records yesterday's observed high/low for every tracked cell
+async function recordObservations(env: Env, now: Date = new Date()): Promise<void> {
+  if (!env.FORECAST_CACHE) return;
+  const provider = getProvider(env);
+
+  const tracked = await env.FORECAST_CACHE.list<TrackedCell>({
+    prefix: `track:${provider.name}:`,
+    limit: MAX_TRACKED_PER_RUN,
+  });
+
+  if (!tracked.list_complete) {
+    console.warn(`More than ${MAX_TRACKED_PER_RUN} tracked cells; only the first batch was recorded`);
+  }
+
+  for (const { name, metadata } of tracked.keys) {
+    if (!metadata) continue;
+    const { lat, lon } = metadata;
+    // Yesterday at the cell: far enough west, UTC's yesterday is still under way
+    const date = addDays(cellToday(metadata, now), -1);
+    const year = Number(date.substring(0, 4));
+    try {
+      const observed = await provider.fetchObserved(lat, lon, date);
+      if (!observed) continue;
+
+      const { tempHigh, tempLow } = observed;
+      const { rating } = (tempHigh !== null && tempLow !== null)
+        ? scoreDay(tempLow, tempHigh)
+        : { rating: 'unknown' as Rating };
+
+      const key = historyKey(provider.name, lat, lon, year);
+      const records = await env.FORECAST_CACHE.get<ObservedDay[]>(key, 'json') ?? [];
+      const merged = mergeObservation(records, {
+        date,
+        tempHigh,
+        tempLow,
+        summary: observed.summary,
+        icon: observed.icon,
+        rating,
+        precipType: observed.precipType,
+        snowfall: observed.snowfall,
+        cloudCover: observed.cloudCover,
+      });
+      await env.FORECAST_CACHE.put(key, JSON.stringify(merged));
+    } catch (err) {
+      if (err instanceof WeatherProviderError) {
+        console.error(`Failed to record ${name} for ${date}: ${err.message}`);
+        continue;
+      }
+      throw err;
+    }
+  }
+}
+
+async function handleHistory(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const lat = parseFloat(url.searchParams.get('lat') ?? '');
+  const lon = parseFloat(url.searchParams.get('lon') ?? '');
+  const years = Math.min(MAX_HISTORY_YEARS, Math.max(1, parseInt(url.searchParams.get('years') ?? '3', 10) || 3));
+
+  if (isNaN(lat) || isNaN(lon)) {
+    return Response.json({ error: 'Missing or invalid lat/lon parameters' }, { status: 400 });
   }
 
-  // Fetch from Pirate Weather
-  const apiKey = env.PIRATE_WEATHER_API_KEY;
-  if (!apiKey) {
-    return Response.json({ error: 'API key not configured' }, { status: 500 });
+  const profile = parseProfileParams(url.searchParams);
+  if (typeof profile === 'string') {
+    return Response.json({ error: profile }, { status: 400 });
   }
 
-  const apiUrl = `https://api.pirateweather.net/forecast/${apiKey}/${lat},${lon}?units=si&extend=hourly`;
-  let apiResponse: Response;
+  let provider: WeatherProvider;
   try {
-    apiResponse = await fetch(apiUrl);
-  } catch {
-    return Response.json({ error: 'Failed to reach weather API' }, { status: 502 });
+    provider = getProvider(env);
+  } catch (err) {
+    if (err instanceof WeatherProviderError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
   }
 
-  if (!apiResponse.ok) {
-    return Response.json({ error: `Weather API returned ${apiResponse.status}` }, { status: 502 });
+  const seasons: SeasonSummary[] = [];
+  if (env.FORECAST_CACHE) {
+    // The season year is the location's, from the cell's timezone
+    const { metadata } = await env.FORECAST_CACHE.getWithMetadata<TrackedCell>(trackKey(provider.name, lat, lon));
+    const currentYear = Number(cellToday(metadata).substring(0, 4));
+    for (let year = currentYear; year > currentYear - years; year--) {
+      const records = await env.FORECAST_CACHE.get<ObservedDay[]>(historyKey(provider.name, lat, lon, year), 'json');
+      if (records && records.length > 0) {
+        seasons.push(summarizeSeason(records, lat, year, profile));
+      }
+    }
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const weather: any = await apiResponse.json();
+  return Response.json({ seasons, profile });
+}
 
-  // Process current conditions
-  const currently = weather.currently || {};
-  const current: CurrentConditions = {
-    temperature: currently.temperature ?? null,
-    summary: currently.summary ?? '',
-    icon: currently.icon ?? '',
+// ── Tapping alerts ─────────────────────────────────────────────────────────
+
+function getVapidKeys(env: Env): VapidKeys | null {
+  if (!env.VAPID_PUBLIC_KEY || !env.VAPID_PRIVATE_KEY) return null;
+  return {
+    publicKey: env.VAPID_PUBLIC_KEY,
+    privateKey: env.VAPID_PRIVATE_KEY,
+    subject: env.VAPID_SUBJECT || SITE_ORIGIN,
   };
+}
+
+async function handleAlerts(request: Request, env: Env): Promise<Response> {
+  if (!env.FORECAST_CACHE) {
+    return Response.json({ error: 'Storage not configured' }, { status: 500 });
+  }
+
+  if (request.method === 'POST') {
+    const body = await request.json().catch(() => null) as Record<string, unknown> | null;
+    let stand: Stand;
+    let channel: AlertChannel;
+    try {
+      [stand] = parseStands([body]);
+      channel = parseAlertChannel(body?.channel);
+    } catch (err) {
+      if (err instanceof StandValidationError || err instanceof SubscriptionValidationError) {
+        return Response.json({ error: err.message }, { status: 400 });
+      }
+      throw err;
+    }
+
+    const profileId = typeof body?.profile === 'string' ? body.profile : SUGAR_MAPLE.id;
+    if (!getScoringProfile(profileId)) {
+      return Response.json({ error: `Unknown profile: ${profileId}` }, { status: 400 });
+    }
+    if (channel.type === 'webpush' && !getVapidKeys(env)) {
+      return Response.json({ error: 'Web Push is not configured on this server' }, { status: 400 });
+    }
 
-  // Process daily forecast
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const dailyData: any[] = weather.daily?.data || [];
-  const days: ForecastDay[] = dailyData.map(d => {
-    const date = new Date(d.time * 1000).toISOString().split('T')[0];
-    const tempHigh: number | null = d.temperatureHigh ?? d.temperatureMax ?? null;
-    const tempLow: number | null = d.temperatureLow ?? d.temperatureMin ?? null;
-
-    const { rating, score } = (tempHigh !== null && tempLow !== null)
-      ? scoreDay(tempLow, tempHigh)
-      : { rating: 'unknown' as Rating, score: 0 };
-
-    return {
-      date,
-      tempHigh,
-      tempLow,
-      summary: d.summary ?? '',
-      icon: d.icon ?? '',
-      rating,
-      score,
+    const sub: AlertSubscription = {
+      id: crypto.randomUUID(),
+      name: stand.name,
+      lat: stand.lat,
+      lon: stand.lon,
+      profile: profileId,
+      channel,
+      lastType: null,
+      createdAt: new Date().toISOString(),
     };
-  });
+    await env.FORECAST_CACHE.put(`alert-sub:${sub.id}`, JSON.stringify(sub));
+    return Response.json({ id: sub.id }, { status: 201 });
+  }
 
-  // Find best tapping window and generate recommendation
-  const bestWindow = findBestWindow(days);
-  const recommendation = generateRecommendation(days, bestWindow);
-  const seasonInfo = getSeasonInfo(lat, new Date().getFullYear());
-
-  const result: ForecastResult = {
-    current,
-    today: days[0] || null,
-    days,
-    bestWindow: bestWindow ? {
-      startDate: bestWindow.start,
-      endDate: bestWindow.end,
-      length: bestWindow.days.length,
-      avgScore: bestWindow.totalScore / bestWindow.days.length,
-    } : null,
-    recommendation,
-    seasonInfo,
-    cached: false,
-  };
+  const id = new URL(request.url).searchParams.get('id') ?? '';
+  if (!isValidListId(id)) {
+    return Response.json({ error: 'Missing or invalid id parameter' }, { status: 400 });
+  }
+  const key = `alert-sub:${id}`;
 
-  // Store in KV cache
-  if (env.FORECAST_CACHE) {
-    await env.FORECAST_CACHE.put(cacheKey, JSON.stringify(result), { expirationTtl: CACHE_TTL });
+  if (request.method === 'GET') {
+    const sub = await env.FORECAST_CACHE.get<AlertSubscription>(key, 'json');
+    if (!sub) {
+      return Response.json({ error: 'Subscription not found' }, { status: 404 });
+    }
+    // Don't echo delivery secrets back
+    return Response.json({ ...sub, channel: { type: sub.channel.type } });
+  }
+
+  // DELETE
+  await env.FORECAST_CACHE.delete(key);
+  return Response.json({ deleted: true });
+}
+
+function handleVapidKey(env: Env): Response {
+  const vapid = getVapidKeys(env);
+  if (!vapid) {
+    return Response.json({ error: 'Web Push is not configured on this server' }, { status: 404 });
+  }
+  return Response.json({ publicKey: vapid.publicKey });
+}
+
+// Cron: re-evaluates every subscription and delivers on a change
+async function evaluateAlerts(env: Env, fetchFn: typeof fetch = fetch): Promise<void> {
+  if (!env.FORECAST_CACHE) return;
+  const vapid = getVapidKeys(env);
+
+  const subs = await env.FORECAST_CACHE.list({ prefix: 'alert-sub:', limit: MAX_ALERTS_PER_RUN });
+  if (!subs.list_complete) {
+    console.warn(`More than ${MAX_ALERTS_PER_RUN} alert subscriptions; only the first batch was evaluated`);
+  }
+
+  for (const { name: key } of subs.keys) {
+    const sub = await env.FORECAST_CACHE.get<AlertSubscription>(key, 'json');
+    if (!sub) continue;
+
+    try {
+      const profile = getScoringProfile(sub.profile) ?? SUGAR_MAPLE;
+      const { recommendation } = await getForecast(sub.lat, sub.lon, env, undefined, profile);
+
+      if (shouldAlert(sub.lastType, recommendation.type)) {
+        const result = await deliverAlert(sub.channel, buildAlert(sub, recommendation, SITE_ORIGIN), vapid, fetchFn);
+        if (result.gone) {
+          await env.FORECAST_CACHE.delete(key);
+          continue;
+        }
+        if (!result.ok) {
+          // Leave lastType alone so the next run retries
+          console.error(`Alert delivery for ${sub.id} failed with ${result.status}`);
+          continue;
+        }
+      }
+
+      if (recommendation.type !== sub.lastType) {
+        await env.FORECAST_CACHE.put(key, JSON.stringify({ ...sub, lastType: recommendation.type }));
+      }
+    } catch (err) {
+      console.error(`Alert evaluation for ${sub.id} failed: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+}
+
+// ── Tap log ────────────────────────────────────────────────────────────────
+
+// The rating a collection day got: from the forecast if it's still in range,
+// otherwise replayed from the season archive
+async function lookupRatedDay(env: Env, entry: JournalEntry, profile: ScoringProfile): Promise<RatedDay | null> {
+  try {
+    const { days } = await getForecast(entry.lat, entry.lon, env, undefined, profile);
+    const rated = rateDay(days, entry.date);
+    if (rated) return rated;
+
+    const provider = getProvider(env);
+    const year = parseInt(entry.date.substring(0, 4), 10);
+    const records = await env.FORECAST_CACHE.get<ObservedDay[]>(historyKey(provider.name, entry.lat, entry.lon, year), 'json');
+    return records ? rateDay(scoreObservedDays(records, profile), entry.date) : null;
+  } catch (err) {
+    if (err instanceof WeatherProviderError) return null;
+    throw err;
+  }
+}
+
+// Per-device journal; the token is generated client-side like a stand list ID
+async function handleJournal(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const token = url.searchParams.get('token') ?? '';
+
+  if (!isValidListId(token)) {
+    return Response.json({ error: 'Missing or invalid token parameter' }, { status: 400 });
+  }
+  if (!env.FORECAST_CACHE) {
+    return Response.json({ error: 'Storage not configured' }, { status: 500 });
   }
 
-  return Response.json(result);
+  const key = `journal:${token}`;
+  const entries = await env.FORECAST_CACHE.get<JournalEntry[]>(key, 'json') ?? [];
+
+  if (request.method === 'GET') {
+    return Response.json({ entries, summary: summarizeJournal(entries) });
+  }
+
+  if (request.method === 'POST') {
+    const body = await request.json().catch(() => null) as Record<string, unknown> | null;
+    const profileId = body?.profile ?? SUGAR_MAPLE.id;
+    const profile = typeof profileId === 'string' ? getScoringProfile(profileId) : null;
+    if (!profile) {
+      return Response.json({ error: `Unknown profile: ${profileId}` }, { status: 400 });
+    }
+
+    let updated: JournalEntry[];
+    let entry: JournalEntry;
+    try {
+      entry = { id: crypto.randomUUID(), ...parseJournalEntry(body), forecast: null };
+      if (entry.type === 'collection') {
+        entry.forecast = await lookupRatedDay(env, entry, profile);
+      }
+      updated = addJournalEntry(entries, entry);
+    } catch (err) {
+      if (err instanceof JournalValidationError) {
+        return Response.json({ error: err.message }, { status: 400 });
+      }
+      throw err;
+    }
+    await env.FORECAST_CACHE.put(key, JSON.stringify(updated), { expirationTtl: JOURNAL_TTL });
+    return Response.json({ entry }, { status: 201 });
+  }
+
+  // DELETE
+  const id = url.searchParams.get('id');
+  const remaining = entries.filter(e => e.id !== id);
+  if (remaining.length === entries.length) {
+    return Response.json({ error: 'Entry not found' }, { status: 404 });
+  }
+  await env.FORECAST_CACHE.put(key, JSON.stringify(remaining), { expirationTtl: JOURNAL_TTL });
+  return Response.json({ deleted: true });
+}
+
+// Fits thresholds to posted records, or to a device's tap log (GET ?token=)
+async function handleCalibrate(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  let records: CalibrationRecord[];
+  let baseId: unknown;
+
+  try {
+    if (request.method === 'POST') {
+      const body = await request.json().catch(() => null) as { records?: unknown; profile?: unknown } | null;
+      records = parseCalibrationRecords(body?.records);
+      baseId = body?.profile;
+    } else {
+      const token = url.searchParams.get('token') ?? '';
+      if (!isValidListId(token)) {
+        return Response.json({ error: 'Missing or invalid token parameter' }, { status: 400 });
+      }
+      if (!env.FORECAST_CACHE) {
+        return Response.json({ error: 'Storage not configured' }, { status: 500 });
+      }
+      const entries = await env.FORECAST_CACHE.get<JournalEntry[]>(`journal:${token}`, 'json') ?? [];
+      records = recordsFromJournal(entries, url.searchParams.get('stand') ?? undefined);
+      baseId = url.searchParams.get('profile');
+    }
+
+    const base = getScoringProfile(typeof baseId === 'string' ? baseId : SUGAR_MAPLE.id);
+    if (!base) {
+      return Response.json({ error: `Unknown profile: ${baseId}` }, { status: 400 });
+    }
+    return Response.json(calibrateProfile(records, base));
+  } catch (err) {
+    if (err instanceof CalibrationError) {
+      return Response.json({ error: err.message }, { status: 400 });
+    }
+    throw err;
+  }
+}
+
+// ── Service worker ─────────────────────────────────────────────────────────
+
+function getServiceWorker(): string {
+  return `// Sapcast service worker — keeps the page usable without signal and
+// shows tapping alerts
+var SHELL_CACHE = '${SHELL_CACHE}';
+var SHELL_ASSETS = ${JSON.stringify(SHELL_ASSETS)};
+${clientSource({ offlineFallback })}
+
+self.addEventListener('install', function(event) {
+  event.waitUntil(caches.open(SHELL_CACHE).then(function(cache) {
+    return cache.addAll(SHELL_ASSETS);
+  }).then(function() { return self.skipWaiting(); }));
+});
+
+self.addEventListener('activate', function(event) {
+  event.waitUntil(caches.keys().then(function(keys) {
+    return Promise.all(keys.filter(function(k) { return k !== SHELL_CACHE; }).map(function(k) {
+      return caches.delete(k);
+    }));
+  }).then(function() { return self.clients.claim(); }));
+});
+
+// Network first so a deploy shows up at once; the cached copy is only for
+// when there's no signal. Forecasts are kept by the page in IndexedDB.
+self.addEventListener('fetch', function(event) {
+  var url = new URL(event.request.url);
+  if (event.request.method !== 'GET' || url.origin !== location.origin) return;
+  // Server-rendered forecast pages aren't kept; offline they fall back to
+  // the plain page, which finds the saved forecast itself
+  var fallback = offlineFallback(url.pathname, url.search, event.request.mode, SHELL_ASSETS);
+  if (!fallback) return;
+  var isShell = fallback === 'shell';
+
+  event.respondWith(fetch(event.request).then(function(resp) {
+    if (resp.ok && isShell) {
+      var copy = resp.clone();
+      caches.open(SHELL_CACHE).then(function(cache) { cache.put(url.pathname, copy); });
+    }
+    return resp;
+  }).catch(function() {
+    return caches.match(isShell ? url.pathname : '/').then(function(cached) {
+      return cached || Response.error();
+    });
+  }));
+});
+
+self.addEventListener('push', function(event) {
+  var alert = {};
+  try {
+    alert = event.data ? event.data.json() : {};
+  } catch (e) { /* non-JSON payload */ }
+  event.waitUntil(self.registration.showNotification(
+    alert.name ? 'Sapcast \u2014 ' + alert.name : 'Sapcast',
+    {
+      body: alert.message || 'Your tapping forecast has changed.',
+      tag: alert.subscriptionId || 'sapcast',
+      data: { url: alert.url || '/' },
+    }
+  ));
+});
+
+self.addEventListener('notificationclick', function(event) {
+  event.notification.close();
+  event.waitUntil(clients.openWindow(event.notification.data.url));
+});
+`;
+}
+
+// ── Web app manifest ───────────────────────────────────────────────────────
+
+function getManifest(): Record<string, unknown> {
+  return {
+    name: 'Sapcast — Maple Sap Tapping Forecast',
+    short_name: 'Sapcast',
+    description: 'When to tap your maples, from the freeze-thaw forecast',
+    start_url: '/',
+    scope: '/',
+    display: 'standalone',
+    background_color: '#f5f0eb',
+    theme_color: '#5C3D2E',
+    icons: [{ src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any maskable' }],
+  };
+}
+
+function getAppIcon(): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 512 512">
+<rect width="512" height="512" fill="#5C3D2E"/>
+<text x="256" y="256" font-size="300" text-anchor="middle" dominant-baseline="central">🍁</text>
+</svg>
+`;
 }
 
 // ── Postal code geocoding ─────────────────────────────────────────────────
 
+// Throws GeocodeError for unsupported or unknown codes
+async function lookupPostalCode(
+  env: Env,
+  postalCode: string,
+  country: string,
+): Promise<{ result: PostalResult; cached: boolean }> {
+  const cacheKey = `geocode:${country}:${normalizePostalCode(postalCode, country)}`;
+
+  // Check KV cache
+  if (env.FORECAST_CACHE) {
+    const cached = await env.FORECAST_CACHE.get<PostalResult>(cacheKey, 'json');
+    // Entries from before worldwide support lack the country and label
+    if (cached?.label) {
+      return { result: cached, cached: true };
+    }
+  }
+
+  const result = await createGeocoder(env).lookupPostalCode(postalCode, country);
+
+  // Cache in KV
+  if (env.FORECAST_CACHE) {
+    await env.FORECAST_CACHE.put(cacheKey, JSON.stringify(result), { expirationTtl: GEOCODE_CACHE_TTL });
+  }
+  return { result, cached: false };
+}
+
 async function handleGeocode(request: Request, env: Env): Promise<Response> {
   const url = new URL(request.url);
   const postalCode = (url.searchParams.get('postalCode') ?? '').trim();
@@ -156,161 +830,401 @@ async function handleGeocode(request: Request, env: Env): Promise<Response> {
     return Response.json({ error: 'Missing postalCode or country parameter' }, { status: 400 });
   }
 
-  if (country !== 'us' && country !== 'ca') {
-    return Response.json({ error: 'Only US and Canadian postal codes are supported' }, { status: 400 });
+  try {
+    const { result, cached } = await lookupPostalCode(env, postalCode, country);
+    return Response.json({ ...result, cached });
+  } catch (err) {
+    if (err instanceof GeocodeError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
   }
+}
 
-  // Normalize: US = 5-digit ZIP, CA = first 3 chars (FSA)
-  const normalizedCode = country === 'ca'
-    ? postalCode.substring(0, 3).toUpperCase()
-    : postalCode.substring(0, 5);
+// Free-text place search, for the candidate picker
+async function handlePlaces(request: Request, env: Env): Promise<Response> {
+  const query = (new URL(request.url).searchParams.get('q') ?? '').trim().replace(/\s+/g, ' ');
+  if (query.length < 2 || query.length > MAX_QUERY_LENGTH) {
+    return Response.json({ error: `Search needs 2 to ${MAX_QUERY_LENGTH} characters` }, { status: 400 });
+  }
 
-  const cacheKey = `geocode:${country}:${normalizedCode}`;
+  try {
+    const cacheKey = `places:${query.toLowerCase()}`;
+    if (env.FORECAST_CACHE) {
+      const cached = await env.FORECAST_CACHE.get<Place[]>(cacheKey, 'json');
+      if (cached) {
+        return Response.json({ places: cached, cached: true });
+      }
+    }
 
-  // Check KV cache
+    const places = await createGeocoder(env).searchPlaces(query);
+    if (env.FORECAST_CACHE) {
+      await env.FORECAST_CACHE.put(cacheKey, JSON.stringify(places), { expirationTtl: GEOCODE_CACHE_TTL });
+    }
+    return Response.json({ places, cached: false });
+  } catch (err) {
+    if (err instanceof GeocodeError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
+
+async function reverseGeocode(env: Env, lat: number, lon: number): Promise<{ place: Place | null; cached: boolean }> {
+  // ~1 km: close enough to name the same town, coarse enough to share
+  // lookups, which matters under Nominatim's one-request-a-second policy
+  const cacheKey = `reverse:${lat.toFixed(2)}:${lon.toFixed(2)}`;
   if (env.FORECAST_CACHE) {
-    const cached = await env.FORECAST_CACHE.get(cacheKey);
+    const cached = await env.FORECAST_CACHE.get<{ place: Place | null }>(cacheKey, 'json');
     if (cached) {
-      const result = JSON.parse(cached);
-      return Response.json({ ...result, cached: true });
+      return { place: cached.place, cached: true };
+    }
+  }
+
+  const place = await createGeocoder(env).reverse(Math.round(lat * 100) / 100, Math.round(lon * 100) / 100);
+  if (env.FORECAST_CACHE) {
+    await env.FORECAST_CACHE.put(cacheKey, JSON.stringify({ place }), { expirationTtl: GEOCODE_CACHE_TTL });
+  }
+  return { place, cached: false };
+}
+
+// Place name for a location, so the header reads "Montpelier, VT"
+async function handleReverseGeocode(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const lat = parseFloat(url.searchParams.get('lat') ?? '');
+  const lon = parseFloat(url.searchParams.get('lon') ?? '');
+  if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    return Response.json({ error: 'Missing or invalid lat/lon parameters' }, { status: 400 });
+  }
+
+  try {
+    return Response.json(await reverseGeocode(env, lat, lon));
+  } catch (err) {
+    if (err instanceof GeocodeError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
+
+// ── Server-rendered pages ──────────────────────────────────────────────────
+
+// A forecast rendered into the page, for shared links and phones that are
+// slow to run (or don't run) the client script
+interface PrerenderedPage {
+  lat: number;
+  lon: number;
+  label: string;
+  forecast: ForecastResult;
+  share?: { url: string; image: string; createdAt: string }; // a stored snapshot
+}
+
+// The page's language follows ?lang= or the browser, so caches key on both
+function htmlResponse(env: Env, locale: Locale, page: PrerenderedPage | null = null, status = 200): Response {
+  return new Response(getHTML(env.POSTHOG_API_KEY, page, locale), {
+    status,
+    headers: { 'Content-Type': 'text/html;charset=UTF-8', Vary: 'Accept-Language' },
+  });
+}
+
+// Anything that goes wrong falls back to the plain page, which can still
+// find a location on its own
+async function forecastPage(
+  env: Env,
+  ctx: ExecutionContext | undefined,
+  locale: Locale,
+  lat: number,
+  lon: number,
+  profile: ScoringProfile,
+  label: string | null,
+): Promise<Response> {
+  try {
+    const [forecast, place] = await Promise.all([
+      getForecast(lat, lon, env, ctx, profile, null, locale),
+      label ? null : reverseGeocode(env, lat, lon).then(r => r.place, () => null),
+    ]);
+    return htmlResponse(env, locale, {
+      lat,
+      lon,
+      label: label ?? place?.label ?? `${lat.toFixed(2)}, ${lon.toFixed(2)}`,
+      forecast,
+    });
+  } catch (err) {
+    if (err instanceof WeatherProviderError) {
+      return htmlResponse(env, locale, null, err.status);
+    }
+    throw err;
+  }
+}
+
+// / on its own is the plain page; /?lat=&lon= renders that forecast
+async function handlePage(request: Request, env: Env, _params: RouteParams, ctx?: ExecutionContext): Promise<Response> {
+  const url = new URL(request.url);
+  const locale = requestLocale(request);
+  if (!url.searchParams.has('lat') && !url.searchParams.has('lon')) {
+    return htmlResponse(env, locale);
+  }
+
+  const lat = parseFloat(url.searchParams.get('lat') ?? '');
+  const lon = parseFloat(url.searchParams.get('lon') ?? '');
+  const profile = parseProfileParams(url.searchParams);
+  if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180 || typeof profile === 'string') {
+    return htmlResponse(env, locale, null, 400);
+  }
+  return forecastPage(env, ctx, locale, lat, lon, profile, null);
+}
+
+// /p/05602, or /p/K1A?country=ca outside the US
+async function handlePostalPage(request: Request, env: Env, params: RouteParams, ctx?: ExecutionContext): Promise<Response> {
+  const url = new URL(request.url);
+  const country = (url.searchParams.get('country') ?? 'us').trim().toLowerCase();
+  const profile = parseProfileParams(url.searchParams);
+  const locale = requestLocale(request);
+  if (typeof profile === 'string') {
+    return htmlResponse(env, locale, null, 400);
+  }
+
+  try {
+    const { result } = await lookupPostalCode(env, params.postal, country);
+    return forecastPage(env, ctx, locale, result.lat, result.lon, profile, result.label);
+  } catch (err) {
+    if (err instanceof GeocodeError) {
+      return htmlResponse(env, locale, null, err.status);
+    }
+    throw err;
+  }
+}
+
+// ── Shared forecasts ───────────────────────────────────────────────────────
+
+type StoredShare = ShareSnapshot<ForecastResult>;
+
+async function loadShare(env: Env, id: string): Promise<StoredShare | null> {
+  if (!isValidShareId(id) || !env.FORECAST_CACHE) return null;
+  return env.FORECAST_CACHE.get<StoredShare>(`share:${id}`, 'json');
+}
+
+// POST runs the forecast for the query (same parameters as /forecast) and
+// stores the result; GET returns a stored snapshot
+async function handleShare(request: Request, env: Env, params: RouteParams, ctx?: ExecutionContext): Promise<Response> {
+  if (request.method === 'GET') {
+    const snapshot = await loadShare(env, params.id ?? '');
+    if (!snapshot) {
+      return Response.json({ error: 'Shared forecast not found' }, { status: 404 });
     }
+    return Response.json(snapshot);
   }
 
-  // Fetch from Zippopotam.us
-  const apiUrl = `https://api.zippopotam.us/${country}/${normalizedCode}`;
-  const resp = await fetch(apiUrl);
+  const url = new URL(request.url);
+  const query = parseForecastParams(url.searchParams);
+  if (typeof query === 'string') {
+    return Response.json({ error: query }, { status: 400 });
+  }
+  if (!env.FORECAST_CACHE) {
+    return Response.json({ error: 'Storage not configured' }, { status: 500 });
+  }
 
-  if (!resp.ok) {
-    return Response.json({ error: 'Postal code not found' }, { status: 404 });
+  try {
+    const body = await request.json().catch(() => null);
+    const label = parseShareLabel(body, `${query.lat.toFixed(2)}, ${query.lon.toFixed(2)}`);
+    const locale = requestLocale(request);
+    const forecast = await getForecast(query.lat, query.lon, env, ctx, query.profile, query.terrain, locale, query.rank);
+    const snapshot: StoredShare = {
+      id: newShareId(),
+      lat: query.lat,
+      lon: query.lon,
+      label,
+      createdAt: new Date().toISOString(),
+      locale,
+      forecast,
+    };
+    await env.FORECAST_CACHE.put(`share:${snapshot.id}`, JSON.stringify(snapshot), { expirationTtl: SHARE_TTL });
+    return Response.json({
+      id: snapshot.id,
+      url: `${url.origin}/share/${snapshot.id}`,
+      image: `${url.origin}/og/${snapshot.id}.png`,
+    }, { status: 201 });
+  } catch (err) {
+    if (err instanceof ShareValidationError) {
+      return Response.json({ error: err.message }, { status: 400 });
+    }
+    if (err instanceof WeatherProviderError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
   }
+}
+
+async function handleSharePage(request: Request, env: Env, params: RouteParams): Promise<Response> {
+  const snapshot = await loadShare(env, params.id);
+  if (!snapshot) {
+    return htmlResponse(env, requestLocale(request), null, 404);
+  }
+  // The words a snapshot was made in; the page around them follows too
+  const locale = snapshot.locale ?? DEFAULT_LOCALE;
+  const { origin } = new URL(request.url);
+  return htmlResponse(env, locale, {
+    lat: snapshot.lat,
+    lon: snapshot.lon,
+    label: snapshot.label,
+    forecast: snapshot.forecast,
+    share: {
+      url: `${origin}/share/${snapshot.id}`,
+      image: `${origin}/og/${snapshot.id}.png`,
+      createdAt: snapshot.createdAt,
+    },
+  });
+}
 
-  const data: Record<string, unknown> = await resp.json();
-  const places = data.places as Array<Record<string, string>> | undefined;
+// The PNG card link previewers show; rendered on first request and kept as
+// long as the snapshot, since rasterising takes a few hundred ms of CPU
+async function handleSharePng(_request: Request, env: Env, params: RouteParams): Promise<Response> {
+  const snapshot = await loadShare(env, params.id);
+  if (!snapshot) {
+    return new Response('Not found', { status: 404 });
+  }
+  const key = `og:${snapshot.id}`;
+  let png: ArrayBuffer | Uint8Array | null = await env.FORECAST_CACHE.get(key, 'arrayBuffer');
+  if (!png) {
+    png = await renderSharePng(renderShareImage(snapshot));
+    await env.FORECAST_CACHE.put(key, png, { expirationTtl: SHARE_TTL });
+  }
+  return new Response(png, {
+    headers: {
+      'Content-Type': 'image/png',
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    },
+  });
+}
 
-  if (!places || places.length === 0) {
-    return Response.json({ error: 'Postal code not found' }, { status: 404 });
+async function handleShareImage(_request: Request, env: Env, params: RouteParams): Promise<Response> {
+  const snapshot = await loadShare(env, params.id);
+  if (!snapshot) {
+    return new Response('Not found', { status: 404 });
   }
+  // A snapshot never changes, so previews can cache it for good
+  return new Response(renderShareImage(snapshot), {
+    headers: {
+      'Content-Type': 'image/svg+xml',
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    },
+  });
+}
 
-  const place = places[0];
-  const result = {
-    lat: parseFloat(place.latitude),
-    lon: parseFloat(place.longitude),
-    placeName: place['place name'],
-    state: place['state abbreviation'] || place.state,
-  };
+// ── Widget and embed ───────────────────────────────────────────────────────
+
+// Other sites call these; browsers may share the answer for a while and the
+// forecast itself comes from the KV cache, so embeds cost few upstream calls
+const WIDGET_CACHE_CONTROL = 'public, max-age=900';
+
+async function loadWidget(url: URL, env: Env, ctx: ExecutionContext | undefined, locale: Locale): Promise<WidgetData> {
+  const query = parseForecastParams(url.searchParams);
+  if (typeof query === 'string') {
+    throw new WidgetOptionsError(query);
+  }
+  const days = parseWidgetDays(url.searchParams.get('days'));
+  const forecast = await getForecast(query.lat, query.lon, env, ctx, query.profile, query.terrain, locale, query.rank);
+  const name = (url.searchParams.get('name') || `${query.lat.toFixed(1)}, ${query.lon.toFixed(1)}`)
+    .substring(0, MAX_STAND_NAME_LENGTH);
+  return toWidgetData(forecast, {
+    lat: query.lat,
+    lon: query.lon,
+    name,
+    url: `${url.origin}/?lat=${query.lat}&lon=${query.lon}${locale === DEFAULT_LOCALE ? '' : `&lang=${locale}`}`,
+  }, days);
+}
 
-  // Cache in KV
-  if (env.FORECAST_CACHE) {
-    await env.FORECAST_CACHE.put(cacheKey, JSON.stringify(result), { expirationTtl: GEOCODE_CACHE_TTL });
+async function handleWidget(request: Request, env: Env, _params: RouteParams, ctx?: ExecutionContext): Promise<Response> {
+  const headers = { 'Access-Control-Allow-Origin': '*' };
+  try {
+    const data = await loadWidget(new URL(request.url), env, ctx, requestLocale(request));
+    return Response.json(data, {
+      headers: { ...headers, 'Cache-Control': WIDGET_CACHE_CONTROL, Vary: 'Accept-Language' },
+    });
+  } catch (err) {
+    if (err instanceof WidgetOptionsError) {
+      return Response.json({ error: err.message }, { status: 400, headers });
+    }
+    if (err instanceof WeatherProviderError) {
+      return Response.json({ error: err.message }, { status: err.status, headers });
+    }
+    throw err;
   }
+}
 
-  return Response.json({ ...result, cached: false });
+// Iframe-able page: /embed?lat=&lon=&name=&theme=dark&accent=2e7d32&unit=F
+async function handleEmbed(request: Request, env: Env, _params: RouteParams, ctx?: ExecutionContext): Promise<Response> {
+  const url = new URL(request.url);
+  try {
+    const options = parseEmbedOptions(url.searchParams);
+    const locale = requestLocale(request);
+    const data = await loadWidget(url, env, ctx, locale);
+    return new Response(renderEmbed(data, options, locale), {
+      headers: {
+        'Content-Type': 'text/html;charset=UTF-8',
+        'Cache-Control': WIDGET_CACHE_CONTROL,
+        Vary: 'Accept-Language',
+      },
+    });
+  } catch (err) {
+    if (err instanceof WidgetOptionsError) {
+      return new Response(err.message, { status: 400 });
+    }
+    if (err instanceof WeatherProviderError) {
+      return new Response(err.message, { status: err.status });
+    }
+    throw err;
+  }
 }
 
 // ── Frontend HTML ──────────────────────────────────────────────────────────
 
-function getHTML(posthogKey?: string): string {
+function getHTML(posthogKey?: string, page: PrerenderedPage | null = null, locale: Locale = DEFAULT_LOCALE): string {
+  const t = PAGE_TEXT[locale];
+  const ui = UI_TEXT[locale];
   const phSnippet = posthogKey
     ? `<script>!function(t,e){var o,n,p,r;e.__SV||(window.posthog=e,e._i=[],e.init=function(i,s,a){function g(t,e){var o=e.split(".");2==o.length&&(t=t[o[0]],e=o[1]);t[e]=function(){t.push([e].concat(Array.prototype.slice.call(arguments,0)))}}(p=t.createElement("script")).type="text/javascript",p.crossOrigin="anonymous",p.async=!0,p.src=s.api_host.replace(".i.posthog.com","-assets.i.posthog.com")+"/static/array.js",(r=t.getElementsByTagName("script")[0]).parentNode.insertBefore(p,r);var u=e;for(void 0!==a?u=e[a]=[]:a="posthog",u.people=u.people||[],u.toString=function(t){var e="posthog";return"posthog"!==a&&(e+="."+a),t||(e+=" (stub)"),e},u.people.toString=function(){return u.toString(1)+" (stub)"},o="capture identify alias people.set people.set_once set_config register register_once unregister opt_out_capturing has_opted_out_capturing opt_in_capturing reset isFeatureEnabled onFeatureFlags getFeatureFlag getFeatureFlagPayload reloadFeatureFlags group updateEarlyAccessFeatureEnrollment getEarlyAccessFeatures getActiveMatchingSurveys getSurveys getNextSurveyStep onSessionId setPersonPropertiesForFlags".split(" "),n=0;n<o.length;n++)g(u,o[n]);e._i.push([i,s,a])},e.__SV=1)}(document,window.posthog||[]);posthog.init('${posthogKey}',{api_host:'https://us.i.posthog.com',person_profiles:'identified_only'})</script>`
     : '';
+  const countryOptions = Object.entries(POSTAL_COUNTRIES)
+    .map(([code, name]) => [code, countryName(code, name, locale)])
+    .sort((a, b) => a[1].localeCompare(b[1], intlTag(locale)))
+    .map(([code, name]) => `<option value="${code}">${name}</option>`)
+    .join('');
+  const sections = page ? prerenderForecast(page.forecast, locale) : null;
+  const meta = page
+    ? describeForecast(page.label, page.forecast, locale)
+    : { title: t.title, description: t.description };
+  const hidden = (show: boolean) => show ? '' : ' style="display:none;"';
+  // Handed to the client script so it takes over without refetching; < is
+  // escaped so a stray </script> in the data can't end the tag
+  const pageData = page ? JSON.stringify(page).replace(/</g, '\\u003c') : 'null';
+  const uiText = JSON.stringify(ui).replace(/</g, '\\u003c');
+  const jsonLd = JSON.stringify(structuredData(locale), null, 2).replace(/</g, '\\u003c');
   return `<!DOCTYPE html>
-<html lang="en">
+<html lang="${locale}">
 <head>
 <meta charset="UTF-8">
 <meta name="viewport" content="width=device-width, initial-scale=1.0">
+<link rel="manifest" href="/manifest.webmanifest">
+<meta name="theme-color" content="#5C3D2E">
+<link rel="apple-touch-icon" href="/icon.svg">
 <link rel="icon" href="data:image/svg+xml,<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 100 100'><text y='.9em' font-size='90'>🍁</text></svg>">
-<title>Sapcast — Maple Sap Tapping Forecast</title>
-<meta name="description" content="Free maple sap tapping forecast. Uses your location and 7-day weather data to analyze freeze-thaw cycles and recommend the best days to tap sugar maple trees.">
-<meta property="og:title" content="Sapcast — Maple Sap Tapping Forecast">
-<meta property="og:description" content="Analyze 7-day freeze-thaw cycles to find the best days for tapping sugar maple trees. Free, location-based forecast.">
+<title>${escapeHTML(meta.title)}</title>
+<meta name="description" content="${t.metaDescription}">
+<meta property="og:title" content="${escapeHTML(meta.title)}">
+<meta property="og:description" content="${escapeHTML(meta.description)}">
 <meta property="og:type" content="website">
-<meta name="twitter:card" content="summary">
-<meta name="twitter:title" content="Sapcast — Maple Sap Tapping Forecast">
-<meta name="twitter:description" content="Analyze 7-day freeze-thaw cycles to find the best days for tapping sugar maple trees. Free, location-based forecast.">
+${page?.share ? `<meta property="og:url" content="${escapeHTML(page.share.url)}">
+<meta property="og:image" content="${escapeHTML(page.share.image)}">
+<meta property="og:image:type" content="image/png">
+<meta property="og:image:width" content="1200">
+<meta property="og:image:height" content="630">
+<meta name="twitter:image" content="${escapeHTML(page.share.image)}">` : ''}
+<meta name="twitter:card" content="${page?.share ? 'summary_large_image' : 'summary'}">
+<meta name="twitter:title" content="${escapeHTML(meta.title)}">
+<meta name="twitter:description" content="${escapeHTML(meta.description)}">
 <script type="application/ld+json">
-{
-  "@context": "https://schema.org",
-  "@graph": [
-    {
-      "@type": "WebApplication",
-      "name": "Sapcast",
-      "description": "Free maple sap tapping forecast that analyzes 7-day freeze-thaw cycles to recommend the best days to tap sugar maple trees.",
-      "applicationCategory": "WeatherApplication",
-      "operatingSystem": "Any",
-      "offers": {
-        "@type": "Offer",
-        "price": "0",
-        "priceCurrency": "USD"
-      }
-    },
-    {
-      "@type": "HowTo",
-      "name": "How to Tap Maple Trees",
-      "description": "A step-by-step guide to tapping sugar maple trees for sap collection and syrup production.",
-      "step": [
-        {
-          "@type": "HowToStep",
-          "name": "Choose a tree",
-          "text": "Pick a healthy sugar maple at least 30 cm (12 in) in diameter. A tree 12-18 in diameter supports one tap; larger than 18 in can take two."
-        },
-        {
-          "@type": "HowToStep",
-          "name": "Drill the tap hole",
-          "text": "Use a 5/16 or 7/16 inch bit, about 5 cm (2 in) deep at a slight upward angle. Place the tap above a large root or below a large branch on the south-facing side."
-        },
-        {
-          "@type": "HowToStep",
-          "name": "Check your shavings",
-          "text": "Light-coloured chips mean healthy sapwood. Dark shavings mean pick a different spot."
-        },
-        {
-          "@type": "HowToStep",
-          "name": "Collect sap",
-          "text": "Hang a food-safe, lidded bucket or attach tubing to the spile. Collect sap daily and refrigerate it — sap spoils quickly above freezing."
-        },
-        {
-          "@type": "HowToStep",
-          "name": "Boil into syrup",
-          "text": "It takes roughly 40 litres of sap to make 1 litre of syrup. Boil outdoors — the steam will peel wallpaper indoors."
-        },
-        {
-          "@type": "HowToStep",
-          "name": "Pull taps at end of season",
-          "text": "Once temperatures stay above freezing consistently or buds appear on branches, pull your spiles. Remove spiles with pliers and let tap holes heal on their own."
-        }
-      ]
-    },
-    {
-      "@type": "FAQPage",
-      "mainEntity": [
-        {
-          "@type": "Question",
-          "name": "What is the freeze-thaw cycle for maple sap?",
-          "acceptedAnswer": {
-            "@type": "Answer",
-            "text": "Maple sap flows when nighttime temperatures drop below freezing and daytime temperatures rise above freezing. This creates pressure changes inside the tree that push sap through the tap. Ideal conditions are overnight lows of -7\\u00b0C to -2\\u00b0C with daytime highs of 4\\u00b0C to 10\\u00b0C."
-          }
-        },
-        {
-          "@type": "Question",
-          "name": "When is the best time to tap maple trees?",
-          "acceptedAnswer": {
-            "@type": "Answer",
-            "text": "The best sap runs happen during extended stretches of freeze-thaw days, typically in late winter to early spring. A single good day produces less sap than a 5-day run of consecutive freeze-thaw cycles."
-          }
-        },
-        {
-          "@type": "Question",
-          "name": "When should I stop tapping and pull my spiles?",
-          "acceptedAnswer": {
-            "@type": "Answer",
-            "text": "Pull your taps when temperatures stay above freezing consistently (ending the freeze-thaw cycle) or when buds appear on the branches. Budding sap develops an off 'buddy' flavour that won't make good syrup."
-          }
-        }
-      ]
-    }
-  ]
-}
+${jsonLd}
 </script>
 <link rel="preconnect" href="https://fonts.googleapis.com">
 <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>
@@ -383,12 +1297,27 @@ ${phSnippet}
     color: #d4cdc6;
   }
 
+  .header-current .updated-at.stale {
+    color: #9a6b12;
+  }
+
   .loc-text {
     font-size: 0.82rem;
     color: #6d6157;
     font-weight: 500;
   }
 
+  .stale-banner {
+    background: #fdf3dc;
+    border: 1px solid #e8cf8f;
+    border-radius: 10px;
+    color: #6b4f12;
+    font-size: 0.88rem;
+    margin-bottom: 12px;
+    padding: 10px 14px;
+    text-align: center;
+  }
+
   .map-container {
     border-radius: 10px;
     overflow: hidden;
@@ -403,6 +1332,18 @@ ${phSnippet}
     display: block;
   }
 
+  .profile-select {
+    border: none;
+    background: #f5f0eb;
+    border-radius: 6px;
+    padding: 4px 8px;
+    font-family: inherit;
+    font-size: 0.82rem;
+    color: #2c2520;
+    font-weight: 500;
+    cursor: pointer;
+  }
+
   .unit-toggle {
     display: flex;
     gap: 2px;
@@ -467,6 +1408,7 @@ ${phSnippet}
   .rec-no_window { background: #f5f0eb; }
   .rec-season_over { background: #fde8e8; }
   .rec-too_cold { background: #e8f0fd; }
+  .rec-pull_taps { background: #fde8e8; }
 
   .season-info-box {
     padding: 14px;
@@ -541,6 +1483,26 @@ ${phSnippet}
     min-width: 36px;
   }
 
+  .forecast-day .day-hours {
+    color: #6d6157;
+    font-size: 0.75rem;
+    min-width: 110px;
+  }
+
+  .forecast-day .day-snow {
+    color: #4a6f8a;
+    font-size: 0.75rem;
+    min-width: 44px;
+    text-align: right;
+  }
+
+  .forecast-day .day-yield {
+    color: #6d6157;
+    font-size: 0.75rem;
+    min-width: 56px;
+    text-align: right;
+  }
+
   .forecast-day .day-rating {
     font-weight: 600;
     font-size: 0.75rem;
@@ -550,6 +1512,9 @@ ${phSnippet}
     text-align: right;
   }
 
+  .forecast-day.medium-confidence { opacity: 0.8; }
+  .forecast-day.low-confidence { opacity: 0.6; }
+
   .day-rating.excellent { color: #007a56; }
   .day-rating.good { color: #008380; }
   .day-rating.fair { color: #c24726; }
@@ -1057,6 +2022,40 @@ ${phSnippet}
     box-shadow: 0 0 0 2px rgba(139, 111, 71, 0.15);
   }
 
+  .postal-form select {
+    padding: 8px 6px;
+    border: 1.5px solid #c2b8a3;
+    border-radius: 8px;
+    font-family: inherit;
+    font-size: 0.88rem;
+    max-width: 150px;
+    background: #fff;
+    color: #3e2f23;
+  }
+
+  .place-results {
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    gap: 6px;
+    margin-top: 10px;
+  }
+
+  .place-results button {
+    padding: 6px 12px;
+    background: #faf8f6;
+    border: 1px solid #d5cfc6;
+    border-radius: 8px;
+    font-family: inherit;
+    font-size: 0.84rem;
+    color: #5C3D2E;
+    cursor: pointer;
+  }
+
+  .place-results button:hover {
+    background: #f0ece7;
+  }
+
   .postal-form button {
     padding: 8px 16px;
     background: #8B6F47;
@@ -1074,21 +2073,233 @@ ${phSnippet}
     background: #7B5440;
   }
 
-  .postal-divider {
-    display: flex;
-    align-items: center;
-    gap: 12px;
-    margin: 16px 0 4px;
-    color: #a89a8a;
-    font-size: 0.82rem;
+  .postal-divider {
+    display: flex;
+    align-items: center;
+    gap: 12px;
+    margin: 16px 0 4px;
+    color: #a89a8a;
+    font-size: 0.82rem;
+  }
+
+  .postal-divider::before,
+  .postal-divider::after {
+    content: '';
+    flex: 1;
+    height: 1px;
+    background: #d5cfc6;
+  }
+  .tap-count {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    margin-top: 10px;
+    font-size: 0.82rem;
+    color: #6d6157;
+  }
+
+  .tap-count input {
+    width: 80px;
+    padding: 4px 8px;
+    border: 1px solid #d4cdc6;
+    border-radius: 6px;
+    font-family: inherit;
+    font-size: 0.82rem;
+  }
+
+  .season-timeline {
+    display: flex;
+    flex-wrap: wrap;
+    gap: 2px;
+    margin: 8px 0;
+  }
+
+  .season-timeline span {
+    width: 10px;
+    height: 16px;
+    border-radius: 2px;
+    background: #e8e3de;
+  }
+
+  .season-timeline .excellent { background: #00b894; }
+  .season-timeline .good { background: #00cec9; }
+  .season-timeline .fair { background: #fdcb6e; }
+
+  .history-summary {
+    font-size: 0.88rem;
+    line-height: 1.45;
+  }
+
+  .history-past {
+    margin-top: 10px;
+    padding-left: 18px;
+    font-size: 0.82rem;
+    color: #6d6157;
+  }
+
+  .journal-list {
+    list-style: none;
+    margin-top: 10px;
+    font-size: 0.82rem;
+  }
+
+  .journal-list li {
+    display: flex;
+    gap: 8px;
+    align-items: center;
+    padding: 4px 0;
+    border-top: 1px solid #f0ebe6;
+  }
+
+  .journal-list .remove {
+    margin-left: auto;
+    border: none;
+    background: none;
+    cursor: pointer;
+    color: #a0958c;
+  }
+
+  .stands-actions select {
+    padding: 5px 10px;
+    border: 1px solid #d4cdc6;
+    border-radius: 8px;
+    font-family: inherit;
+    font-size: 0.78rem;
+  }
+
+  .calendar-link {
+    display: inline-block;
+    margin-top: 8px;
+    font-size: 0.82rem;
+    color: #5C3D2E;
+  }
+
+  .share-link {
+    background: none;
+    border: none;
+    color: #5C3D2E;
+    cursor: pointer;
+    font-family: inherit;
+    font-size: 0.82rem;
+    margin: 8px 0 0 12px;
+    padding: 0;
+    text-decoration: underline;
+  }
+
+  .alerts-box {
+    margin-top: 10px;
+    font-size: 0.82rem;
+    color: #6d6157;
+  }
+
+  .alerts-box summary {
+    cursor: pointer;
+    font-weight: 600;
+    color: #5C3D2E;
+  }
+
+  .stands-grid {
+    display: grid;
+    grid-template-columns: repeat(auto-fill, minmax(240px, 1fr));
+    gap: 10px;
+  }
+
+  .stand-tile {
+    position: relative;
+    padding: 12px 14px;
+    border-radius: 10px;
+    background: #faf8f6;
+    border-left: 3px solid #e8e3de;
+    font-size: 0.84rem;
+    cursor: pointer;
+    transition: background 0.15s;
+  }
+
+  .stand-tile:hover { background: #f0ece7; }
+  .stand-tile.rec-tap_now { border-left-color: #00b894; }
+  .stand-tile.rec-upcoming { border-left-color: #fdcb6e; }
+
+  .stand-tile .stand-name {
+    font-weight: 600;
+    color: #5C3D2E;
+    padding-right: 20px;
+  }
+
+  .stand-tile .stand-remove {
+    position: absolute;
+    top: 8px;
+    right: 8px;
+    border: none;
+    background: none;
+    color: #6d6157;
+    cursor: pointer;
+    font-size: 1rem;
+    line-height: 1;
+  }
+
+  .stand-tile .stand-rec {
+    margin-top: 4px;
+    line-height: 1.4;
+  }
+
+  .stand-tile .window-detail {
+    margin-top: 4px;
+  }
+
+  .day-strip {
+    display: flex;
+    gap: 3px;
+    margin-top: 8px;
+  }
+
+  .day-strip span {
+    flex: 1;
+    height: 18px;
+    border-radius: 3px;
+    background: #e8e3de;
+    font-size: 0.62rem;
+    text-align: center;
+    line-height: 18px;
+    color: #2c2520;
+  }
+
+  .day-strip .excellent { background: #00b894; color: #fff; }
+  .day-strip .good { background: #00cec9; color: #fff; }
+  .day-strip .fair { background: #fdcb6e; }
+
+  .stands-actions {
+    display: flex;
+    gap: 8px;
+    align-items: center;
+    flex-wrap: wrap;
+    margin-top: 10px;
+    font-size: 0.82rem;
+    color: #6d6157;
+  }
+
+  .stands-actions button {
+    padding: 6px 14px;
+    border: 1px solid #d4cdc6;
+    background: #fff;
+    border-radius: 20px;
+    cursor: pointer;
+    font-family: inherit;
+    font-size: 0.82rem;
+    color: #2c2520;
+  }
+
+  .stands-actions button:hover {
+    background: #f5f0eb;
+    border-color: #5C3D2E;
   }
 
-  .postal-divider::before,
-  .postal-divider::after {
-    content: '';
-    flex: 1;
-    height: 1px;
-    background: #d5cfc6;
+  .stands-actions input {
+    padding: 5px 10px;
+    border: 1px solid #d4cdc6;
+    border-radius: 8px;
+    font-family: inherit;
+    font-size: 0.78rem;
+    width: 200px;
   }
 </style>
 </head>
@@ -1096,33 +2307,53 @@ ${phSnippet}
 <div class="container">
   <header>
     <h1>Sapcast</h1>
-    <p>Ditch the 🔮 — let real forecast data tell you when to tap</p>
-    <div class="header-bar" id="header-bar" style="display:none;">
-      <span class="loc-text" id="loc-text"></span>
+    <p>${t.tagline}</p>
+    <div class="header-bar" id="header-bar"${hidden(!!page)}>
+      <span class="loc-text" id="loc-text">${page ? escapeHTML(page.label) : ''}</span>
+      <select class="profile-select" id="profile-select" aria-label="${t.treeSpecies}">
+        <option value="sugar_maple">${t.profiles.sugar_maple}</option>
+        <option value="red_maple">${t.profiles.red_maple}</option>
+        <option value="black_walnut">${t.profiles.black_walnut}</option>
+        <option value="birch">${t.profiles.birch}</option>
+      </select>
       <div class="unit-toggle">
         <button id="btn-c" class="active" onclick="setUnit('C')">°C</button>
         <button id="btn-f" onclick="setUnit('F')">°F</button>
       </div>
     </div>
-    <div class="header-current" id="header-current" style="display:none;">
-      <span class="header-temp" id="current-temp"></span>
+    <div class="header-current" id="header-current"${hidden(!!sections)}>
+      <span class="header-temp" id="current-temp">${sections?.currentTemp ?? ''}</span>
       <span class="header-sep">&middot;</span>
-      <span id="current-summary"></span>
+      <span id="current-summary">${sections?.currentSummary ?? ''}</span>
+      <span class="header-sep" id="updated-sep" style="display:none;">&middot;</span>
+      <span class="updated-at" id="updated-at"></span>
     </div>
   </header>
 
   <div id="app">
+    <div class="card" id="stands-card" style="display:none;">
+      <h2>${t.standsTitle}</h2>
+      <div class="stands-grid" id="stands-grid"></div>
+      <div class="stands-actions">
+        <button id="save-stand-btn" onclick="saveCurrentStand()" style="display:none;">${t.saveStand}</button>
+        <input type="text" id="stands-list-id" placeholder="${t.crewCode}" aria-label="${t.crewCode}">
+        <button onclick="pushStands()">${t.share}</button>
+        <button onclick="pullStands()">${t.load}</button>
+        <span id="stands-status"></span>
+      </div>
+    </div>
+
     <!-- Dynamic forecast section (progressive enhancement) -->
     <section id="forecast-section" aria-live="polite">
-      <h2 class="sr-only">Sap Forecast</h2>
-      <noscript>
+      <h2 class="sr-only">${t.forecastHeading}</h2>
+      ${page ? '' : `<noscript>
         <div class="noscript-notice">
-          <p><strong>JavaScript is required for the live forecast.</strong></p>
-          <p>Enable JavaScript and allow location access to see a personalized 7-day sap forecast. In the meantime, browse the tapping guides and resources below.</p>
+          <p><strong>${t.noscriptTitle}</strong></p>
+          <p>${t.noscriptBody}</p>
         </div>
-      </noscript>
+      </noscript>`}
 
-      <div class="loading" id="loading">
+      <div class="loading" id="loading"${hidden(!page)}>
         <div class="sap-loader">
           <div class="leaf">&#x1F341;</div>
           <div class="drops">
@@ -1131,73 +2362,148 @@ ${phSnippet}
             <div class="drop"></div>
           </div>
         </div>
-        <p>Detecting your location...</p>
+        <p>${ui.detecting}</p>
         <div class="permission-hint" id="permission-hint" style="display:none;">
-          <strong>Having trouble enabling location?</strong>
+          <strong>${t.locationTrouble}</strong>
           <span id="permission-hint-detail"></span>
         </div>
         <div class="postal-fallback">
-          <div class="postal-divider">or enter a ZIP / postal code</div>
+          <div class="postal-divider">${t.postalDivider}</div>
           <div class="postal-form">
-            <input type="text" id="postal-code" placeholder="e.g. 05602 or K1A" aria-label="ZIP or postal code" autocomplete="postal-code">
-            <button onclick="lookupPostalCode()">Go</button>
+            <input type="text" id="postal-code" placeholder="${t.postalPlaceholder}" aria-label="${t.postalLabel}" autocomplete="postal-code">
+            <select id="postal-country" aria-label="${t.country}">${countryOptions}</select>
+            <button onclick="lookupLocation()">${t.go}</button>
           </div>
+          <div class="place-results" id="place-results"></div>
         </div>
       </div>
 
       <div class="error-state" id="error" style="display:none;">
         <p id="error-msg"></p>
-        <button onclick="retry()">Try again</button>
+        <button onclick="retry()">${t.tryAgain}</button>
         <div class="postal-fallback">
-          <div class="postal-divider">or use a ZIP / postal code instead</div>
+          <div class="postal-divider">${t.postalDividerError}</div>
           <div class="postal-form">
-            <input type="text" id="postal-code-error" placeholder="e.g. 05602 or K1A" aria-label="ZIP or postal code" autocomplete="postal-code">
-            <button onclick="lookupPostalCode('error')">Go</button>
+            <input type="text" id="postal-code-error" placeholder="${t.postalPlaceholder}" aria-label="${t.postalLabel}" autocomplete="postal-code">
+            <select id="postal-country-error" aria-label="${t.country}">${countryOptions}</select>
+            <button onclick="lookupLocation('error')">${t.go}</button>
           </div>
+          <div class="place-results" id="place-results-error"></div>
         </div>
       </div>
 
-      <div id="forecast-results" style="display:none;">
+      <div id="forecast-results"${hidden(!!page)}>
+        <div class="stale-banner" id="stale-banner" role="status"${hidden(!!page?.share)}>${page?.share
+          ? `${interpolate(ui.sharedFrom, { date: formatDate(page.share.createdAt.substring(0, 10), locale) })} `
+            + `<a href="/?lat=${page.lat}&amp;lon=${page.lon}${locale === DEFAULT_LOCALE ? '' : `&amp;lang=${locale}`}">${ui.seeLatest}</a>`
+          : ''}</div>
         <div class="map-container" id="map-container" style="display:none;">
           <iframe id="map-frame" width="100%" height="100%" frameborder="0"
-            scrolling="no" loading="lazy" title="Map showing your location"></iframe>
+            scrolling="no" loading="lazy" title="${t.mapTitle}"></iframe>
         </div>
 
         <div class="card" id="recommendation-card">
-          <h2>Best Tapping Window</h2>
-          <div id="recommendation"></div>
+          <h2>${t.bestWindowTitle}</h2>
+          <div id="recommendation">${sections?.recommendation ?? ''}</div>
+          <label class="tap-count">${t.yourTaps}
+            <input type="number" id="tap-count" min="1" max="10000" value="1" inputmode="numeric">
+          </label>
+          <details class="alerts-box">
+            <summary>&#x1F514; ${t.alertsSummary}</summary>
+            <div class="stands-actions" id="alerts-subscribe">
+              <button onclick="subscribePush()">${t.browserNotifications}</button>
+              <input type="url" id="alert-webhook" placeholder="${t.webhookPlaceholder}" aria-label="${t.webhookLabel}">
+              <button onclick="subscribeWebhook()">${t.addWebhook}</button>
+            </div>
+            <div class="stands-actions" id="alerts-active" style="display:none;">
+              <span>${t.alertsOn}</span>
+              <button onclick="unsubscribeAlerts()">${t.stopAlerts}</button>
+            </div>
+            <div class="window-detail" id="alerts-status"></div>
+          </details>
+          <details class="alerts-box" id="terrain-box">
+            <summary>&#x26F0; ${t.terrainSummary}</summary>
+            <div class="stands-actions">
+              <input type="number" id="terrain-elevation" min="-500" max="5000" placeholder="${t.elevationPlaceholder}" aria-label="${t.elevationLabel}">
+              <button onclick="lookupElevation()">${t.lookUp}</button>
+              <select id="terrain-aspect" aria-label="${t.aspectLabel}">
+                <option value="">${t.aspects.flat}</option>
+                <option value="N">${t.aspects.N}</option>
+                <option value="NE">${t.aspects.NE}</option>
+                <option value="E">${t.aspects.E}</option>
+                <option value="SE">${t.aspects.SE}</option>
+                <option value="S">${t.aspects.S}</option>
+                <option value="SW">${t.aspects.SW}</option>
+                <option value="W">${t.aspects.W}</option>
+                <option value="NW">${t.aspects.NW}</option>
+              </select>
+              <button onclick="saveTerrain()">${t.apply}</button>
+            </div>
+            <div class="window-detail" id="terrain-status"></div>
+          </details>
+          <a class="calendar-link" id="calendar-link" href="#">&#x1F4C6; ${t.calendarLink}</a>
+          <button class="share-link" id="share-btn" onclick="shareForecast()">&#x1F517; ${t.shareForecast}</button>
+          <span class="window-detail" id="share-status"></span>
         </div>
 
-        <div class="card" id="season-info-card" style="display:none;">
-          <h2>Season Timing</h2>
-          <div id="season-info"></div>
+        <div class="card" id="season-info-card"${hidden(!!sections?.seasonInfo)}>
+          <h2>${t.seasonTimingTitle}</h2>
+          <div id="season-info">${sections?.seasonInfo ?? ''}</div>
         </div>
 
         <div class="card forecast-card">
-          <h2>7-Day Forecast</h2>
-          <div class="forecast-list" id="forecast-list"></div>
+          <h2 id="forecast-title">${sections?.forecastTitle ?? interpolate(ui.forecastTitle, { n: 7 })}</h2>
+          <div class="forecast-list" id="forecast-list">${sections?.forecastList ?? ''}</div>
+        </div>
+
+        <div class="card" id="history-card" style="display:none;">
+          <h2>${t.historyTitle}</h2>
+          <div id="history"></div>
+        </div>
+
+        <div class="card" id="journal-card">
+          <h2>${t.journalTitle}</h2>
+          <div id="journal-summary"></div>
+          <div class="stands-actions">
+            <select id="journal-type" aria-label="${t.entryType}" onchange="updateJournalForm()">
+              <option value="collection">${ui.entryTypes.collection}</option>
+              <option value="tap_in">${ui.entryTypes.tap_in}</option>
+              <option value="pull">${ui.entryTypes.pull}</option>
+            </select>
+            <input type="date" id="journal-date" aria-label="${t.date}">
+            <input type="text" id="journal-stand" placeholder="${t.standName}" aria-label="${t.standName}" maxlength="60">
+            <input type="number" id="journal-litres" placeholder="${t.litres}" aria-label="${t.litresCollected}" min="0" step="0.1" inputmode="decimal">
+            <input type="number" id="journal-spiles" placeholder="${t.spiles}" aria-label="${t.spiles}" min="1" inputmode="numeric" style="display:none;">
+            <button onclick="logJournalEntry()">${t.log}</button>
+          </div>
+          <div class="window-detail" id="journal-status"></div>
+          <ul class="journal-list" id="journal-list"></ul>
+          <div class="stands-actions">
+            <button onclick="calibrateFromLog()">${t.calibrate}</button>
+          </div>
+          <div id="calibration"></div>
         </div>
       </div>
     </section>
 
     <details class="feedback-collapsible">
-      <summary class="feedback-toggle">&#x1F4AC; How are we doing?</summary>
+      <summary class="feedback-toggle">&#x1F4AC; ${t.feedbackToggle}</summary>
       <div class="feedback-inner">
-        <p class="feedback-callout">Sapcast is a new project and we&rsquo;re still tuning the forecast model and learning what&rsquo;s actually useful to tappers. Your feedback &mdash; even a quick note &mdash; makes a real difference.</p>
-        <p class="feedback-prompt">Was this forecast helpful?</p>
+        <p class="feedback-callout">${t.feedbackCallout}</p>
+        <p class="feedback-prompt">${t.feedbackPrompt}</p>
         <div id="feedback-form">
           <div class="feedback-buttons">
-            <button class="feedback-btn" id="fb-helpful" onclick="selectFeedback('helpful')">&#128077; Yes, thanks!</button>
-            <button class="feedback-btn" id="fb-not-helpful" onclick="selectFeedback('not_helpful')">&#128078; It could use some work</button>
+            <button class="feedback-btn" id="fb-helpful" onclick="selectFeedback('helpful')">&#128077; ${t.feedbackYes}</button>
+            <button class="feedback-btn" id="fb-not-helpful" onclick="selectFeedback('not_helpful')">&#128078; ${t.feedbackNo}</button>
           </div>
           <div class="feedback-detail">
-            <textarea id="feedback-text" placeholder="Any comments? (optional)" rows="2"></textarea>
-            <button class="feedback-submit-btn" onclick="sendFeedback()">Send feedback</button>
+            <textarea id="feedback-text" placeholder="${t.feedbackComment}" rows="2"></textarea>
+            <button class="feedback-submit-btn" onclick="sendFeedback()">${t.feedbackSend}</button>
           </div>
         </div>
         <div id="feedback-thanks-state" style="display:none;">
-          <p class="feedback-thanks">Thanks for your feedback!</p>
-          <button class="feedback-change-btn" onclick="resetFeedback()">Change your feedback</button>
+          <p class="feedback-thanks">${t.feedbackThanks}</p>
+          <button class="feedback-change-btn" onclick="resetFeedback()">${t.feedbackChange}</button>
         </div>
       </div>
     </details>
@@ -1205,61 +2511,16 @@ ${phSnippet}
     <!-- Static content (always visible, no JS needed) -->
     <main>
       <div class="card how-it-works">
-        <h2>How It Works</h2>
-        <h3>The Freeze-Thaw Cycle</h3>
-        <p>Maple sap flows when nighttime temperatures drop below freezing and daytime
-           temperatures rise above freezing. This creates pressure changes inside the
-           tree that push sap through the tap.</p>
-        <h3>What the Ratings Mean</h3>
-        <ul>
-          <li><strong>Excellent:</strong> Ideal freeze-thaw — overnight lows of -7°C to -2°C with daytime highs of 4°C to 10°C.</li>
-          <li><strong>Good:</strong> Solid freeze-thaw cycle — freezes overnight, thaws above 2°C during the day.</li>
-          <li><strong>Fair:</strong> Marginal — some freeze-thaw activity but temperatures are outside the ideal range.</li>
-          <li><strong>Poor:</strong> No freeze-thaw cycle — either too warm (no freeze) or too cold (no thaw).</li>
-        </ul>
-        <h3>Consecutive Days Matter</h3>
-        <p>The best sap runs happen during extended stretches of freeze-thaw days. A
-           single good day produces less sap than a 5-day run. The "Best Tapping Window"
-           highlights the longest stretch of good-or-better conditions in the forecast.</p>
+        ${t.howItWorks}
       </div>
 
       <div class="card tapping-guides">
-        <h2>Tapping Guides</h2>
-        <h3>Choosing &amp; Tapping a Tree</h3>
-        <p>Pick a healthy sugar maple at least 30 cm (12 in) in diameter. Place
-           the tap above a large root or below a large branch on the south-facing
-           side for the earliest flow.</p>
-        <ul>
-          <li><strong>Tree size:</strong> 12–18 in diameter supports one tap; larger than 18 in can take two (<a href="https://vermontevaporator.com/diy-maple-syrup-how-to-tap-2/" target="_blank" rel="noopener">Vermont Evaporator Co.</a>).</li>
-          <li><strong>Drill:</strong> Use a 5/16″ or 7/16″ bit, about 5 cm (2 in) deep at a slight upward angle.</li>
-          <li><strong>Check your shavings:</strong> Light-coloured chips mean healthy sapwood — dark shavings mean pick a different spot (<a href="https://tapmytrees.com/tap-tree/" target="_blank" rel="noopener">Tap My Trees</a>).</li>
-        </ul>
-        <h3>Collecting &amp; Boiling</h3>
-        <p>Hang a food-safe, lidded bucket or attach tubing to the spile. Collect
-           sap daily and refrigerate it — sap spoils quickly above freezing.</p>
-        <ul>
-          <li><strong>Ratio:</strong> It takes roughly 40 litres of sap to make 1 litre of syrup.</li>
-          <li><strong>Boil outdoors:</strong> The steam will peel wallpaper indoors (<a href="https://www.almanac.com/making-maple-syrup-answering-common-questions" target="_blank" rel="noopener">Old Farmer's Almanac</a>).</li>
-        </ul>
-        <h3>When to Pull Your Taps</h3>
-        <p>Without the freeze-thaw cycle, sap flow stops. Watch for these signs
-           that the season is over:</p>
-        <ul>
-          <li><strong>No more freezing nights:</strong> Once temperatures stay above freezing consistently, flow dries up (<a href="https://www.motherearthnews.com/homesteading-and-livestock/end-of-maple-tapping-season-zbcz1503/" target="_blank" rel="noopener">Mother Earth News</a>).</li>
-          <li><strong>Bud break:</strong> Once buds appear on the branches, sap develops an off "buddy" flavour that won't make good syrup. Pull your spiles before buds open.</li>
-        </ul>
-        <h3>End-of-Season Cleanup</h3>
-        <p>Remove spiles with pliers and let tap holes heal on their own — don't
-           plug them.</p>
-        <ul>
-          <li><strong>Clean equipment:</strong> Scrub with dilute bleach (1 part unscented bleach to 20 parts water), then triple-rinse with hot water (<a href="https://tapmytrees.com/cleanup/" target="_blank" rel="noopener">Tap My Trees</a>).</li>
-          <li><strong>Store dry:</strong> Keep spiles, buckets, and lids in a dry, dust-free place until next season (<a href="https://vermontevaporator.com/end-of-season-clean-up-pulling-taps-and-flushing-lines/" target="_blank" rel="noopener">Vermont Evaporator Co.</a>).</li>
-        </ul>
+        ${t.tappingGuides}
       </div>
     </main>
 
     <footer>
-      <h2>Sources &amp; Further Reading</h2>
+      <h2>${t.sourcesTitle}</h2>
       <ul>
         <li>
           Tyree, M.T. (1983). "Maple Sap Uptake, Exudation, and Pressure Changes
@@ -1281,129 +2542,872 @@ ${phSnippet}
         </li>
         <li>
           <a href="https://www.uvm.edu/cals/proctor-maple-research-center" target="_blank" rel="noopener">UVM Proctor Maple Research Center</a>
-          — the oldest maple research center in the world (est. 1946)
+          — ${t.sourceNotes.proctor}
         </li>
         <li>
           <a href="https://blogs.cornell.edu/cornellmaple/" target="_blank" rel="noopener">Cornell Sugar Maple Research &amp; Extension Program</a>
-          — production research and climate monitoring
+          — ${t.sourceNotes.cornell}
         </li>
         <li>
           <a href="https://www.massmaple.org/about-maple-syrup/how-sugar-maple-trees-work/" target="_blank" rel="noopener">Massachusetts Maple Producers Association</a>
-          — how sugar maple trees work
+          — ${t.sourceNotes.massMaple}
         </li>
         <li>
           <a href="https://umaine.edu/ecologyandenvironmentalsciences/2014/02/19/making-sense-of-maple-syrup/" target="_blank" rel="noopener">University of Maine</a>
-          — making sense of maple syrup
+          — ${t.sourceNotes.umaine}
         </li>
       </ul>
       <p class="footer-note">
-        Weather data provided by <a href="https://pirateweather.net/" target="_blank" rel="noopener">Pirate Weather</a>.
+        ${t.weatherCredit} <a href="https://pirateweather.net/" target="_blank" rel="noopener">Pirate Weather</a>.
       </p>
       <p class="footer-note">
-        Built with care for 3 out of 52 weeks per year by <a href="https://grantlucas.com/" target="_blank" rel="noopener">Grant Lucas</a>.
+        ${t.builtBy} <a href="https://grantlucas.com/" target="_blank" rel="noopener">Grant Lucas</a>.
       </p>
     </footer>
   </div>
 </div>
 
-<script>
-(function() {
-  let forecastData = null;
-  let unit = 'C';
+<script>
+(function() {
+  const initialPage = ${pageData};
+  // The page's language: Intl formats dates and numbers, TEXT has the words
+  const LOCALE = '${intlTag(locale)}';
+  const LANG = '${locale}';
+  const TEXT = ${uiText};
+  const MAX_OTHER_WINDOWS = 3; // runner-up windows listed under the best one
+  let forecastData = null;
+  let unit = 'C';
+  let tapCount = 1;
+  let profileId = 'sugar_maple';
+  let historyData = null;
+
+  function safeCapture(event, props) {
+    if (typeof posthog !== 'undefined') {
+      posthog.capture(event, props || {});
+    }
+  }
+
+  // Fills {name} placeholders, like interpolate() on the server
+  function fill(template, vars) {
+    return template.replace(/\\{(\\w+)\\}/g, function(m, name) {
+      return vars && Object.prototype.hasOwnProperty.call(vars, name) ? vars[name] : m;
+    });
+  }
+
+  // The singular or plural wording for n, with n filled in
+  function plural(forms, n, vars) {
+    var form = new Intl.PluralRules(LOCALE).select(n) === 'one' ? forms.one : forms.other;
+    return fill(form, Object.assign({ n: n }, vars));
+  }
+
+  function decimal(n) {
+    return n.toLocaleString(LOCALE, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+  }
+
+  function toF(c) {
+    return c !== null ? (c * 9/5) + 32 : null;
+  }
+
+  function tempStr(c) {
+    if (c === null) return '--';
+    const v = unit === 'F' ? toF(c) : c;
+    return Math.round(v) + '°' + unit;
+  }
+
+  // Litres, or US gallons alongside Fahrenheit
+  function volumeStr(litres) {
+    if (unit === 'F') return decimal(litres / 3.785) + ' gal';
+    return decimal(litres) + ' L';
+  }
+
+  function hoursStr(h) {
+    if (!h) return '';
+    return fill(TEXT.hours, { frozen: h.hoursBelowFreeze, thawed: h.hoursAboveThaw });
+  }
+
+  function escapeHTML(str) {
+    return String(str).replace(/[&<>"']/g, function(c) {
+      return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c];
+    });
+  }
+
+  // Mirrors the server's HIGH_CONFIDENCE / MEDIUM_CONFIDENCE cut-offs
+  function confidenceLevel(c) {
+    if (c === undefined || c >= 0.75) return 'high';
+    return c >= 0.5 ? 'medium' : 'low';
+  }
+
+  function ratingLabel(r) {
+    return TEXT.ratings[r] || r;
+  }
+
+  // "2 hours ago" / "il y a 2 heures"
+  function timeAgo(iso) {
+    var minutes = Math.max(0, Math.round((Date.now() - new Date(iso).getTime()) / 60000));
+    var rtf = new Intl.RelativeTimeFormat(LOCALE, { numeric: 'auto' });
+    if (minutes < 60) return rtf.format(-minutes, 'minute');
+    if (minutes < 48 * 60) return rtf.format(-Math.round(minutes / 60), 'hour');
+    return rtf.format(-Math.round(minutes / 1440), 'day');
+  }
+
+  function confidenceLabel(level) {
+    var label = TEXT.confidence[level];
+    return label.charAt(0).toUpperCase() + label.slice(1);
+  }
+
+  function dayName(dateStr) {
+    const d = new Date(dateStr + 'T12:00:00');
+    return d.toLocaleDateString(LOCALE, { weekday: 'short', month: 'short', day: 'numeric' });
+  }
+
+  function formatWindowDates(start, end) {
+    const s = new Date(start + 'T12:00:00');
+    const e = new Date(end + 'T12:00:00');
+    const opts = { month: 'short', day: 'numeric' };
+    if (start === end) return s.toLocaleDateString(LOCALE, { weekday: 'short', ...opts });
+    return s.toLocaleDateString(LOCALE, opts) + ' – ' + e.toLocaleDateString(LOCALE, opts);
+  }
+
+  const recIcons = {
+    tap_now: '\u{1F3AF}',
+    upcoming: '\u{1F4C5}',
+    no_window: '\u{1F32B}',
+    season_over: '\u{2600}',
+    too_cold: '\u{2744}',
+    pull_taps: '\u{1F331}'
+  };
+
+  function render() {
+    if (!forecastData) return;
+    const d = forecastData;
+    renderHistory(historyData);
+    renderJournal();
+
+    // Current conditions (in header)
+    document.getElementById('current-temp').textContent = tempStr(d.current.temperature);
+    document.getElementById('current-summary').textContent = d.current.summary;
+    var updated = document.getElementById('updated-at');
+    updated.textContent = d.fetchedAt ? fill(TEXT.updatedAgo, { ago: timeAgo(d.fetchedAt) }) : '';
+    updated.classList.toggle('stale', !!d.stale);
+    document.getElementById('updated-sep').style.display = d.fetchedAt ? '' : 'none';
+    document.getElementById('header-current').style.display = 'flex';
+
+    // Recommendation
+    const recEl = document.getElementById('recommendation');
+    const rec = d.recommendation;
+    let recHTML = '<div class="recommendation-box rec-' + rec.type + '">';
+    recHTML += '<span class="rec-icon">' + (recIcons[rec.type] || '') + '</span>';
+    recHTML += '<div>';
+    recHTML += '<div style="font-weight:600;">' + rec.message + '</div>';
+    if (d.bestWindow) {
+      recHTML += '<div class="window-dates" style="margin-top:6px;">'
+        + formatWindowDates(d.bestWindow.startDate, d.bestWindow.endDate)
+        + (rec.window && rec.window.startOffset > 0 ? ' \u00b7 ' + plural(TEXT.startsIn, rec.window.startOffset) : '')
+        + '</div>';
+      recHTML += '<div class="window-detail">'
+        + (rec.window ? TEXT.windowQuality[rec.window.quality] + ' \u00b7 ' : '')
+        + plural(TEXT.favorableDays, d.bestWindow.length)
+        + (confidenceLevel(d.bestWindow.confidence) !== 'high'
+          ? ' \u00b7 ' + TEXT.confidence[confidenceLevel(d.bestWindow.confidence)] : '')
+        + '</div>';
+      recHTML += '<div class="window-detail">'
+        + plural(TEXT.sapFromTaps, tapCount, { volume: volumeStr(d.bestWindow.totalYield * tapCount) }) + '</div>';
+      var others = (d.windows || []).slice(1, 1 + MAX_OTHER_WINDOWS).map(function(o) {
+        return formatWindowDates(o.startDate, o.endDate) + ' (' + plural(TEXT.dayCount, o.length) + ')';
+      });
+      if (others.length > 0) {
+        recHTML += '<div class="window-detail">' + fill(TEXT.otherWindows, { windows: others.join('; ') }) + '</div>';
+      }
+    }
+    recHTML += '</div></div>';
+    recEl.innerHTML = recHTML;
+
+    // Season info
+    if (d.seasonInfo) {
+      var siEl = document.getElementById('season-info');
+      siEl.innerHTML = '<div class="season-info-box">'
+        + '<div>' + d.seasonInfo.message + '</div>'
+        + '<div class="season-info-dates">'
+        + '<span><strong>' + TEXT.tapBy + '</strong> ' + dayName(d.seasonInfo.tapByDate) + '</span>'
+        + '<span><strong>' + TEXT.seasonEnd + '</strong> ' + dayName(d.seasonInfo.seasonEndDate) + '</span>'
+        + (d.budBreak
+          ? '<span title="' + fill(TEXT.gddTitle, { target: d.budBreak.target }) + '">'
+            + '<strong>' + TEXT.gdd + '</strong> '
+            + fill(TEXT.gddProgress, { gdd: Math.round(d.budBreak.gdd), target: d.budBreak.target }) + '</span>'
+          : '')
+        + (d.budBreak && d.budBreak.date
+          ? '<span><strong>' + TEXT.budBreak + '</strong> '
+            + (d.budBreak.daysUntil === 0 ? TEXT.budBreakNow : '~' + dayName(d.budBreak.date)) + '</span>'
+          : '')
+        + '</div></div>';
+      document.getElementById('season-info-card').style.display = '';
+    }
+
+    // Daily forecast, as far out as the provider goes
+    document.getElementById('forecast-title').textContent = fill(TEXT.forecastTitle, { n: d.days.length });
+    const listEl = document.getElementById('forecast-list');
+    listEl.innerHTML = '';
+    d.days.forEach(function(day) {
+      const row = document.createElement('div');
+      const level = confidenceLevel(day.confidence);
+      row.className = 'forecast-day ' + day.rating + (level !== 'high' ? ' ' + level + '-confidence' : '');
+      if (level !== 'high') row.title = confidenceLabel(level);
+      row.innerHTML =
+        '<span class="day-name">' + dayName(day.date) + '</span>' +
+        '<span class="temps"><span class="temp-low">' + tempStr(day.tempLow) + '</span><span class="temp-arrow">\u2192</span><span class="temp-high">' + tempStr(day.tempHigh) + '</span></span>' +
+        '<span class="day-hours">' + hoursStr(day.hourly) + '</span>' +
+        '<span class="day-snow">' + (day.snowfall >= 1 ? '\u2744 ' + Math.round(day.snowfall) + ' cm' : '') + '</span>' +
+        '<span class="day-yield">' + (day.sapYield ? volumeStr(day.sapYield * tapCount) : '') + '</span>' +
+        '<span class="day-rating ' + day.rating + '">' + ratingLabel(day.rating) + '</span>';
+      listEl.appendChild(row);
+    });
+  }
+
+  // ── Saved stands ──────────────────────────────────────────────────────────
+
+  var STANDS_KEY = 'sapcast_stands';
+  var STANDS_LIST_KEY = 'sapcast_stands_list';
+  var currentLocation = null;
+  var standForecasts = {};
+
+  function loadStands() {
+    try {
+      return JSON.parse(localStorage.getItem(STANDS_KEY) || '[]');
+    } catch (e) {
+      return [];
+    }
+  }
+
+  function storeStands(stands) {
+    try {
+      localStorage.setItem(STANDS_KEY, JSON.stringify(stands));
+    } catch (e) { /* storage full or disabled */ }
+  }
+
+  function setStandsStatus(msg) {
+    document.getElementById('stands-status').textContent = msg;
+  }
+
+  function dayStrip(days) {
+    return '<div class="day-strip">' + days.slice(0, 7).map(function(day) {
+      var d = new Date(day.date + 'T12:00:00');
+      return '<span class="' + day.rating + '" title="' + dayName(day.date) + ': ' + ratingLabel(day.rating) + '">'
+        + d.toLocaleDateString(LOCALE, { weekday: 'narrow' }) + '</span>';
+    }).join('') + '</div>';
+  }
+
+  function renderStands() {
+    var stands = loadStands();
+    var card = document.getElementById('stands-card');
+    document.getElementById('save-stand-btn').style.display = currentLocation ? '' : 'none';
+    if (stands.length === 0 && !currentLocation) {
+      card.style.display = 'none';
+      return;
+    }
+    card.style.display = '';
+
+    var grid = document.getElementById('stands-grid');
+    grid.innerHTML = stands.map(function(stand) {
+      var entry = standForecasts[stand.id];
+      var html = '<div class="stand-tile' + (entry && entry.forecast ? ' rec-' + entry.forecast.recommendation.type : '')
+        + '" data-id="' + escapeHTML(stand.id) + '">';
+      html += '<div class="stand-name">' + escapeHTML(stand.name) + '</div>';
+      html += '<button class="stand-remove" aria-label="' + escapeHTML(fill(TEXT.removeStand, { name: stand.name })) + '">\u00d7</button>';
+      if (!entry) {
+        html += '<div class="stand-rec window-detail">' + TEXT.loading + '</div>';
+      } else if (entry.error) {
+        html += '<div class="stand-rec window-detail">' + escapeHTML(entry.error) + '</div>';
+      } else {
+        var f = entry.forecast;
+        html += '<div class="stand-rec">' + (recIcons[f.recommendation.type] || '') + ' ' + f.recommendation.message + '</div>';
+        if (f.bestWindow) {
+          html += '<div class="window-detail">' + formatWindowDates(f.bestWindow.startDate, f.bestWindow.endDate)
+            + ' \u00b7 ' + plural(TEXT.dayCount, f.bestWindow.length) + '</div>';
+        }
+        html += dayStrip(f.days);
+        if (entry.savedAt) html += '<div class="window-detail">' + fill(TEXT.offlineAsOf, { time: formatSavedAt(entry.savedAt) }) + '</div>';
+      }
+      return html + '</div>';
+    }).join('');
+
+    // Stand IDs come from a shared list, so they never go into handler code
+    grid.querySelectorAll('.stand-tile').forEach(function(tile) {
+      var id = tile.dataset.id;
+      tile.addEventListener('click', function() { showStand(id); });
+      tile.querySelector('.stand-remove').addEventListener('click', function(event) {
+        event.stopPropagation();
+        removeStand(id);
+      });
+    });
+  }
+
+  async function refreshStands() {
+    var stands = loadStands();
+    renderStands();
+    if (stands.length === 0) return;
+
+    try {
+      const resp = await fetch('/api/v1/forecast/batch?lang=' + LANG, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(Object.assign({ locations: stands.map(withTerrain) }, profileFields())),
+      });
+      const body = await resp.json();
+      if (!resp.ok) throw new Error(body.error || TEXT.standsError);
+      standForecasts = {};
+      body.results.forEach(function(r) {
+        standForecasts[r.id] = r;
+        var stand = stands.find(function(s) { return s.id === r.id; });
+        if (stand && r.forecast) saveOfflineForecast(stand.lat, stand.lon, r.forecast);
+      });
+    } catch (err) {
+      // Fall back to each stand's last forecast, marked with its age
+      await Promise.all(stands.map(function(stand) {
+        return loadOfflineForecast(stand.lat, stand.lon).then(function(entry) {
+          standForecasts[stand.id] = entry
+            ? { id: stand.id, forecast: entry.forecast, savedAt: entry.savedAt }
+            : { error: err.message };
+        });
+      }));
+    }
+    renderStands();
+  }
+
+  window.saveCurrentStand = function() {
+    if (!currentLocation) return;
+    var stands = loadStands();
+    if (stands.length >= 10) {
+      setStandsStatus(TEXT.standsLimit);
+      return;
+    }
+    var name = prompt(TEXT.standNamePrompt, fill(TEXT.standDefaultName, { n: stands.length + 1 }));
+    if (!name) return;
+    stands.push({
+      id: 's' + Date.now().toString(36),
+      name: name.trim().substring(0, 60),
+      lat: Math.round(currentLocation.lat * 1000) / 1000,
+      lon: Math.round(currentLocation.lon * 1000) / 1000,
+    });
+    storeStands(stands);
+    safeCapture('stand_saved', { stand_count: stands.length });
+    refreshStands();
+  };
+
+  function removeStand(id) {
+    storeStands(loadStands().filter(function(s) { return s.id !== id; }));
+    delete standForecasts[id];
+    renderStands();
+  }
+
+  function showStand(id) {
+    var stand = loadStands().find(function(s) { return s.id === id; });
+    if (!stand) return;
+    fetchForecast(stand.lat, stand.lon);
+    document.getElementById('forecast-section').scrollIntoView({ behavior: 'smooth' });
+  }
+
+  window.pushStands = async function() {
+    var stands = loadStands();
+    if (stands.length === 0) {
+      setStandsStatus(TEXT.saveStandFirst);
+      return;
+    }
+    var input = document.getElementById('stands-list-id');
+    var listId = input.value.trim() || crypto.randomUUID();
+    try {
+      const resp = await fetch('/api/v1/stands?list=' + encodeURIComponent(listId), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ stands: stands }),
+      });
+      const body = await resp.json();
+      if (!resp.ok) throw new Error(body.error || TEXT.shareStandsError);
+      input.value = listId;
+      localStorage.setItem(STANDS_LIST_KEY, listId);
+      setStandsStatus(TEXT.standsShared);
+    } catch (err) {
+      setStandsStatus(err.message);
+    }
+  };
+
+  window.pullStands = async function() {
+    var listId = document.getElementById('stands-list-id').value.trim();
+    if (!listId) {
+      document.getElementById('stands-list-id').focus();
+      return;
+    }
+    try {
+      const resp = await fetch('/api/v1/stands?list=' + encodeURIComponent(listId));
+      const body = await resp.json();
+      if (!resp.ok) throw new Error(body.error || TEXT.loadStandsError);
+      storeStands(body.stands);
+      localStorage.setItem(STANDS_LIST_KEY, listId);
+      setStandsStatus(plural(TEXT.standsLoaded, body.stands.length));
+      refreshStands();
+    } catch (err) {
+      setStandsStatus(err.message);
+    }
+  };
+
+  // ── Tapping alerts ────────────────────────────────────────────────────────
+
+  var ALERTS_KEY = 'sapcast_alerts';
+
+  function loadAlerts() {
+    try {
+      return JSON.parse(localStorage.getItem(ALERTS_KEY) || '{}');
+    } catch (e) {
+      return {};
+    }
+  }
+
+  function storeAlerts(alerts) {
+    try {
+      localStorage.setItem(ALERTS_KEY, JSON.stringify(alerts));
+    } catch (e) { /* storage full or disabled */ }
+  }
+
+  // Subscriptions are per ~11km forecast cell, like the cache
+  function alertCell() {
+    return currentLocation ? currentLocation.lat.toFixed(1) + ',' + currentLocation.lon.toFixed(1) : null;
+  }
+
+  function setAlertsStatus(msg) {
+    document.getElementById('alerts-status').textContent = msg;
+  }
+
+  function renderAlerts() {
+    var active = !!loadAlerts()[alertCell()];
+    document.getElementById('alerts-subscribe').style.display = active ? 'none' : '';
+    document.getElementById('alerts-active').style.display = active ? '' : 'none';
+  }
+
+  async function createAlert(channel) {
+    var cell = alertCell();
+    if (!cell) return;
+    const resp = await fetch('/api/v1/alerts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name: document.getElementById('loc-text').textContent,
+        lat: currentLocation.lat,
+        lon: currentLocation.lon,
+        profile: baseProfileId(),
+        channel: channel,
+      }),
+    });
+    const body = await resp.json();
+    if (!resp.ok) throw new Error(body.error || TEXT.alertsError);
+    var alerts = loadAlerts();
+    alerts[cell] = body.id;
+    storeAlerts(alerts);
+    safeCapture('alert_subscribed', { channel: channel.type });
+    setAlertsStatus('');
+    renderAlerts();
+  }
+
+  function urlBase64ToUint8Array(str) {
+    var base64 = (str + '='.repeat((4 - str.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+    return Uint8Array.from(atob(base64), function(c) { return c.charCodeAt(0); });
+  }
+
+  window.subscribePush = async function() {
+    if (!('serviceWorker' in navigator) || !('PushManager' in window)) {
+      setAlertsStatus(TEXT.notificationsUnsupported);
+      return;
+    }
+    try {
+      const keyResp = await fetch('/api/v1/alerts/vapid-key');
+      if (!keyResp.ok) throw new Error(TEXT.notificationsUnavailable);
+      const key = (await keyResp.json()).publicKey;
+      const reg = await navigator.serviceWorker.register('/sw.js');
+      const sub = await reg.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(key),
+      });
+      const json = sub.toJSON();
+      await createAlert({ type: 'webpush', endpoint: json.endpoint, keys: json.keys });
+    } catch (err) {
+      setAlertsStatus(err.message);
+    }
+  };
+
+  window.subscribeWebhook = async function() {
+    var input = document.getElementById('alert-webhook');
+    var url = input.value.trim();
+    if (!url) {
+      input.focus();
+      return;
+    }
+    try {
+      await createAlert({ type: 'webhook', url: url });
+      input.value = '';
+    } catch (err) {
+      setAlertsStatus(err.message);
+    }
+  };
+
+  window.unsubscribeAlerts = async function() {
+    var alerts = loadAlerts();
+    var cell = alertCell();
+    var id = alerts[cell];
+    if (!id) return;
+    try {
+      await fetch('/api/v1/alerts?id=' + encodeURIComponent(id), { method: 'DELETE' });
+    } catch (err) { /* drop it locally either way */ }
+    delete alerts[cell];
+    storeAlerts(alerts);
+    safeCapture('alert_unsubscribed');
+    renderAlerts();
+  };
+
+  // ── Elevation and slope ───────────────────────────────────────────────────
+
+  var TERRAIN_KEY = 'sapcast_terrain';
+
+  function loadTerrain() {
+    try {
+      return JSON.parse(localStorage.getItem(TERRAIN_KEY) || '{}');
+    } catch (e) {
+      return {};
+    }
+  }
+
+  function storeTerrain(terrain) {
+    try {
+      localStorage.setItem(TERRAIN_KEY, JSON.stringify(terrain));
+    } catch (e) { /* storage full or disabled */ }
+  }
+
+  // Per ~1km, finer than the forecast cell: that's the point of correcting
+  function terrainSpot(lat, lon) {
+    return lat.toFixed(2) + ',' + lon.toFixed(2);
+  }
+
+  // A stand with the elevation and slope saved for its spot, for the batch forecast
+  function withTerrain(stand) {
+    var t = loadTerrain()[terrainSpot(stand.lat, stand.lon)];
+    if (!t) return stand;
+    return Object.assign({}, stand, { elevation: t.elevation, aspect: t.aspect || null });
+  }
+
+  function terrainQuery(lat, lon) {
+    var t = loadTerrain()[terrainSpot(lat, lon)];
+    if (!t) return '';
+    return (t.elevation !== null ? '&elevation=' + t.elevation : '')
+      + (t.aspect ? '&aspect=' + t.aspect : '');
+  }
+
+  function renderTerrain() {
+    if (!currentLocation) return;
+    var spot = terrainSpot(currentLocation.lat, currentLocation.lon);
+    var t = forecastData && forecastData.terrain;
+    var terrain = loadTerrain();
+    // Keep a looked-up elevation so later loads don't ask again
+    if (t && t.elevation !== null && terrain[spot] && terrain[spot].elevation === 'auto') {
+      terrain[spot].elevation = Math.round(t.elevation);
+      storeTerrain(terrain);
+    }
+    var saved = terrain[spot] || { elevation: null, aspect: '' };
+    document.getElementById('terrain-elevation').value = saved.elevation !== null ? saved.elevation : '';
+    document.getElementById('terrain-aspect').value = saved.aspect || '';
+
+    var status = '';
+    if (t) {
+      status = fill(TEXT.terrainShift, { low: degreeDelta(t.low), high: degreeDelta(t.high) });
+      if (t.elevation !== null && t.referenceElevation !== null) {
+        status += fill(TEXT.terrainElevation, { elevation: Math.round(t.elevation), reference: Math.round(t.referenceElevation) });
+      }
+      status += '.';
+    }
+    document.getElementById('terrain-status').textContent = status;
+  }
+
+  function applyTerrain(elevation, aspect) {
+    if (!currentLocation) return;
+    var terrain = loadTerrain();
+    var spot = terrainSpot(currentLocation.lat, currentLocation.lon);
+    if (elevation === null && !aspect) {
+      delete terrain[spot];
+    } else {
+      terrain[spot] = { elevation: elevation, aspect: aspect };
+    }
+    storeTerrain(terrain);
+    safeCapture('terrain_changed', { elevation: elevation !== null, aspect: aspect || null });
+    fetchForecast(currentLocation.lat, currentLocation.lon);
+  }
+
+  window.saveTerrain = function() {
+    var raw = document.getElementById('terrain-elevation').value.trim();
+    var elevation = raw === '' ? null : Math.round(parseFloat(raw));
+    if (elevation !== null && isNaN(elevation)) {
+      document.getElementById('terrain-status').textContent = TEXT.enterElevation;
+      return;
+    }
+    applyTerrain(elevation, document.getElementById('terrain-aspect').value);
+  };
+
+  window.lookupElevation = function() {
+    applyTerrain('auto', document.getElementById('terrain-aspect').value);
+  };
 
-  function safeCapture(event, props) {
-    if (typeof posthog !== 'undefined') {
-      posthog.capture(event, props || {});
+  // ── Season archive ────────────────────────────────────────────────────────
+
+  function shortDate(dateStr) {
+    return new Date(dateStr + 'T12:00:00').toLocaleDateString(LOCALE, { month: 'short', day: 'numeric' });
+  }
+
+  function seasonLine(s) {
+    if (s.sapDays === 0) return TEXT.noSapDays;
+    return plural(TEXT.sapDays, s.sapDays)
+      + ' \u00b7 \u2248 ' + volumeStr(s.totalYield * tapCount)
+      + ' \u00b7 ' + fill(TEXT.seasonRuns, { from: shortDate(s.firstSapDay), to: shortDate(s.lastSapDay) });
+  }
+
+  function renderHistory(seasons) {
+    var card = document.getElementById('history-card');
+    if (!seasons || seasons.length === 0) {
+      card.style.display = 'none';
+      return;
     }
+    var current = seasons[0];
+    var html = '<div class="history-summary"><strong>' + current.year + ':</strong> ' + seasonLine(current) + '</div>';
+    html += '<div class="season-timeline">' + current.days.map(function(day) {
+      return '<span class="' + day.rating + '" title="' + dayName(day.date) + ': ' + ratingLabel(day.rating) + '"></span>';
+    }).join('') + '</div>';
+    html += '<div class="window-detail">' + fill(TEXT.predicted, {
+      tapBy: shortDate(current.predicted.tapByDate),
+      seasonEnd: shortDate(current.predicted.seasonEndDate),
+    });
+    if (current.bestWindow) {
+      html += fill(TEXT.bestRunSoFar, {
+        dates: formatWindowDates(current.bestWindow.startDate, current.bestWindow.endDate),
+        days: plural(TEXT.dayCount, current.bestWindow.length),
+      });
+    }
+    html += '</div>';
+    if (seasons.length > 1) {
+      html += '<ul class="history-past">' + seasons.slice(1).map(function(s) {
+        return '<li><strong>' + s.year + ':</strong> ' + seasonLine(s) + '</li>';
+      }).join('') + '</ul>';
+    }
+    document.getElementById('history').innerHTML = html;
+    card.style.display = '';
   }
 
-  function toF(c) {
-    return c !== null ? (c * 9/5) + 32 : null;
+  async function fetchHistory(lat, lon) {
+    try {
+      const resp = await fetch('/api/v1/history?lat=' + lat + '&lon=' + lon + '&' + profileQuery());
+      if (!resp.ok) throw new Error('Failed to load season history');
+      historyData = (await resp.json()).seasons;
+    } catch (err) {
+      historyData = null;
+    }
+    renderHistory(historyData);
   }
 
-  function tempStr(c) {
-    if (c === null) return '--';
-    const v = unit === 'F' ? toF(c) : c;
-    return Math.round(v) + '°' + unit;
+  // ── Tap log ───────────────────────────────────────────────────────────────
+
+  var JOURNAL_TOKEN_KEY = 'sapcast_journal';
+  var journalData = null;
+
+  // One journal per device, identified by a random token kept in localStorage
+  function journalToken() {
+    var token = null;
+    try {
+      token = localStorage.getItem(JOURNAL_TOKEN_KEY);
+      if (!token) {
+        token = crypto.randomUUID();
+        localStorage.setItem(JOURNAL_TOKEN_KEY, token);
+      }
+    } catch (e) {
+      token = token || crypto.randomUUID();
+    }
+    return token;
   }
 
-  function ratingLabel(r) {
-    return r.charAt(0).toUpperCase() + r.slice(1);
+  function entryLine(e) {
+    var line = '<span>' + shortDate(e.date) + '</span><strong>' + escapeHTML(e.stand) + '</strong><span>' + TEXT.entryTypes[e.type];
+    if (e.type === 'tap_in') line += ' ' + fill(TEXT.spiles, { n: e.spiles });
+    if (e.type === 'collection') line += ' ' + volumeStr(e.litres);
+    line += '</span>';
+    if (e.forecast) {
+      line += '<span class="day-rating ' + e.forecast.rating + '">' + ratingLabel(e.forecast.rating) + '</span>';
+    }
+    return line;
+  }
+
+  function summaryLine(s) {
+    var parts = [];
+    if (s.tappedOn) parts.push(fill(TEXT.spilesSince, { n: s.spiles, date: shortDate(s.tappedOn) }));
+    parts.push(plural(TEXT.collectedOver, s.collectionDays, { volume: volumeStr(s.totalLitres) }));
+    if (s.pulledOn) parts.push(fill(TEXT.pulledOn, { date: shortDate(s.pulledOn) }));
+    var line = '<strong>' + escapeHTML(s.stand) + ':</strong> ' + parts.join(' \u00b7 ');
+    var compared = Object.keys(s.byRating).map(function(r) {
+      var c = s.byRating[r];
+      return fill(TEXT.ratingDays, {
+        rating: ratingLabel(r),
+        actual: volumeStr(c.litresPerTap),
+        predicted: volumeStr(c.predictedPerTap),
+      });
+    });
+    if (compared.length > 0) line += '<div class="window-detail">' + compared.join(' \u00b7 ') + '</div>';
+    return '<div class="history-summary">' + line + '</div>';
   }
 
-  function dayName(dateStr) {
-    const d = new Date(dateStr + 'T12:00:00');
-    return d.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  function renderJournal() {
+    if (!journalData) return;
+    document.getElementById('journal-summary').innerHTML = journalData.summary.map(summaryLine).join('');
+    document.getElementById('journal-list').innerHTML = journalData.entries.slice(-10).reverse().map(function(e) {
+      return '<li>' + entryLine(e) + '<button class="remove" title="' + TEXT.remove + '" onclick="removeJournalEntry(\\'' + e.id + '\\')">\u2715</button></li>';
+    }).join('');
   }
 
-  function formatWindowDates(start, end) {
-    const s = new Date(start + 'T12:00:00');
-    const e = new Date(end + 'T12:00:00');
-    const opts = { month: 'short', day: 'numeric' };
-    if (start === end) return s.toLocaleDateString('en-US', { weekday: 'short', ...opts });
-    return s.toLocaleDateString('en-US', opts) + ' – ' + e.toLocaleDateString('en-US', opts);
+  async function fetchJournal() {
+    try {
+      const resp = await fetch('/api/v1/journal?token=' + journalToken());
+      if (!resp.ok) throw new Error('Failed to load tap log');
+      journalData = await resp.json();
+    } catch (err) {
+      journalData = null;
+    }
+    renderJournal();
   }
 
-  const recIcons = {
-    tap_now: '\u{1F3AF}',
-    upcoming: '\u{1F4C5}',
-    no_window: '\u{1F32B}',
-    season_over: '\u{2600}',
-    too_cold: '\u{2744}'
+  window.updateJournalForm = function() {
+    var type = document.getElementById('journal-type').value;
+    document.getElementById('journal-litres').style.display = type === 'collection' ? '' : 'none';
+    document.getElementById('journal-spiles').style.display = type === 'tap_in' ? '' : 'none';
   };
 
-  function render() {
-    if (!forecastData) return;
-    const d = forecastData;
+  window.logJournalEntry = async function() {
+    if (!currentLocation) return;
+    var type = document.getElementById('journal-type').value;
+    var litres = parseFloat(document.getElementById('journal-litres').value);
+    var entry = {
+      type: type,
+      date: document.getElementById('journal-date').value,
+      stand: document.getElementById('journal-stand').value,
+      lat: currentLocation.lat,
+      lon: currentLocation.lon,
+      profile: baseProfileId(),
+      spiles: parseInt(document.getElementById('journal-spiles').value, 10),
+      // Entered in the unit shown, stored in litres
+      litres: unit === 'F' ? litres * 3.785 : litres,
+    };
+    try {
+      const resp = await fetch('/api/v1/journal?token=' + journalToken(), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(entry),
+      });
+      const body = await resp.json();
+      if (!resp.ok) throw new Error(body.error || TEXT.logError);
+      document.getElementById('journal-status').textContent = '';
+      document.getElementById('journal-litres').value = '';
+      safeCapture('journal_entry_logged', { type: type, rated: !!body.entry.forecast });
+      fetchJournal();
+    } catch (err) {
+      document.getElementById('journal-status').textContent = err.message;
+    }
+  };
 
-    // Current conditions (in header)
-    document.getElementById('current-temp').textContent = tempStr(d.current.temperature);
-    document.getElementById('current-summary').textContent = d.current.summary;
-    document.getElementById('header-current').style.display = 'flex';
+  window.removeJournalEntry = async function(id) {
+    await fetch('/api/v1/journal?token=' + journalToken() + '&id=' + encodeURIComponent(id), { method: 'DELETE' })
+      .catch(function() {});
+    fetchJournal();
+  };
 
-    // Recommendation
-    const recEl = document.getElementById('recommendation');
-    const rec = d.recommendation;
-    let recHTML = '<div class="recommendation-box rec-' + rec.type + '">';
-    recHTML += '<span class="rec-icon">' + (recIcons[rec.type] || '') + '</span>';
-    recHTML += '<div>';
-    recHTML += '<div style="font-weight:600;">' + rec.message + '</div>';
-    if (d.bestWindow) {
-      recHTML += '<div class="window-dates" style="margin-top:6px;">'
-        + formatWindowDates(d.bestWindow.startDate, d.bestWindow.endDate) + '</div>';
-      recHTML += '<div class="window-detail">'
-        + d.bestWindow.length + ' day' + (d.bestWindow.length > 1 ? 's' : '')
-        + ' of favorable conditions</div>';
+  // ── Calibration ───────────────────────────────────────────────────────────
+
+  var CALIBRATION_KEY = 'sapcast_calibration';
+  var calibration = null; // { base, profile } once the user adopts a fit
+  var pendingCalibration = null;
+
+  var thresholdParams = {
+    freezeThreshold: 'freeze',
+    thawThreshold: 'thaw',
+    idealLowMin: 'lowMin',
+    idealLowMax: 'lowMax',
+    idealHighMin: 'highMin',
+    idealHighMax: 'highMax',
+  };
+
+  // Preset the calibrated thresholds sit on, for endpoints that take an id only
+  function baseProfileId() {
+    return profileId === 'calibrated' && calibration ? calibration.base : profileId;
+  }
+
+  // The preset plus any calibrated thresholds, named as the API takes them
+  function profileFields() {
+    var fields = { profile: baseProfileId() };
+    if (profileId === 'calibrated' && calibration) {
+      Object.keys(thresholdParams).forEach(function(key) {
+        fields[thresholdParams[key]] = calibration.profile[key];
+      });
     }
-    recHTML += '</div></div>';
-    recEl.innerHTML = recHTML;
+    return fields;
+  }
 
-    // Season info
-    if (d.seasonInfo) {
-      var siEl = document.getElementById('season-info');
-      siEl.innerHTML = '<div class="season-info-box">'
-        + '<div>' + d.seasonInfo.message + '</div>'
-        + '<div class="season-info-dates">'
-        + '<span><strong>Tap by:</strong> ' + dayName(d.seasonInfo.tapByDate) + '</span>'
-        + '<span><strong>Season end:</strong> ' + dayName(d.seasonInfo.seasonEndDate) + '</span>'
-        + '</div></div>';
-      document.getElementById('season-info-card').style.display = '';
+  function profileQuery() {
+    var fields = profileFields();
+    return Object.keys(fields).map(function(name) { return name + '=' + fields[name]; }).join('&');
+  }
+
+  function degreeDelta(c) {
+    var v = unit === 'F' ? c * 9/5 : c;
+    return (v > 0 ? '+' : '') + (Math.round(v * 10) / 10).toLocaleString(LOCALE) + '°';
+  }
+
+  function addCalibratedOption() {
+    var select = document.getElementById('profile-select');
+    if (!select.querySelector('option[value="calibrated"]')) {
+      var option = document.createElement('option');
+      option.value = 'calibrated';
+      option.textContent = TEXT.calibratedProfile;
+      select.appendChild(option);
     }
+  }
 
-    // 7-day forecast
-    const listEl = document.getElementById('forecast-list');
-    listEl.innerHTML = '';
-    d.days.forEach(function(day) {
-      const row = document.createElement('div');
-      row.className = 'forecast-day ' + day.rating;
-      row.innerHTML =
-        '<span class="day-name">' + dayName(day.date) + '</span>' +
-        '<span class="temps"><span class="temp-low">' + tempStr(day.tempLow) + '</span><span class="temp-arrow">\u2192</span><span class="temp-high">' + tempStr(day.tempHigh) + '</span></span>' +
-        '<span class="day-rating ' + day.rating + '">' + ratingLabel(day.rating) + '</span>';
-      listEl.appendChild(row);
-    });
+  function renderCalibration(result) {
+    var report = result.report;
+    var html = '<div class="window-detail">'
+      + fill(TEXT.calibrationFitted, { n: report.flowDays, percent: Math.round(report.weight * 100) }) + '</div>';
+    html += '<ul class="history-past">' + report.changes.map(function(c) {
+      return '<li>' + TEXT.thresholds[c.threshold] + ': ' + tempStr(c.before) + ' \u2192 ' + tempStr(c.after)
+        + (c.change !== 0 ? ' (' + degreeDelta(c.change) + ')' : '') + '</li>';
+    }).join('') + '</ul>';
+    html += '<div class="stands-actions"><button onclick="useCalibration()">' + TEXT.useThresholds + '</button></div>';
+    document.getElementById('calibration').innerHTML = html;
   }
 
+  window.calibrateFromLog = async function() {
+    var target = document.getElementById('calibration');
+    try {
+      const resp = await fetch('/api/v1/calibrate?token=' + journalToken() + '&profile=' + baseProfileId());
+      const body = await resp.json();
+      if (!resp.ok) throw new Error(body.error || TEXT.calibrationFailed);
+      pendingCalibration = { base: baseProfileId(), profile: body.profile };
+      renderCalibration(body);
+      safeCapture('calibration_run', { flow_days: body.report.flowDays });
+    } catch (err) {
+      target.innerHTML = '<div class="window-detail">' + escapeHTML(err.message) + '</div>';
+    }
+  };
+
+  window.useCalibration = function() {
+    if (!pendingCalibration) return;
+    calibration = pendingCalibration;
+    try {
+      localStorage.setItem(CALIBRATION_KEY, JSON.stringify(calibration));
+    } catch (err) { /* storage disabled */ }
+    addCalibratedOption();
+    var select = document.getElementById('profile-select');
+    select.value = 'calibrated';
+    select.dispatchEvent(new Event('change'));
+    document.getElementById('calibration').innerHTML = '';
+  };
+
   window.setUnit = function(u) {
     if (u !== unit) {
       safeCapture('unit_changed', { to_unit: u });
@@ -1428,16 +3432,9 @@ ${phSnippet}
   }
 
   function permissionHintHTML(os) {
-    if (os === 'ios') {
-      return 'On iPhone or iPad, go to <strong style="display:inline;color:inherit;">Settings \u2192 Privacy &amp; Security \u2192 Location Services</strong> and make sure your browser can access your location. '
-        + '<a href="https://support.apple.com/en-ca/102647" target="_blank" rel="noopener">Apple support article \u2192</a>';
-    }
-    if (os === 'android') {
-      return 'On Android, tap the lock icon in your browser\u2019s address bar and allow Location, or go to '
-        + '<strong style="display:inline;color:inherit;">Settings \u2192 Location</strong> and make sure it\u2019s enabled. '
-        + '<a href="https://support.google.com/accounts/answer/3467281?hl=en" target="_blank" rel="noopener">Google support article \u2192</a>';
-    }
-    return 'Check your browser\u2019s address bar for a location permission prompt, or look in your browser settings to allow location access for this site.';
+    if (os === 'ios') return TEXT.permissionIos;
+    if (os === 'android') return TEXT.permissionAndroid;
+    return TEXT.permissionOther;
   }
 
   function showPermissionHint() {
@@ -1467,7 +3464,7 @@ ${phSnippet}
       var help = document.createElement('div');
       help.className = 'permission-hint permission-help';
       help.style.margin = '16px auto 0';
-      help.innerHTML = '<strong>Having trouble?</strong><span>' + helpHTML + '</span>';
+      help.innerHTML = '<strong>' + TEXT.havingTrouble + '</strong><span>' + helpHTML + '</span>';
       errorEl.insertBefore(help, errorEl.querySelector('button'));
     }
   }
@@ -1480,29 +3477,28 @@ ${phSnippet}
 
   async function fetchForecast(lat, lon) {
     document.getElementById('loading').style.display = 'block';
-    document.getElementById('loading').querySelector('p').textContent = 'Fetching forecast...';
+    document.getElementById('loading').querySelector('p').textContent = TEXT.fetching;
 
     try {
-      const resp = await fetch('/api/forecast?lat=' + lat + '&lon=' + lon);
+      let resp;
+      try {
+        resp = await fetch('/api/v1/forecast?lat=' + lat + '&lon=' + lon + '&' + profileQuery() + terrainQuery(lat, lon)
+          + '&lang=' + LANG);
+      } catch (err) {
+        if (await showOfflineForecast(lat, lon)) return;
+        throw new Error(TEXT.noConnection);
+      }
       if (!resp.ok) {
+        if (resp.status >= 500 && await showOfflineForecast(lat, lon)) return;
         const body = await resp.json().catch(function() { return {}; });
-        throw new Error(body.error || 'Failed to load forecast');
+        throw new Error(body.error || TEXT.forecastError);
       }
       forecastData = await resp.json();
-      document.getElementById('loc-text').textContent =
-        lat.toFixed(1) + ', ' + lon.toFixed(1);
-      document.getElementById('header-bar').style.display = 'flex';
-
-      var delta = 0.05;
-      var bbox = (lon - delta) + ',' + (lat - delta) + ',' +
-                 (lon + delta) + ',' + (lat + delta);
-      var mapUrl = 'https://www.openstreetmap.org/export/embed.html'
-        + '?bbox=' + bbox + '&layer=mapnik&marker=' + lat + ',' + lon;
-      document.getElementById('map-frame').src = mapUrl;
-      document.getElementById('map-container').style.display = 'block';
-
-      showContent();
-      render();
+      saveOfflineForecast(lat, lon, forecastData);
+      setStaleBanner(null);
+      showForecast(lat, lon);
+      fetchHistory(lat, lon);
+      fetchJournal();
       safeCapture('forecast_loaded', {
         recommendation_type: forecastData.recommendation.type,
         best_window_days: forecastData.bestWindow ? forecastData.bestWindow.length : 0,
@@ -1514,9 +3510,33 @@ ${phSnippet}
     }
   }
 
+  function showForecast(lat, lon) {
+    currentLocation = { lat: lat, lon: lon };
+    renderStands();
+    renderAlerts();
+    renderTerrain();
+    // webcal:// opens the subscribe dialog in calendar apps
+    document.getElementById('calendar-link').href = 'webcal://' + location.host
+      + '/api/v1/calendar.ics?lat=' + lat + '&lon=' + lon + '&' + profileQuery();
+    showPlaceName(lat, lon);
+    document.getElementById('header-bar').style.display = 'flex';
+
+    var delta = 0.05;
+    var bbox = (lon - delta) + ',' + (lat - delta) + ',' +
+               (lon + delta) + ',' + (lat + delta);
+    var mapUrl = 'https://www.openstreetmap.org/export/embed.html'
+      + '?bbox=' + bbox + '&layer=mapnik&marker=' + lat + ',' + lon;
+    document.getElementById('map-frame').src = mapUrl;
+    // Map tiles need the network
+    document.getElementById('map-container').style.display = navigator.onLine ? 'block' : 'none';
+
+    showContent();
+    render();
+  }
+
   function getLocation() {
     if (!navigator.geolocation) {
-      showError('Geolocation is not supported by your browser.');
+      showError(TEXT.geoUnsupported);
       return;
     }
 
@@ -1531,19 +3551,19 @@ ${phSnippet}
         switch (err.code) {
           case err.PERMISSION_DENIED:
             safeCapture('forecast_error', { error_type: 'geolocation_denied' });
-            showError('Location permission denied. Please allow location access and try again.', permissionHintHTML(detectOS()));
+            showError(TEXT.geoDenied, permissionHintHTML(detectOS()));
             break;
           case err.POSITION_UNAVAILABLE:
             safeCapture('forecast_error', { error_type: 'geolocation_unavailable' });
-            showError('Location unavailable. Please try again.');
+            showError(TEXT.geoUnavailable);
             break;
           case err.TIMEOUT:
             safeCapture('forecast_error', { error_type: 'geolocation_timeout' });
-            showError('Location request timed out. Please try again.');
+            showError(TEXT.geoTimeout);
             break;
           default:
             safeCapture('forecast_error', { error_type: 'geolocation_unknown' });
-            showError('Could not detect your location.');
+            showError(TEXT.geoFailed);
         }
       },
       { enableHighAccuracy: false, timeout: 30000, maximumAge: 300000 }
@@ -1554,11 +3574,194 @@ ${phSnippet}
     clearLocationTimer();
     document.getElementById('error').style.display = 'none';
     document.getElementById('loading').style.display = 'block';
-    document.getElementById('loading').querySelector('p').textContent = 'Detecting your location...';
+    document.getElementById('loading').querySelector('p').textContent = TEXT.detecting;
     getLocation();
   };
 
-  window.lookupPostalCode = function(variant) {
+  // ── Sharing ───────────────────────────────────────────────────────────────
+
+  // Stores a snapshot server-side so the link shows this exact call
+  window.shareForecast = async function() {
+    if (!currentLocation) return;
+    var status = document.getElementById('share-status');
+    status.textContent = TEXT.creatingLink;
+    try {
+      const resp = await fetch('/api/v1/share?lat=' + currentLocation.lat + '&lon=' + currentLocation.lon
+        + '&' + profileQuery() + terrainQuery(currentLocation.lat, currentLocation.lon) + '&lang=' + LANG, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label: document.getElementById('loc-text').textContent.substring(0, 60) }),
+      });
+      const body = await resp.json();
+      if (!resp.ok) throw new Error(body.error || TEXT.linkError);
+      safeCapture('forecast_shared');
+      if (navigator.share) {
+        status.textContent = '';
+        await navigator.share({ title: TEXT.shareTitle, url: body.url }).catch(function() { /* dismissed */ });
+        return;
+      }
+      await navigator.clipboard.writeText(body.url);
+      status.textContent = fill(TEXT.linkCopied, { url: body.url });
+    } catch (err) {
+      status.textContent = err.message;
+    }
+  };
+
+  // ── Offline forecasts ─────────────────────────────────────────────────────
+
+  // The last forecast for each spot, for when there's no signal in the bush
+  var OFFLINE_DB = 'sapcast';
+  var OFFLINE_STORE = 'forecasts';
+  var OFFLINE_POLICY = ${JSON.stringify(OFFLINE_POLICY)};
+  ${clientSource({ offlineSpot, nearestOffline, offlineSpotsToPrune })}
+  var offlineDB = null;
+  var staleSince = null;
+
+  function openOfflineDB() {
+    if (!offlineDB) {
+      offlineDB = new Promise(function(resolve, reject) {
+        if (!('indexedDB' in window)) {
+          reject(new Error('IndexedDB unavailable'));
+          return;
+        }
+        var req = indexedDB.open(OFFLINE_DB, 1);
+        req.onupgradeneeded = function() {
+          req.result.createObjectStore(OFFLINE_STORE, { keyPath: 'spot' });
+        };
+        req.onsuccess = function() { resolve(req.result); };
+        req.onerror = function() { reject(req.error); };
+      });
+    }
+    return offlineDB;
+  }
+
+  function offlineRequest(mode, makeRequest) {
+    return openOfflineDB().then(function(db) {
+      return new Promise(function(resolve, reject) {
+        var req = makeRequest(db.transaction(OFFLINE_STORE, mode).objectStore(OFFLINE_STORE));
+        req.onsuccess = function() { resolve(req.result); };
+        req.onerror = function() { reject(req.error); };
+      });
+    });
+  }
+
+  function saveOfflineForecast(lat, lon, forecast) {
+    return offlineRequest('readwrite', function(store) {
+      return store.put({ spot: offlineSpot(lat, lon), lat: lat, lon: lon, savedAt: Date.now(), forecast: forecast });
+    }).then(pruneOfflineForecasts).catch(function() { /* private browsing or storage full */ });
+  }
+
+  // Keeps the store from growing with every spot ever looked up
+  function pruneOfflineForecasts() {
+    return offlineRequest('readonly', function(store) {
+      return store.getAll();
+    }).then(function(entries) {
+      return Promise.all(offlineSpotsToPrune(entries, Date.now(), OFFLINE_POLICY).map(function(spot) {
+        return offlineRequest('readwrite', function(store) { return store.delete(spot); });
+      }));
+    });
+  }
+
+  function loadOfflineForecast(lat, lon) {
+    return offlineRequest('readonly', function(store) {
+      return store.getAll();
+    }).then(function(entries) {
+      return nearestOffline(entries, lat, lon, Date.now(), OFFLINE_POLICY);
+    }).catch(function() { return null; });
+  }
+
+  function formatSavedAt(savedAt) {
+    return new Date(savedAt).toLocaleString(LOCALE, { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+  }
+
+  function setStaleBanner(savedAt) {
+    staleSince = savedAt;
+    var banner = document.getElementById('stale-banner');
+    banner.style.display = savedAt ? '' : 'none';
+    banner.textContent = savedAt
+      ? fill(TEXT.staleBanner, { time: formatSavedAt(savedAt) })
+      : '';
+  }
+
+  async function showOfflineForecast(lat, lon) {
+    var entry = await loadOfflineForecast(lat, lon);
+    if (!entry) return false;
+    forecastData = entry.forecast;
+    setStaleBanner(entry.savedAt);
+    showForecast(entry.lat, entry.lon);
+    safeCapture('forecast_offline', { age_hours: Math.round((Date.now() - entry.savedAt) / 3600000) });
+    return true;
+  }
+
+  window.addEventListener('online', function() {
+    if (staleSince && currentLocation) fetchForecast(currentLocation.lat, currentLocation.lon);
+    refreshStands();
+  });
+
+  // ── Place names ───────────────────────────────────────────────────────────
+
+  var COUNTRY_KEY = 'sapcast_country';
+  var knownPlace = null; // { lat, lon, label } from the last lookup or reverse geocode
+  var placeCandidates = [];
+
+  // Last country used, else the region in the browser's language (en-GB → gb)
+  function defaultCountry() {
+    var saved = null;
+    try {
+      saved = localStorage.getItem(COUNTRY_KEY);
+    } catch (e) { /* storage disabled */ }
+    var region = (navigator.language || '').split('-')[1];
+    return saved || (region ? region.toLowerCase() : 'us');
+  }
+
+  function setPlaceName(lat, lon, label) {
+    knownPlace = { lat: lat, lon: lon, label: label };
+    if (currentLocation && currentLocation.lat === lat && currentLocation.lon === lon) {
+      document.getElementById('loc-text').textContent = label;
+    }
+  }
+
+  // Coordinates until the name comes back; the last known name if it's for here
+  function showPlaceName(lat, lon) {
+    var locText = document.getElementById('loc-text');
+    if (knownPlace && knownPlace.lat === lat && knownPlace.lon === lon) {
+      locText.textContent = knownPlace.label;
+      return;
+    }
+    locText.textContent = lat.toFixed(1) + ', ' + lon.toFixed(1);
+    fetch('/api/v1/reverse?lat=' + lat + '&lon=' + lon)
+      .then(function(resp) { return resp.ok ? resp.json() : null; })
+      .then(function(body) {
+        if (body && body.place && body.place.label) setPlaceName(lat, lon, body.place.label);
+      })
+      .catch(function() { /* keep the coordinates */ });
+  }
+
+  function showPlaceCandidates(suffix, places) {
+    placeCandidates = places;
+    var el = document.getElementById('place-results' + suffix);
+    el.innerHTML = places.map(function(place, i) {
+      return '<button onclick="pickPlace(' + i + ')">' + escapeHTML(place.label) + '</button>';
+    }).join('');
+  }
+
+  window.pickPlace = function(i) {
+    var place = placeCandidates[i];
+    if (!place) return;
+    showPlaceCandidates('', []);
+    showPlaceCandidates('-error', []);
+    knownPlace = { lat: place.lat, lon: place.lon, label: place.label };
+    safeCapture('place_picked', { country: place.countryCode });
+    fetchForecast(place.lat, place.lon);
+  };
+
+  function showLookupError(message) {
+    safeCapture('forecast_error', { error_type: 'postal_code_error' });
+    showError(message);
+  }
+
+  // A postal code if it has a digit in it, otherwise a town to search for
+  window.lookupLocation = function(variant) {
     var suffix = variant === 'error' ? '-error' : '';
     var codeEl = document.getElementById('postal-code' + suffix);
     var code = codeEl.value.trim();
@@ -1568,26 +3771,50 @@ ${phSnippet}
       return;
     }
 
-    // Auto-detect: Canadian postal codes start with a letter, US ZIPs start with a digit
-    var country = /^[A-Za-z]/.test(code) ? 'ca' : 'us';
-
+    var country = document.getElementById('postal-country' + suffix).value;
+    try {
+      localStorage.setItem(COUNTRY_KEY, country);
+    } catch (e) { /* storage disabled */ }
     clearLocationTimer();
+
+    if (!/[0-9]/.test(code)) {
+      fetch('/api/v1/places?q=' + encodeURIComponent(code))
+        .then(function(resp) {
+          if (!resp.ok) return resp.json().then(function(b) { throw new Error(b.error || TEXT.noPlaces); });
+          return resp.json();
+        })
+        .then(function(body) {
+          safeCapture('place_search', { results: body.places.length, cached: body.cached });
+          if (body.places.length === 0) throw new Error(fill(TEXT.noPlacesCalled, { query: code }));
+          if (body.places.length === 1) {
+            placeCandidates = body.places;
+            pickPlace(0);
+            return;
+          }
+          showPlaceCandidates(suffix, body.places);
+        })
+        .catch(function(err) {
+          showLookupError(err.message || TEXT.placeSearchError);
+        });
+      return;
+    }
+
     document.getElementById('error').style.display = 'none';
     document.getElementById('loading').style.display = 'block';
-    document.getElementById('loading').querySelector('p').textContent = 'Looking up postal code...';
+    document.getElementById('loading').querySelector('p').textContent = TEXT.lookingUp;
 
-    fetch('/api/geocode?postalCode=' + encodeURIComponent(code) + '&country=' + country)
+    fetch('/api/v1/geocode?postalCode=' + encodeURIComponent(code) + '&country=' + country)
       .then(function(resp) {
-        if (!resp.ok) return resp.json().then(function(b) { throw new Error(b.error || 'Postal code not found'); });
+        if (!resp.ok) return resp.json().then(function(b) { throw new Error(b.error || TEXT.postalNotFound); });
         return resp.json();
       })
       .then(function(geo) {
         safeCapture('postal_code_lookup', { country: country, cached: geo.cached });
+        knownPlace = { lat: geo.lat, lon: geo.lon, label: geo.label };
         fetchForecast(geo.lat, geo.lon);
       })
       .catch(function(err) {
-        safeCapture('forecast_error', { error_type: 'postal_code_error' });
-        showError(err.message || 'Could not look up that postal code.');
+        showLookupError(err.message || TEXT.postalError);
       });
   };
 
@@ -1619,13 +3846,71 @@ ${phSnippet}
   };
 
   document.getElementById('postal-code').addEventListener('keydown', function(e) {
-    if (e.key === 'Enter') lookupPostalCode();
+    if (e.key === 'Enter') lookupLocation();
   });
   document.getElementById('postal-code-error').addEventListener('keydown', function(e) {
-    if (e.key === 'Enter') lookupPostalCode('error');
+    if (e.key === 'Enter') lookupLocation('error');
+  });
+  ['postal-country', 'postal-country-error'].forEach(function(id) {
+    var select = document.getElementById(id);
+    select.value = defaultCountry();
+    if (!select.value) select.value = 'us';
   });
 
-  if ('requestIdleCallback' in window) {
+  try {
+    document.getElementById('stands-list-id').value = localStorage.getItem(STANDS_LIST_KEY) || '';
+    tapCount = parseInt(localStorage.getItem('sapcast_taps') || '1', 10) || 1;
+    profileId = localStorage.getItem('sapcast_profile') || profileId;
+    calibration = JSON.parse(localStorage.getItem(CALIBRATION_KEY) || 'null');
+  } catch (e) { /* storage disabled */ }
+  if (calibration) addCalibratedOption();
+  if (profileId === 'calibrated' && !calibration) profileId = 'sugar_maple';
+  document.getElementById('profile-select').value = profileId;
+  // en-CA formats as YYYY-MM-DD, in the device's own time zone
+  document.getElementById('journal-date').value = new Date().toLocaleDateString('en-CA');
+  document.getElementById('profile-select').addEventListener('change', function(e) {
+    profileId = e.target.value;
+    try {
+      localStorage.setItem('sapcast_profile', profileId);
+    } catch (err) { /* storage disabled */ }
+    safeCapture('profile_changed', { profile: profileId });
+    if (currentLocation) fetchForecast(currentLocation.lat, currentLocation.lon);
+    refreshStands();
+  });
+  document.getElementById('calendar-link').addEventListener('click', function() {
+    safeCapture('calendar_subscribed');
+  });
+  document.getElementById('tap-count').value = tapCount;
+  document.getElementById('tap-count').addEventListener('change', function(e) {
+    tapCount = Math.max(1, Math.min(10000, parseInt(e.target.value, 10) || 1));
+    e.target.value = tapCount;
+    try {
+      localStorage.setItem('sapcast_taps', String(tapCount));
+    } catch (err) { /* storage disabled */ }
+    safeCapture('tap_count_changed', { taps: tapCount });
+    render();
+  });
+  refreshStands();
+
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.register('/sw.js').catch(function() { /* offline support is a bonus */ });
+  }
+
+  // A server-rendered forecast is already on screen; take it over rather
+  // than asking for the location. Terrain settings need a corrected fetch.
+  if (initialPage) {
+    knownPlace = { lat: initialPage.lat, lon: initialPage.lon, label: initialPage.label };
+    if (terrainQuery(initialPage.lat, initialPage.lon)) {
+      fetchForecast(initialPage.lat, initialPage.lon);
+    } else {
+      forecastData = initialPage.forecast;
+      // A shared snapshot is someone else's old forecast; don't keep it
+      if (!initialPage.share) saveOfflineForecast(initialPage.lat, initialPage.lon, forecastData);
+      showForecast(initialPage.lat, initialPage.lon);
+      fetchHistory(initialPage.lat, initialPage.lon);
+      fetchJournal();
+    }
+  } else if ('requestIdleCallback' in window) {
     requestIdleCallback(getLocation, { timeout: 2000 });
   } else {
     setTimeout(getLocation, 1000);
@@ -1636,32 +3921,284 @@ ${phSnippet}
 </html>`;
 }
 
-// ── Worker entry point ─────────────────────────────────────────────────────
-
-export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
-    const url = new URL(request.url);
+// ── Routes ─────────────────────────────────────────────────────────────────
+
+const LIST_PARAM: ParameterDoc = { name: 'list', description: 'Shared list ID', required: true };
+const TOKEN_PARAM: ParameterDoc = { name: 'token', description: 'Per-device journal token', required: true };
+const ALERT_ID_PARAM: ParameterDoc = { name: 'id', description: 'Subscription ID', required: true };
+
+const routes: Route<Env>[] = [
+  {
+    path: '/api/v1/forecast',
+    methods: ['GET'],
+    handler: handleForecast,
+    docs: {
+      GET: {
+        summary: 'Tapping forecast for a location',
+        parameters: [...LOCATION_PARAM_DOCS, ...PROFILE_PARAM_DOCS, ...TERRAIN_PARAM_DOCS, RANK_PARAM_DOC, LANG_PARAM_DOC],
+        response: 'ForecastResult',
+      },
+    },
+  },
+  {
+    path: '/api/v1/forecast/batch',
+    methods: ['POST'],
+    handler: handleForecastBatch,
+    docs: {
+      POST: {
+        summary: 'Forecasts for up to 10 saved stands',
+        parameters: [LANG_PARAM_DOC],
+        requestBody: 'BatchRequest',
+        response: 'BatchResult',
+      },
+    },
+  },
+  {
+    path: '/api/v1/calendar.ics',
+    methods: ['GET'],
+    handler: handleCalendar,
+    docs: {
+      GET: {
+        summary: 'iCalendar feed of the best window, good days and season dates',
+        parameters: [...LOCATION_PARAM_DOCS, ...PROFILE_PARAM_DOCS, { name: 'name', description: 'Calendar title' }],
+        response: 'text/calendar',
+      },
+    },
+  },
+  {
+    path: '/api/v1/geocode',
+    methods: ['GET'],
+    handler: handleGeocode,
+    docs: {
+      GET: {
+        summary: 'Coordinates for a postal code',
+        parameters: [
+          { name: 'postalCode', description: 'ZIP or postal code', required: true },
+          { name: 'country', description: 'ISO 3166-1 alpha-2 country code, e.g. us, ca, gb, jp', required: true },
+        ],
+        response: 'GeocodeResult',
+      },
+    },
+  },
+  {
+    path: '/api/v1/places',
+    methods: ['GET'],
+    handler: handlePlaces,
+    docs: {
+      GET: {
+        summary: 'Places matching a name, for picking a location',
+        parameters: [{ name: 'q', description: 'Place name, e.g. Montpelier', required: true }],
+        response: 'PlaceSearchResult',
+      },
+    },
+  },
+  {
+    path: '/api/v1/reverse',
+    methods: ['GET'],
+    handler: handleReverseGeocode,
+    docs: {
+      GET: {
+        summary: 'Place name for a location',
+        parameters: LOCATION_PARAM_DOCS,
+        response: 'ReverseGeocodeResult',
+      },
+    },
+  },
+  {
+    path: '/api/v1/share',
+    methods: ['POST'],
+    handler: handleShare,
+    docs: {
+      POST: {
+        summary: 'Store a snapshot of a forecast to share',
+        parameters: [...LOCATION_PARAM_DOCS, ...PROFILE_PARAM_DOCS, ...TERRAIN_PARAM_DOCS, RANK_PARAM_DOC, LANG_PARAM_DOC],
+        requestBody: 'ShareRequest',
+        response: 'ShareCreated',
+        status: 201,
+      },
+    },
+  },
+  {
+    path: '/api/v1/share/{id}',
+    methods: ['GET'],
+    handler: handleShare,
+    docs: { GET: { summary: 'A shared forecast snapshot', response: 'ShareSnapshot' } },
+  },
+  {
+    path: '/api/v1/widget',
+    methods: ['GET'],
+    handler: handleWidget,
+    docs: {
+      GET: {
+        summary: "A location's recommendation and daily ratings for a widget on another site (CORS enabled)",
+        parameters: [
+          ...LOCATION_PARAM_DOCS,
+          { name: 'name', description: 'Place name to show; coordinates when omitted' },
+          { name: 'days', description: 'Days to include, 1–16 (default 7)', type: 'integer' },
+          ...PROFILE_PARAM_DOCS,
+          ...TERRAIN_PARAM_DOCS,
+          RANK_PARAM_DOC,
+          LANG_PARAM_DOC,
+        ],
+        response: 'WidgetData',
+      },
+    },
+  },
+  {
+    path: '/api/v1/stands',
+    methods: ['GET', 'PUT'],
+    handler: handleStands,
+    docs: {
+      GET: { summary: 'Load a shared stand list', parameters: [LIST_PARAM], response: 'StandList' },
+      PUT: { summary: 'Save a shared stand list', parameters: [LIST_PARAM], requestBody: 'StandList', response: 'StandList' },
+    },
+  },
+  {
+    path: '/api/v1/history',
+    methods: ['GET'],
+    handler: handleHistory,
+    docs: {
+      GET: {
+        summary: 'Recorded seasons replayed through the scoring',
+        parameters: [...LOCATION_PARAM_DOCS, ...PROFILE_PARAM_DOCS, { name: 'years', description: 'Seasons to return (1–10)', type: 'integer' }],
+        response: 'HistoryResult',
+      },
+    },
+  },
+  {
+    path: '/api/v1/journal',
+    methods: ['GET', 'POST', 'DELETE'],
+    handler: handleJournal,
+    docs: {
+      GET: { summary: "A device's tap log and per-stand summary", parameters: [TOKEN_PARAM], response: 'Journal' },
+      POST: { summary: 'Log a tap-in, collection or pull', parameters: [TOKEN_PARAM], requestBody: 'JournalEntry', response: 'JournalEntryResult', status: 201 },
+      DELETE: {
+        summary: 'Remove a tap log entry',
+        parameters: [TOKEN_PARAM, { name: 'id', description: 'Entry ID', required: true }],
+        response: 'Deleted',
+      },
+    },
+  },
+  {
+    path: '/api/v1/calibrate',
+    methods: ['GET', 'POST'],
+    handler: handleCalibrate,
+    docs: {
+      GET: {
+        summary: 'Fit scoring thresholds to a tap log',
+        parameters: [TOKEN_PARAM, { name: 'stand', description: 'Only this stand' }, PROFILE_PARAM_DOCS[0]],
+        response: 'CalibrationResult',
+      },
+      POST: { summary: 'Fit scoring thresholds to posted records', requestBody: 'CalibrationRequest', response: 'CalibrationResult' },
+    },
+  },
+  {
+    path: '/api/v1/alerts',
+    methods: ['GET', 'POST', 'DELETE'],
+    handler: handleAlerts,
+    docs: {
+      GET: { summary: 'Look up an alert subscription', parameters: [ALERT_ID_PARAM], response: 'AlertSubscription' },
+      POST: { summary: 'Subscribe to tapping alerts', requestBody: 'AlertRequest', response: 'Created', status: 201 },
+      DELETE: { summary: 'Unsubscribe from tapping alerts', parameters: [ALERT_ID_PARAM], response: 'Deleted' },
+    },
+  },
+  {
+    path: '/api/v1/alerts/vapid-key',
+    methods: ['GET'],
+    handler: (_request, env) => handleVapidKey(env),
+    docs: { GET: { summary: 'Public key for Web Push subscriptions', response: 'VapidKey' } },
+  },
+  {
+    path: '/api/openapi.json',
+    methods: ['GET'],
+    handler: request => Response.json(buildOpenApiDocument(routes, new URL(request.url).origin)),
+  },
+  {
+    path: '/',
+    methods: ['GET'],
+    handler: handlePage,
+  },
+  {
+    path: '/p/{postal}',
+    methods: ['GET'],
+    handler: handlePostalPage,
+  },
+  {
+    path: '/embed',
+    methods: ['GET'],
+    handler: handleEmbed,
+  },
+  {
+    path: '/share/{id}',
+    methods: ['GET'],
+    handler: handleSharePage,
+  },
+  {
+    path: '/og/{id}.png',
+    methods: ['GET'],
+    handler: handleSharePng,
+  },
+  {
+    path: '/og/{id}.svg',
+    methods: ['GET'],
+    handler: handleShareImage,
+  },
+  {
+    path: '/sw.js',
+    methods: ['GET'],
+    handler: () => new Response(getServiceWorker(), {
+      headers: {
+        'Content-Type': 'application/javascript',
+        'Cache-Control': 'no-cache',
+      },
+    }),
+  },
+  {
+    path: '/manifest.webmanifest',
+    methods: ['GET'],
+    handler: () => new Response(JSON.stringify(getManifest()), {
+      headers: {
+        'Content-Type': 'application/manifest+json',
+        'Cache-Control': 'public, max-age=86400',
+      },
+    }),
+  },
+  {
+    path: '/icon.svg',
+    methods: ['GET'],
+    handler: () => new Response(getAppIcon(), {
+      headers: {
+        'Content-Type': 'image/svg+xml',
+        'Cache-Control': 'public, max-age=86400',
+      },
+    }),
+  },
+  {
+    path: '/robots.txt',
+    methods: ['GET'],
+    handler: () => new Response('User-agent: *\nAllow: /\n', {
+      headers: {
+        'Content-Type': 'text/plain',
+        'Cache-Control': 'public, max-age=86400',
+      },
+    }),
+  },
+];
 
-    if (url.pathname === '/api/forecast') {
-      return handleForecast(request, env);
-    }
+const router = createRouter(routes);
 
-    if (url.pathname === '/api/geocode') {
-      return handleGeocode(request, env);
-    }
+// ── Worker entry point ─────────────────────────────────────────────────────
 
-    if (url.pathname === '/robots.txt') {
-      return new Response('User-agent: *\nAllow: /\n', {
-        headers: {
-          'Content-Type': 'text/plain',
-          'Cache-Control': 'public, max-age=86400',
-        },
-      });
-    }
+export default {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    const routed = await router.handle(request, env, ctx);
+    if (routed) return routed;
 
     // Serve frontend for all other routes
-    return new Response(getHTML(env.POSTHOG_API_KEY), {
-      headers: { 'Content-Type': 'text/html;charset=UTF-8' },
-    });
+    return htmlResponse(env, requestLocale(request));
+  },
+
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(Promise.all([recordObservations(env), evaluateAlerts(env)]));
   },
 };
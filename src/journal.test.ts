@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseJournalEntry,
+  addJournalEntry,
+  rateDay,
+  collectionsPerTap,
+  summarizeJournal,
+  JournalValidationError,
+  MAX_JOURNAL_ENTRIES,
+  type JournalEntry,
+  type RatedDay,
+} from './journal';
+import type { ForecastDay } from './scoring';
+
+function entry(
+  type: JournalEntry['type'],
+  date: string,
+  extra: Partial<JournalEntry> = {},
+): JournalEntry {
+  return {
+    id: `${type}-${date}`,
+    type,
+    date,
+    stand: 'North bush',
+    lat: 44.26,
+    lon: -72.58,
+    spiles: null,
+    litres: null,
+    note: '',
+    forecast: null,
+    ...extra,
+  };
+}
+
+const EXCELLENT: RatedDay = { rating: 'excellent', score: 3, sapYield: 2, tempLow: -4, tempHigh: 6 };
+const FAIR: RatedDay = { rating: 'fair', score: 1, sapYield: 0.5, tempLow: -12, tempHigh: 3 };
+
+// ═══════════════════════════════════════════════════════════════════════════
+// parseJournalEntry
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('parseJournalEntry', () => {
+  it('keeps a valid collection and drops fields for other types', () => {
+    expect(parseJournalEntry({
+      type: 'collection', date: '2026-03-10', stand: ' North bush ', lat: 44.26, lon: -72.58, litres: 41.26, spiles: 5,
+    })).toEqual({
+      type: 'collection', date: '2026-03-10', stand: 'North bush', lat: 44.26, lon: -72.58,
+      spiles: null, litres: 41.3, note: '',
+    });
+  });
+
+  it('requires a whole spile count for a tap-in', () => {
+    const base = { type: 'tap_in', date: '2026-02-20', lat: 44, lon: -72 };
+    expect(parseJournalEntry({ ...base, spiles: 25 }).spiles).toBe(25);
+    expect(() => parseJournalEntry(base)).toThrow('spile count');
+    expect(() => parseJournalEntry({ ...base, spiles: 2.5 })).toThrow(JournalValidationError);
+    expect(() => parseJournalEntry({ ...base, spiles: 0 })).toThrow(JournalValidationError);
+  });
+
+  it('requires non-negative litres for a collection', () => {
+    const base = { type: 'collection', date: '2026-03-10', lat: 44, lon: -72 };
+    expect(parseJournalEntry({ ...base, litres: 0 }).litres).toBe(0);
+    expect(() => parseJournalEntry(base)).toThrow('litres');
+    expect(() => parseJournalEntry({ ...base, litres: -1 })).toThrow(JournalValidationError);
+  });
+
+  it('defaults the stand name and trims long notes', () => {
+    const parsed = parseJournalEntry({ type: 'pull', date: '2026-04-02', lat: 44, lon: -72, note: 'x'.repeat(300) });
+    expect(parsed.stand).toBe('My stand');
+    expect(parsed.note).toHaveLength(200);
+  });
+
+  it('rejects unknown types, bad dates and coordinates', () => {
+    expect(() => parseJournalEntry({ type: 'boil', date: '2026-03-10', lat: 44, lon: -72 })).toThrow('Entry type');
+    expect(() => parseJournalEntry({ type: 'pull', date: '2026-02-30', lat: 44, lon: -72 })).toThrow('YYYY-MM-DD');
+    expect(() => parseJournalEntry({ type: 'pull', date: 'March 10', lat: 44, lon: -72 })).toThrow('YYYY-MM-DD');
+    expect(() => parseJournalEntry({ type: 'pull', date: '2026-03-10', lat: 95, lon: -72 })).toThrow('invalid lat');
+    expect(() => parseJournalEntry(undefined)).toThrow(JournalValidationError);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Journal
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('addJournalEntry', () => {
+  it('keeps entries in date order', () => {
+    const entries = addJournalEntry([entry('pull', '2026-04-01')], entry('tap_in', '2026-02-20'));
+    expect(entries.map(e => e.date)).toEqual(['2026-02-20', '2026-04-01']);
+  });
+
+  it('refuses to grow past the maximum', () => {
+    const full = Array.from({ length: MAX_JOURNAL_ENTRIES }, () => entry('pull', '2026-04-01'));
+    expect(() => addJournalEntry(full, entry('pull', '2026-04-02'))).toThrow('full');
+  });
+});
+
+describe('rateDay', () => {
+  it('finds the rating for a scored date', () => {
+    const days = [
+      { date: '2026-03-10', tempLow: -3, tempHigh: 12, rating: 'good', score: 2, sapYield: 1.4 },
+    ] as ForecastDay[];
+    expect(rateDay(days, '2026-03-10')).toEqual({ rating: 'good', score: 2, sapYield: 1.4, tempLow: -3, tempHigh: 12 });
+    expect(rateDay(days, '2026-03-11')).toBeNull();
+  });
+});
+
+describe('collectionsPerTap', () => {
+  it('divides each collection by the spiles tapped in at that stand so far', () => {
+    const collections = collectionsPerTap([
+      entry('tap_in', '2026-02-20', { spiles: 10 }),
+      entry('collection', '2026-02-19', { litres: 5 }),
+      entry('collection', '2026-03-01', { litres: 15 }),
+      entry('collection', '2026-03-01', { stand: 'Sugarbush road', litres: 15 }),
+    ]);
+    expect(collections.map(c => [c.entry.date, c.litresPerTap])).toEqual([['2026-03-01', 1.5]]);
+  });
+});
+
+describe('summarizeJournal', () => {
+  it('totals each stand separately', () => {
+    const summary = summarizeJournal([
+      entry('tap_in', '2026-02-20', { spiles: 10 }),
+      entry('collection', '2026-03-01', { litres: 12 }),
+      entry('tap_in', '2026-02-22', { stand: 'Sugarbush road', spiles: 4 }),
+      entry('collection', '2026-03-02', { litres: 8.5 }),
+      entry('pull', '2026-04-05'),
+    ]);
+
+    expect(summary).toHaveLength(2);
+    expect(summary[0]).toMatchObject({
+      stand: 'North bush',
+      tappedOn: '2026-02-20',
+      pulledOn: '2026-04-05',
+      spiles: 10,
+      totalLitres: 20.5,
+      collectionDays: 2,
+    });
+    expect(summary[1]).toMatchObject({ stand: 'Sugarbush road', spiles: 4, totalLitres: 0, collectionDays: 0 });
+  });
+
+  it('compares collected litres per tap with the forecast for each rating', () => {
+    const [stand] = summarizeJournal([
+      entry('tap_in', '2026-02-20', { spiles: 10 }),
+      entry('collection', '2026-03-01', { litres: 15, forecast: EXCELLENT }),
+      entry('collection', '2026-03-02', { litres: 25, forecast: EXCELLENT }),
+      entry('collection', '2026-03-03', { litres: 2, forecast: FAIR }),
+      entry('collection', '2026-03-04', { litres: 5 }),
+    ]);
+
+    expect(stand.byRating).toEqual({
+      excellent: { days: 2, litresPerTap: 2, predictedPerTap: 2 },
+      fair: { days: 1, litresPerTap: 0.2, predictedPerTap: 0.5 },
+    });
+  });
+
+  it('counts spiles added over the season', () => {
+    const [stand] = summarizeJournal([
+      entry('tap_in', '2026-02-20', { spiles: 10 }),
+      entry('collection', '2026-03-01', { litres: 10, forecast: FAIR }),
+      entry('tap_in', '2026-03-02', { spiles: 10 }),
+      entry('collection', '2026-03-03', { litres: 10, forecast: FAIR }),
+    ]);
+
+    expect(stand.spiles).toBe(20);
+    expect(stand.tappedOn).toBe('2026-02-20');
+    expect(stand.byRating.fair).toEqual({ days: 2, litresPerTap: 0.8, predictedPerTap: 0.5 });
+  });
+
+  it('skips the per-tap comparison before anything is tapped', () => {
+    const [stand] = summarizeJournal([entry('collection', '2026-03-01', { litres: 10, forecast: FAIR })]);
+    expect(stand.totalLitres).toBe(10);
+    expect(stand.byRating).toEqual({});
+  });
+});
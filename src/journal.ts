@@ -0,0 +1,206 @@
+// Tap log — what was actually done at each stand (tap-in, collections,
+// pull), kept beside the rating the forecast gave each collection day
+
+import type { ForecastDay, Rating } from './scoring';
+import { MAX_STAND_NAME_LENGTH } from './stands';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type JournalEntryType = 'tap_in' | 'collection' | 'pull';
+
+// The rating and estimate we had for a collection day when it was logged
+export interface RatedDay {
+  rating: Rating;
+  score: number;
+  sapYield: number; // litres per tap
+  tempLow: number | null;
+  tempHigh: number | null;
+}
+
+export interface JournalEntry {
+  id: string;
+  type: JournalEntryType;
+  date: string;          // YYYY-MM-DD
+  stand: string;         // stand name; entries are grouped by it
+  lat: number;
+  lon: number;
+  spiles: number | null; // tap_in: spiles put in
+  litres: number | null; // collection: sap collected that day
+  note: string;
+  forecast: RatedDay | null;
+}
+
+export type NewJournalEntry = Omit<JournalEntry, 'id' | 'forecast'>;
+
+export interface RatingComparison {
+  days: number;
+  litresPerTap: number;    // average actually collected
+  predictedPerTap: number; // average estimated
+}
+
+export interface StandJournal {
+  stand: string;
+  tappedOn: string | null;
+  pulledOn: string | null;
+  spiles: number;
+  totalLitres: number;
+  collectionDays: number;
+  byRating: Partial<Record<Rating, RatingComparison>>;
+}
+
+export class JournalValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JournalValidationError';
+  }
+}
+
+// A season of daily entries across a handful of stands fits comfortably in one KV value
+export const MAX_JOURNAL_ENTRIES = 1000;
+export const MAX_NOTE_LENGTH = 200;
+const MAX_SPILES = 10000;
+const MAX_LITRES = 100000;
+
+const ENTRY_TYPES: readonly JournalEntryType[] = ['tap_in', 'collection', 'pull'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ── Validation ─────────────────────────────────────────────────────────────
+
+function isValidDate(date: string): boolean {
+  return DATE_PATTERN.test(date) && new Date(date + 'T00:00:00Z').toISOString().startsWith(date);
+}
+
+export function parseJournalEntry(input: unknown): NewJournalEntry {
+  const raw = (input ?? {}) as Record<string, unknown>;
+  const { type, date, lat, lon } = raw;
+
+  if (typeof type !== 'string' || !ENTRY_TYPES.includes(type as JournalEntryType)) {
+    throw new JournalValidationError('Entry type must be tap_in, collection or pull');
+  }
+  if (typeof date !== 'string' || !isValidDate(date)) {
+    throw new JournalValidationError('Entry date must be YYYY-MM-DD');
+  }
+  if (typeof lat !== 'number' || !isFinite(lat) || lat < -90 || lat > 90) {
+    throw new JournalValidationError('Entry has an invalid lat');
+  }
+  if (typeof lon !== 'number' || !isFinite(lon) || lon < -180 || lon > 180) {
+    throw new JournalValidationError('Entry has an invalid lon');
+  }
+
+  let spiles: number | null = null;
+  if (type === 'tap_in') {
+    if (typeof raw.spiles !== 'number' || !Number.isInteger(raw.spiles) || raw.spiles < 1 || raw.spiles > MAX_SPILES) {
+      throw new JournalValidationError(`Tap-in needs a spile count between 1 and ${MAX_SPILES}`);
+    }
+    spiles = raw.spiles;
+  }
+
+  let litres: number | null = null;
+  if (type === 'collection') {
+    if (typeof raw.litres !== 'number' || !isFinite(raw.litres) || raw.litres < 0 || raw.litres > MAX_LITRES) {
+      throw new JournalValidationError(`Collection needs litres between 0 and ${MAX_LITRES}`);
+    }
+    litres = Math.round(raw.litres * 10) / 10;
+  }
+
+  const stand = typeof raw.stand === 'string' && raw.stand.trim()
+    ? raw.stand.trim().substring(0, MAX_STAND_NAME_LENGTH)
+    : 'My stand';
+  const note = typeof raw.note === 'string' ? raw.note.trim().substring(0, MAX_NOTE_LENGTH) : '';
+
+  return { type: type as JournalEntryType, date, stand, lat, lon, spiles, litres, note };
+}
+
+// ── Journal ────────────────────────────────────────────────────────────────
+
+export function addJournalEntry(entries: JournalEntry[], entry: JournalEntry): JournalEntry[] {
+  if (entries.length >= MAX_JOURNAL_ENTRIES) {
+    throw new JournalValidationError(`The journal is full (${MAX_JOURNAL_ENTRIES} entries)`);
+  }
+  return [...entries, entry].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Finds the rating for a date among scored days (forecast or replayed history)
+export function rateDay(days: ForecastDay[], date: string): RatedDay | null {
+  const day = days.find(d => d.date === date);
+  return day
+    ? { rating: day.rating, score: day.score, sapYield: day.sapYield, tempLow: day.tempLow, tempHigh: day.tempHigh }
+    : null;
+}
+
+// Each collection with the litres per tap it works out to, using the spiles
+// tapped in at that stand by then. Collections before any tap-in are left out.
+export function collectionsPerTap(entries: JournalEntry[]): { entry: JournalEntry; litresPerTap: number }[] {
+  const spiles = new Map<string, number>();
+  const collections: { entry: JournalEntry; litresPerTap: number }[] = [];
+
+  for (const entry of [...entries].sort((a, b) => a.date.localeCompare(b.date))) {
+    if (entry.type === 'tap_in') {
+      spiles.set(entry.stand, (spiles.get(entry.stand) ?? 0) + (entry.spiles ?? 0));
+    } else if (entry.type === 'collection') {
+      const tapped = spiles.get(entry.stand) ?? 0;
+      if (tapped > 0) {
+        collections.push({ entry, litresPerTap: (entry.litres ?? 0) / tapped });
+      }
+    }
+  }
+  return collections;
+}
+
+// Per stand: what was tapped and collected, and how collections compared
+// with the forecast's estimate for each rating
+export function summarizeJournal(entries: JournalEntry[]): StandJournal[] {
+  const stands = new Map<string, StandJournal>();
+
+  for (const entry of [...entries].sort((a, b) => a.date.localeCompare(b.date))) {
+    let stand = stands.get(entry.stand);
+    if (!stand) {
+      stand = {
+        stand: entry.stand,
+        tappedOn: null,
+        pulledOn: null,
+        spiles: 0,
+        totalLitres: 0,
+        collectionDays: 0,
+        byRating: {},
+      };
+      stands.set(entry.stand, stand);
+    }
+
+    if (entry.type === 'tap_in') {
+      stand.tappedOn ??= entry.date;
+      stand.spiles += entry.spiles ?? 0;
+    } else if (entry.type === 'pull') {
+      stand.pulledOn = entry.date;
+    } else {
+      stand.totalLitres += entry.litres ?? 0;
+      stand.collectionDays++;
+    }
+  }
+
+  // Only days we had a rating for
+  const totals = new Map<string, Map<Rating, { days: number; litresPerTap: number; predicted: number }>>();
+  for (const { entry, litresPerTap } of collectionsPerTap(entries)) {
+    if (!entry.forecast) continue;
+    const byRating = totals.get(entry.stand) ?? new Map();
+    const t = byRating.get(entry.forecast.rating) ?? { days: 0, litresPerTap: 0, predicted: 0 };
+    t.days++;
+    t.litresPerTap += litresPerTap;
+    t.predicted += entry.forecast.sapYield;
+    byRating.set(entry.forecast.rating, t);
+    totals.set(entry.stand, byRating);
+  }
+
+  for (const stand of stands.values()) {
+    stand.totalLitres = Math.round(stand.totalLitres * 10) / 10;
+    for (const [rating, t] of totals.get(stand.stand) ?? []) {
+      stand.byRating[rating] = {
+        days: t.days,
+        litresPerTap: Math.round(t.litresPerTap / t.days * 10) / 10,
+        predictedPerTap: Math.round(t.predicted / t.days * 10) / 10,
+      };
+    }
+  }
+
+  return [...stands.values()];
+}
@@ -0,0 +1,12 @@
+// Non-JS imports wrangler bundles: wasm as a compiled module, fonts as bytes
+// (the Data rule in wrangler.jsonc)
+
+declare module '*.wasm' {
+  const module: WebAssembly.Module;
+  export default module;
+}
+
+declare module '*.ttf' {
+  const data: ArrayBuffer;
+  export default data;
+}
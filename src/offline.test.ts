@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  offlineSpot,
+  nearestOffline,
+  offlineSpotsToPrune,
+  offlineFallback,
+  clientSource,
+  OFFLINE_POLICY,
+  SHELL_ASSETS,
+  type OfflineEntry,
+} from './offline';
+
+const NOW = Date.UTC(2026, 2, 10, 12);
+const DAY = 86400 * 1000;
+
+function entry(lat: number, lon: number, age: number): OfflineEntry {
+  return { spot: offlineSpot(lat, lon), lat, lon, savedAt: NOW - age, forecast: null };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Forecast store
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('offlineSpot', () => {
+  it('keys a spot to about a kilometre', () => {
+    expect(offlineSpot(44.2612, -72.5849)).toBe('44.26,-72.58');
+    expect(offlineSpot(44.2649, -72.58)).toBe(offlineSpot(44.2551, -72.5849));
+  });
+});
+
+describe('nearestOffline', () => {
+  const entries = [entry(44.26, -72.58, DAY), entry(44.3, -72.6, 2 * DAY), entry(46, -71, 0)];
+
+  it('finds the nearest saved forecast within the radius', () => {
+    expect(nearestOffline(entries, 44.29, -72.59, NOW, OFFLINE_POLICY)).toBe(entries[1]);
+    expect(nearestOffline(entries, 44.25, -72.58, NOW, OFFLINE_POLICY)).toBe(entries[0]);
+  });
+
+  it('returns null when nothing is close enough', () => {
+    expect(nearestOffline(entries, 45, -72.58, NOW, OFFLINE_POLICY)).toBeNull();
+    expect(nearestOffline([], 44.26, -72.58, NOW, OFFLINE_POLICY)).toBeNull();
+  });
+
+  it('skips forecasts past the maximum age', () => {
+    const old = [entry(44.26, -72.58, OFFLINE_POLICY.maxAge + 1)];
+    expect(nearestOffline(old, 44.26, -72.58, NOW, OFFLINE_POLICY)).toBeNull();
+  });
+});
+
+describe('offlineSpotsToPrune', () => {
+  const policy = { ...OFFLINE_POLICY, maxEntries: 2 };
+
+  it('keeps the store as it is while it is under the cap', () => {
+    expect(offlineSpotsToPrune([entry(44, -72, 0), entry(45, -72, DAY)], NOW, policy)).toEqual([]);
+  });
+
+  it('drops the oldest forecasts past the cap', () => {
+    const entries = [entry(44, -72, 3 * DAY), entry(45, -72, 0), entry(46, -72, 5 * DAY), entry(47, -72, DAY)];
+    expect(offlineSpotsToPrune(entries, NOW, policy)).toEqual(['44.00,-72.00', '46.00,-72.00']);
+  });
+
+  it('drops expired forecasts even under the cap', () => {
+    expect(offlineSpotsToPrune([entry(44, -72, 17 * DAY)], NOW, OFFLINE_POLICY)).toEqual(['44.00,-72.00']);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Service worker
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('offlineFallback', () => {
+  it('serves shell assets from the cache', () => {
+    expect(offlineFallback('/manifest.webmanifest', '', 'no-cors', SHELL_ASSETS)).toBe('shell');
+    expect(offlineFallback('/', '', 'navigate', SHELL_ASSETS)).toBe('shell');
+  });
+
+  it('falls back to the plain page for forecast pages', () => {
+    expect(offlineFallback('/', '?lat=44.26&lon=-72.58', 'navigate', SHELL_ASSETS)).toBe('page');
+    expect(offlineFallback('/p/05602', '', 'navigate', SHELL_ASSETS)).toBe('page');
+  });
+
+  it('leaves everything else to the network', () => {
+    expect(offlineFallback('/api/v1/forecast', '?lat=1&lon=2', 'cors', SHELL_ASSETS)).toBeNull();
+    expect(offlineFallback('/share/abcdefghijkl', '', 'navigate', SHELL_ASSETS)).toBeNull();
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Client source
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('clientSource', () => {
+  it('defines functions that run on their own in a script', () => {
+    const source = clientSource({ offlineSpot, nearestOffline, offlineSpotsToPrune });
+    const run = new Function('entries', 'policy', 'now',
+      `${source}\nreturn [offlineSpot(44.261, -72.58), nearestOffline(entries, 44.26, -72.58, now, policy), offlineSpotsToPrune(entries, now, policy)];`);
+    const entries = [entry(44.26, -72.58, 0)];
+    expect(run(entries, OFFLINE_POLICY, NOW)).toEqual(['44.26,-72.58', entries[0], []]);
+  });
+});
@@ -0,0 +1,90 @@
+// Offline — what the page keeps in IndexedDB for when there's no signal in
+// the bush, and which requests the service worker answers from its cache.
+// The page and the service worker run these same functions, spliced in with
+// clientSource(), so each one stands alone: no imports, no module names.
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface OfflineEntry {
+  spot: string;
+  lat: number;
+  lon: number;
+  savedAt: number; // ms since the epoch
+  forecast: unknown;
+}
+
+export interface OfflinePolicy {
+  radius: number;     // degrees; a GPS fix drifts between visits
+  maxEntries: number;
+  maxAge: number;     // ms
+}
+
+export type OfflineFallback = 'shell' | 'page';
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+export const OFFLINE_POLICY: OfflinePolicy = {
+  radius: 0.1,
+  // Every saved stand and a good few other spots
+  maxEntries: 25,
+  // The longest forecast runs 16 days; past that none of it is still ahead
+  maxAge: 16 * 24 * 3600 * 1000,
+};
+
+// Bump when the cached shell's assets change shape
+export const SHELL_CACHE = 'sapcast-shell-v1';
+export const SHELL_ASSETS = ['/', '/manifest.webmanifest', '/icon.svg'];
+
+// ── Forecast store ─────────────────────────────────────────────────────────
+
+// Per ~1km, finer than the forecast cell
+export function offlineSpot(lat: number, lon: number): string {
+  return lat.toFixed(2) + ',' + lon.toFixed(2);
+}
+
+// The saved forecast nearest to here, or null; expired ones don't count
+export function nearestOffline(
+  entries: OfflineEntry[],
+  lat: number,
+  lon: number,
+  now: number,
+  policy: OfflinePolicy,
+): OfflineEntry | null {
+  let best: OfflineEntry | null = null;
+  let bestDistance = policy.radius;
+  for (const entry of entries) {
+    if (now - entry.savedAt > policy.maxAge) continue;
+    const distance = Math.max(Math.abs(entry.lat - lat), Math.abs(entry.lon - lon));
+    if (distance <= bestDistance) {
+      best = entry;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+// Spots to delete: expired forecasts, then the oldest past the cap
+export function offlineSpotsToPrune(entries: OfflineEntry[], now: number, policy: OfflinePolicy): string[] {
+  const kept = entries
+    .filter(entry => now - entry.savedAt <= policy.maxAge)
+    .sort((a, b) => b.savedAt - a.savedAt)
+    .slice(0, policy.maxEntries);
+  return entries.filter(entry => !kept.includes(entry)).map(entry => entry.spot);
+}
+
+// ── Service worker ─────────────────────────────────────────────────────────
+
+// What a GET answers with when offline: a shell asset from the cache, the
+// plain page for a server-rendered forecast page, or null to leave it be
+export function offlineFallback(pathname: string, search: string, mode: string, assets: string[]): OfflineFallback | null {
+  if (assets.indexOf(pathname) !== -1 && !search) return 'shell';
+  if (mode === 'navigate' && (pathname === '/' || pathname.indexOf('/p/') === 0)) return 'page';
+  return null;
+}
+
+// ── Client source ──────────────────────────────────────────────────────────
+
+// Defines each function under its name in a page or service worker script
+export function clientSource(fns: Record<string, (...args: never[]) => unknown>): string {
+  return Object.entries(fns).map(([name, fn]) => `var ${name} = ${fn.toString()};`).join('\n');
+}
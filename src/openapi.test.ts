@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { buildOpenApiDocument, SCHEMAS, LOCATION_PARAM_DOCS } from './openapi';
+import type { Route } from './router';
+
+const handler = () => new Response();
+
+const ROUTES: Route<null>[] = [
+  {
+    path: '/api/v1/forecast',
+    methods: ['GET'],
+    handler,
+    docs: { GET: { summary: 'Forecast', parameters: LOCATION_PARAM_DOCS, response: 'ForecastResult' } },
+  },
+  {
+    path: '/api/v1/alerts',
+    methods: ['GET', 'POST'],
+    handler,
+    docs: { POST: { summary: 'Subscribe', requestBody: 'AlertRequest', response: 'Created', status: 201 } },
+  },
+  {
+    path: '/api/v1/calendar.ics',
+    methods: ['GET'],
+    handler,
+    docs: { GET: { summary: 'Feed', response: 'text/calendar' } },
+  },
+  { path: '/share/{id}', methods: ['GET'], handler, docs: { GET: { summary: 'Share', response: 'ForecastResult' } } },
+  { path: '/robots.txt', methods: ['GET'], handler },
+];
+
+type Doc = {
+  paths: Record<string, Record<string, {
+    parameters?: { name: string; in: string; required: boolean }[];
+    requestBody?: unknown;
+    responses: Record<string, { content: Record<string, { schema: unknown }> }>;
+  }>>;
+};
+
+const doc = buildOpenApiDocument(ROUTES, 'https://sapcast.ca') as unknown as Doc;
+
+function refs(value: unknown): string[] {
+  if (Array.isArray(value)) return value.flatMap(refs);
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, v]) => key === '$ref' ? [v as string] : refs(v));
+  }
+  return [];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// buildOpenApiDocument
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('buildOpenApiDocument', () => {
+  it('describes only documented methods of documented routes', () => {
+    expect(Object.keys(doc.paths)).toEqual(['/api/v1/forecast', '/api/v1/alerts', '/api/v1/calendar.ics', '/share/{id}']);
+    expect(Object.keys(doc.paths['/api/v1/alerts'])).toEqual(['post']);
+  });
+
+  it('lists query and path parameters', () => {
+    expect(doc.paths['/api/v1/forecast'].get.parameters?.map(p => [p.name, p.in, p.required])).toEqual([
+      ['lat', 'query', true],
+      ['lon', 'query', true],
+    ]);
+    expect(doc.paths['/share/{id}'].get.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+    ]);
+  });
+
+  it('uses the success status and the shared error shape', () => {
+    const responses = doc.paths['/api/v1/alerts'].post.responses;
+    expect(Object.keys(responses)).toEqual(['201', '4XX', '5XX']);
+    expect(responses['4XX'].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/Error' });
+  });
+
+  it('describes non-JSON bodies by media type', () => {
+    expect(Object.keys(doc.paths['/api/v1/calendar.ics'].get.responses['200'].content)).toEqual(['text/calendar']);
+  });
+
+  it('only refers to schemas that exist', () => {
+    const all = refs(doc).concat(refs(SCHEMAS));
+    expect(all.length).toBeGreaterThan(0);
+    for (const r of all) {
+      expect(SCHEMAS).toHaveProperty(r.replace('#/components/schemas/', ''));
+    }
+  });
+});
@@ -0,0 +1,551 @@
+// OpenAPI — builds the /api/openapi.json description from the route table,
+// so documented paths can't drift from the ones the router actually serves
+
+import type { Method, Route } from './router';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface ParameterDoc {
+  name: string;
+  description: string;
+  type?: 'string' | 'number' | 'integer';
+  required?: boolean;
+}
+
+export interface OperationDoc {
+  summary: string;
+  parameters?: ParameterDoc[]; // query parameters; path parameters are added from the route
+  requestBody?: string;        // component schema name
+  response: string;            // component schema name, or a media type for non-JSON bodies
+  status?: number;             // success status, 200 by default
+}
+
+type Schema = Record<string, unknown>;
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+const nullable = (schema: Schema): Schema => ({ oneOf: [schema, { type: 'null' }] });
+const number = { type: 'number' };
+const string = { type: 'string' };
+const date = { type: 'string', format: 'date' };
+
+// ── Shared parameters ──────────────────────────────────────────────────────
+
+export const LOCATION_PARAM_DOCS: ParameterDoc[] = [
+  { name: 'lat', description: 'Latitude in decimal degrees', type: 'number', required: true },
+  { name: 'lon', description: 'Longitude in decimal degrees', type: 'number', required: true },
+];
+
+export const PROFILE_PARAM_DOCS: ParameterDoc[] = [
+  { name: 'profile', description: 'Scoring profile preset: sugar_maple (default), red_maple, black_walnut or birch' },
+  { name: 'freeze', description: 'Override: freeze threshold (°C)', type: 'number' },
+  { name: 'thaw', description: 'Override: thaw threshold (°C)', type: 'number' },
+  { name: 'lowMin', description: 'Override: bottom of the ideal low range (°C)', type: 'number' },
+  { name: 'lowMax', description: 'Override: top of the ideal low range (°C)', type: 'number' },
+  { name: 'highMin', description: 'Override: bottom of the ideal high range (°C)', type: 'number' },
+  { name: 'highMax', description: 'Override: top of the ideal high range (°C)', type: 'number' },
+  { name: 'minScore', description: 'Override: lowest day score that counts toward a window (1–3)', type: 'integer' },
+];
+
+export const TERRAIN_PARAM_DOCS: ParameterDoc[] = [
+  { name: 'elevation', description: "The stand's elevation in metres, or auto to look it up; corrects for the forecast cell's" },
+  { name: 'aspect', description: 'Direction the slope faces: N, NE, E, SE, S, SW, W, NW or degrees; shifts daytime highs' },
+];
+
+export const RANK_PARAM_DOC: ParameterDoc = {
+  name: 'rank',
+  description: 'What makes the best window: length (default), score or yield; each weighs far-out days by confidence',
+};
+
+export const LANG_PARAM_DOC: ParameterDoc = {
+  name: 'lang',
+  description: 'Language for messages: en or fr-CA (any fr or en tag works); defaults to the Accept-Language header, then en',
+};
+
+// ── Schemas ────────────────────────────────────────────────────────────────
+
+export const SCHEMAS: Record<string, Schema> = {
+  Error: {
+    type: 'object',
+    description: 'Every API error has this shape, with a 4xx or 5xx status',
+    required: ['error'],
+    properties: { error: string },
+  },
+  Rating: { type: 'string', enum: ['excellent', 'good', 'fair', 'poor', 'unknown'] },
+  RecommendationType: { type: 'string', enum: ['tap_now', 'upcoming', 'no_window', 'season_over', 'too_cold', 'pull_taps'] },
+  MessageRef: {
+    type: 'object',
+    description: 'A message by code, with the values it is worded from; dates are ISO days',
+    required: ['code', 'params'],
+    properties: { code: string, params: { type: 'object' } },
+  },
+  RecommendedWindow: {
+    type: 'object',
+    required: ['quality', 'startOffset', 'length', 'singleDay'],
+    properties: {
+      quality: { type: 'string', enum: ['excellent', 'good'] },
+      startOffset: { type: 'integer', description: 'Days from today; 0 is today' },
+      length: { type: 'integer', description: 'Days' },
+      singleDay: { type: 'boolean', description: 'Too short to tap for, so the call is no_window' },
+    },
+  },
+  Recommendation: {
+    type: 'object',
+    required: ['type', 'message'],
+    properties: {
+      type: ref('RecommendationType'),
+      code: { ...string, description: 'Message code, e.g. rec.tap_now' },
+      params: { type: 'object' },
+      window: { ...nullable(ref('RecommendedWindow')), description: 'The window the call is about' },
+      reason: {
+        ...nullable({ type: 'string', enum: ['no_freeze', 'no_thaw'] }),
+        description: 'Why season_over (no_freeze) or too_cold (no_thaw)',
+      },
+      notes: { type: 'array', items: ref('MessageRef'), description: 'Ground and sky notes after the call' },
+      message: { ...string, description: 'The call and its notes, worded in the requested language' },
+    },
+  },
+  CurrentConditions: {
+    type: 'object',
+    required: ['temperature', 'summary', 'icon'],
+    properties: { temperature: nullable(number), summary: string, icon: string },
+  },
+  HourlyDetail: {
+    type: 'object',
+    required: ['hoursBelowFreeze', 'hoursAboveThaw', 'thawAt', 'refreezeAt'],
+    properties: {
+      hoursBelowFreeze: { type: 'integer' },
+      hoursAboveThaw: { type: 'integer' },
+      thawAt: { ...nullable({ type: 'integer' }), description: 'Unix seconds' },
+      refreezeAt: { ...nullable({ type: 'integer' }), description: 'Unix seconds' },
+    },
+  },
+  ForecastDay: {
+    type: 'object',
+    required: [
+      'date', 'tempHigh', 'tempLow', 'summary', 'icon', 'rating', 'score', 'sapYield', 'confidence',
+      'precipType', 'snowfall', 'cloudCover',
+    ],
+    properties: {
+      date,
+      tempHigh: nullable(number),
+      tempLow: nullable(number),
+      summary: string,
+      icon: string,
+      rating: ref('Rating'),
+      score: { type: 'integer', minimum: 0, maximum: 3 },
+      sapYield: { ...number, description: 'Estimated litres of sap per tap' },
+      confidence: { ...number, minimum: 0, maximum: 1, description: 'Forecast confidence, falling with lead time' },
+      precipType: nullable({ type: 'string', enum: ['rain', 'snow', 'sleet'] }),
+      snowfall: { ...number, description: 'New snow in cm' },
+      cloudCover: { ...nullable(number), description: 'Fraction of the sky covered, 0–1' },
+      hourly: ref('HourlyDetail'),
+    },
+  },
+  BestWindow: {
+    type: 'object',
+    required: ['startDate', 'endDate', 'length', 'avgScore', 'totalYield', 'confidence'],
+    properties: {
+      startDate: date,
+      endDate: date,
+      length: { type: 'integer' },
+      avgScore: number,
+      totalYield: { ...number, description: 'Estimated litres of sap per tap' },
+      confidence: { ...number, minimum: 0, maximum: 1, description: 'Average confidence of the window days' },
+    },
+  },
+  SeasonInfo: {
+    type: 'object',
+    required: ['tapByDate', 'seasonEndDate', 'message'],
+    properties: { tapByDate: date, seasonEndDate: date, message: string },
+  },
+  ScoringProfile: {
+    type: 'object',
+    required: [
+      'id', 'name', 'freezeThreshold', 'thawThreshold', 'idealLowMin', 'idealLowMax', 'idealHighMin', 'idealHighMax',
+      'minWindowScore', 'budBreakGdd',
+    ],
+    properties: {
+      id: string,
+      name: string,
+      freezeThreshold: number,
+      thawThreshold: number,
+      idealLowMin: number,
+      idealLowMax: number,
+      idealHighMin: number,
+      idealHighMax: number,
+      minWindowScore: { type: 'integer', enum: [1, 2, 3] },
+      budBreakGdd: { ...number, description: 'Growing degree days since Jan 1 at which sap turns buddy' },
+    },
+  },
+  BudBreakEstimate: {
+    type: 'object',
+    required: ['gdd', 'forecastGdd', 'target', 'date', 'daysUntil', 'recordedDays'],
+    properties: {
+      gdd: { ...number, description: 'Growing degree days (base 5°C) since Jan 1 through today' },
+      forecastGdd: { ...number, description: 'The same total through the end of the forecast' },
+      target: number,
+      date: { ...nullable(date), description: 'First day at or past the target, if within the data' },
+      daysUntil: nullable({ type: 'integer' }),
+      recordedDays: { type: 'integer', description: 'Archived days before today included in the total' },
+    },
+  },
+  TerrainResult: {
+    type: 'object',
+    description: 'Correction applied to every day; temperatures in the forecast already include it',
+    required: ['low', 'high', 'elevation', 'referenceElevation', 'aspect'],
+    properties: {
+      low: { ...number, description: '°C added to daily lows' },
+      high: { ...number, description: '°C added to daily highs' },
+      elevation: { ...nullable(number), description: 'Stand elevation in metres' },
+      referenceElevation: { ...nullable(number), description: 'Forecast cell elevation in metres' },
+      aspect: { ...nullable(number), description: 'Compass degrees the slope faces' },
+    },
+  },
+  ForecastResult: {
+    type: 'object',
+    required: [
+      'current', 'today', 'days', 'bestWindow', 'windows', 'rankedBy', 'recommendation',
+      'seasonInfo', 'budBreak', 'terrain', 'profile', 'locale', 'timezone', 'utcOffset', 'cached', 'fetchedAt', 'stale',
+    ],
+    properties: {
+      current: ref('CurrentConditions'),
+      today: nullable(ref('ForecastDay')),
+      days: { type: 'array', items: ref('ForecastDay') },
+      bestWindow: { ...nullable(ref('BestWindow')), description: 'The first of windows' },
+      windows: { type: 'array', items: ref('BestWindow'), description: 'Every run of favorable days, best first' },
+      rankedBy: { type: 'string', enum: ['length', 'score', 'yield'] },
+      recommendation: ref('Recommendation'),
+      seasonInfo: nullable(ref('SeasonInfo')),
+      budBreak: nullable(ref('BudBreakEstimate')),
+      terrain: nullable(ref('TerrainResult')),
+      profile: ref('ScoringProfile'),
+      locale: { type: 'string', enum: ['en', 'fr-CA'], description: 'Language of the messages' },
+      timezone: { ...nullable(string), description: "The location's IANA timezone; dates and today are local to it" },
+      utcOffset: { ...nullable({ type: 'integer' }), description: 'Seconds east of UTC when the forecast was made' },
+      cached: { type: 'boolean' },
+      fetchedAt: { ...nullable({ type: 'string', format: 'date-time' }), description: 'When the weather provider was asked' },
+      stale: { type: 'boolean', description: 'Over 3 hours old: a refresh is under way, or the provider is down' },
+    },
+  },
+  Location: {
+    type: 'object',
+    required: ['lat', 'lon'],
+    properties: {
+      id: string,
+      name: string,
+      lat: number,
+      lon: number,
+      elevation: { oneOf: [number, { ...string, enum: ['auto'] }], description: 'Stand elevation in metres, or auto to look it up' },
+      aspect: { oneOf: [number, string], description: 'Direction the slope faces: a compass point or degrees' },
+    },
+  },
+  BatchRequest: {
+    type: 'object',
+    required: ['locations'],
+    description: 'profile and the threshold overrides are those /api/forecast takes as query parameters',
+    properties: {
+      locations: { type: 'array', items: ref('Location'), maxItems: 10 },
+      profile: string,
+      freeze: number,
+      thaw: number,
+      lowMin: number,
+      lowMax: number,
+      highMin: number,
+      highMax: number,
+      minScore: { type: 'integer' },
+    },
+  },
+  BatchResult: {
+    type: 'object',
+    required: ['results'],
+    properties: {
+      results: {
+        type: 'array',
+        items: {
+          allOf: [ref('Location')],
+          properties: { forecast: ref('ForecastResult'), error: string },
+        },
+      },
+    },
+  },
+  GeocodeResult: {
+    type: 'object',
+    required: ['lat', 'lon', 'placeName', 'state', 'country', 'label', 'cached'],
+    properties: {
+      lat: number,
+      lon: number,
+      placeName: string,
+      state: string,
+      country: { ...string, description: 'ISO 3166-1 alpha-2, lower case' },
+      label: { ...string, description: 'e.g. Montpelier, VT' },
+      cached: { type: 'boolean' },
+    },
+  },
+  Place: {
+    type: 'object',
+    required: ['name', 'region', 'country', 'countryCode', 'lat', 'lon', 'label'],
+    properties: {
+      name: string,
+      region: string,
+      country: string,
+      countryCode: string,
+      lat: number,
+      lon: number,
+      label: string,
+    },
+  },
+  PlaceSearchResult: {
+    type: 'object',
+    required: ['places', 'cached'],
+    properties: { places: { type: 'array', items: ref('Place'), maxItems: 5 }, cached: { type: 'boolean' } },
+  },
+  ReverseGeocodeResult: {
+    type: 'object',
+    required: ['place', 'cached'],
+    properties: { place: nullable(ref('Place')), cached: { type: 'boolean' } },
+  },
+  StandList: {
+    type: 'object',
+    required: ['stands'],
+    properties: { stands: { type: 'array', items: ref('Location'), maxItems: 10 } },
+  },
+  HistoryResult: {
+    type: 'object',
+    required: ['seasons', 'profile'],
+    properties: {
+      seasons: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            year: { type: 'integer' },
+            days: { type: 'array', items: ref('ForecastDay') },
+            sapDays: { type: 'integer' },
+            totalYield: number,
+            firstSapDay: nullable(date),
+            lastSapDay: nullable(date),
+            predicted: ref('SeasonInfo'),
+          },
+        },
+      },
+      profile: ref('ScoringProfile'),
+    },
+  },
+  JournalEntry: {
+    type: 'object',
+    required: ['type', 'date', 'lat', 'lon'],
+    properties: {
+      id: { ...string, readOnly: true },
+      type: { type: 'string', enum: ['tap_in', 'collection', 'pull'] },
+      date,
+      stand: string,
+      lat: number,
+      lon: number,
+      spiles: nullable({ type: 'integer' }),
+      litres: nullable(number),
+      note: string,
+      forecast: { ...nullable({ type: 'object' }), readOnly: true, description: "The day's rating when logged" },
+    },
+  },
+  JournalEntryResult: {
+    type: 'object',
+    required: ['entry'],
+    properties: { entry: ref('JournalEntry') },
+  },
+  Journal: {
+    type: 'object',
+    required: ['entries', 'summary'],
+    properties: {
+      entries: { type: 'array', items: ref('JournalEntry') },
+      summary: { type: 'array', items: { type: 'object' } },
+    },
+  },
+  CalibrationRequest: {
+    type: 'object',
+    required: ['records'],
+    properties: {
+      records: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['tempLow', 'tempHigh', 'volume'],
+          properties: { tempLow: number, tempHigh: number, volume: number },
+        },
+      },
+      profile: string,
+    },
+  },
+  CalibrationResult: {
+    type: 'object',
+    required: ['profile', 'report'],
+    properties: {
+      profile: ref('ScoringProfile'),
+      report: {
+        type: 'object',
+        properties: {
+          days: { type: 'integer' },
+          flowDays: { type: 'integer' },
+          weight: number,
+          changes: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { threshold: string, before: number, after: number, change: number },
+            },
+          },
+        },
+      },
+    },
+  },
+  AlertRequest: {
+    type: 'object',
+    required: ['lat', 'lon', 'channel'],
+    properties: {
+      name: string,
+      lat: number,
+      lon: number,
+      profile: string,
+      channel: {
+        oneOf: [
+          { type: 'object', required: ['type', 'url'], properties: { type: { const: 'webhook' }, url: string } },
+          {
+            type: 'object',
+            required: ['type', 'endpoint', 'keys'],
+            properties: {
+              type: { const: 'webpush' },
+              endpoint: string,
+              keys: { type: 'object', properties: { p256dh: string, auth: string } },
+            },
+          },
+        ],
+      },
+    },
+  },
+  AlertSubscription: {
+    type: 'object',
+    required: ['id', 'name', 'lat', 'lon', 'profile', 'channel', 'lastType', 'createdAt'],
+    properties: {
+      id: string,
+      name: string,
+      lat: number,
+      lon: number,
+      profile: string,
+      channel: { type: 'object', description: 'Delivery details are not returned', properties: { type: { type: 'string', enum: ['webhook', 'webpush'] } } },
+      lastType: nullable(ref('RecommendationType')),
+      createdAt: { type: 'string', format: 'date-time' },
+    },
+  },
+  WidgetData: {
+    type: 'object',
+    required: ['lat', 'lon', 'name', 'recommendation', 'bestWindow', 'days', 'url'],
+    properties: {
+      lat: number,
+      lon: number,
+      name: string,
+      recommendation: ref('Recommendation'),
+      bestWindow: nullable({
+        type: 'object',
+        required: ['startDate', 'endDate', 'length'],
+        properties: { startDate: date, endDate: date, length: { type: 'integer' } },
+      }),
+      days: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['date', 'rating', 'tempLow', 'tempHigh'],
+          properties: { date, rating: ref('Rating'), tempLow: nullable(number), tempHigh: nullable(number) },
+        },
+      },
+      url: { type: 'string', format: 'uri', description: 'The full forecast on Sapcast' },
+    },
+  },
+  ShareRequest: {
+    type: 'object',
+    properties: { label: { type: 'string', maxLength: 60, description: 'Place name shown on the card; coordinates when omitted' } },
+  },
+  ShareCreated: {
+    type: 'object',
+    required: ['id', 'url', 'image'],
+    properties: {
+      id: string,
+      url: { type: 'string', format: 'uri', description: 'Page showing the snapshot' },
+      image: { type: 'string', format: 'uri', description: 'PNG card used as its og:image; the same card as SVG is at /og/{id}.svg' },
+    },
+  },
+  ShareSnapshot: {
+    type: 'object',
+    required: ['id', 'lat', 'lon', 'label', 'createdAt', 'forecast'],
+    properties: {
+      id: string,
+      lat: number,
+      lon: number,
+      label: string,
+      createdAt: { type: 'string', format: 'date-time' },
+      locale: { type: 'string', enum: ['en', 'fr-CA'], description: 'Language it was shared in; missing on older links' },
+      forecast: ref('ForecastResult'),
+    },
+  },
+  Created: { type: 'object', required: ['id'], properties: { id: string } },
+  Deleted: { type: 'object', required: ['deleted'], properties: { deleted: { const: true } } },
+  VapidKey: { type: 'object', required: ['publicKey'], properties: { publicKey: string } },
+};
+
+// ── Document ───────────────────────────────────────────────────────────────
+
+function pathParams(path: string): string[] {
+  return [...path.matchAll(/\{([A-Za-z]+)\}/g)].map(m => m[1]);
+}
+
+function operation(path: string, doc: OperationDoc): Schema {
+  const parameters = [
+    ...pathParams(path).map(name => ({ name, in: 'path', required: true, schema: string })),
+    ...(doc.parameters ?? []).map(p => ({
+      name: p.name,
+      in: 'query',
+      description: p.description,
+      required: p.required ?? false,
+      schema: { type: p.type ?? 'string' },
+    })),
+  ];
+
+  // A response naming a media type (e.g. text/calendar) is a plain body
+  const content = doc.response.includes('/')
+    ? { [doc.response]: { schema: string } }
+    : { 'application/json': { schema: ref(doc.response) } };
+
+  return {
+    summary: doc.summary,
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(doc.requestBody ? {
+      requestBody: { required: true, content: { 'application/json': { schema: ref(doc.requestBody) } } },
+    } : {}),
+    responses: {
+      [String(doc.status ?? 200)]: { description: 'Success', content },
+      '4XX': { description: 'Invalid request', content: { 'application/json': { schema: ref('Error') } } },
+      '5XX': { description: 'Server or upstream weather error', content: { 'application/json': { schema: ref('Error') } } },
+    },
+  };
+}
+
+export function buildOpenApiDocument<E>(routes: Route<E>[], serverUrl: string): Schema {
+  const paths: Record<string, Record<string, Schema>> = {};
+  for (const route of routes) {
+    if (!route.docs) continue;
+    for (const [method, doc] of Object.entries(route.docs) as [Method, OperationDoc][]) {
+      paths[route.path] ??= {};
+      paths[route.path][method.toLowerCase()] = operation(route.path, doc);
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Sapcast API',
+      version: '1.0.0',
+      description: 'Maple sap flow forecasts from freeze-thaw cycles. Unversioned /api/... paths are aliases of /api/v1/....',
+    },
+    servers: [{ url: serverUrl }],
+    paths,
+    components: { schemas: SCHEMAS },
+  };
+}
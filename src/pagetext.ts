@@ -0,0 +1,836 @@
+// Page text — the words on the page, per locale. UiText is shared by the
+// server-rendered fragments and the page script (which gets it as JSON);
+// PageText is the static page around them. Strings are HTML: they're
+// written here, never taken from a request.
+
+import { intlTag, type Locale, type PluralForms } from './i18n';
+import type { ConfidenceLevel, Rating, WindowQuality } from './scoring';
+
+// ── Shared with the page script ────────────────────────────────────────────
+
+export interface UiText {
+  ratings: Record<Rating, string>;
+  confidence: Record<ConfidenceLevel, string>;
+  windowQuality: Record<WindowQuality, string>;
+  startsIn: PluralForms;
+  hours: string;
+  favorableDays: PluralForms;
+  sapFromTaps: PluralForms;
+  otherWindows: string;
+  dayCount: PluralForms;
+  forecastTitle: string;
+  tapBy: string;
+  seasonEnd: string;
+  gddTitle: string;
+  gdd: string;
+  gddProgress: string;
+  budBreak: string;
+  budBreakNow: string;
+  bestWindow: string;
+  noWindow: string;
+  sharedFrom: string;
+  seeLatest: string;
+  sharedOn: string;
+  embedTitle: string;
+  embedHeading: string;
+  fullForecast: string;
+  loading: string;
+  offlineAsOf: string;
+  updatedAgo: string;
+  removeStand: string;
+  standsError: string;
+  standsLimit: string;
+  standNamePrompt: string;
+  standDefaultName: string;
+  saveStandFirst: string;
+  shareStandsError: string;
+  standsShared: string;
+  loadStandsError: string;
+  standsLoaded: PluralForms;
+  alertsError: string;
+  notificationsUnsupported: string;
+  notificationsUnavailable: string;
+  terrainShift: string;
+  terrainElevation: string;
+  enterElevation: string;
+  sapDays: PluralForms;
+  noSapDays: string;
+  seasonRuns: string;
+  predicted: string;
+  bestRunSoFar: string;
+  entryTypes: { tap_in: string; collection: string; pull: string };
+  spiles: string;
+  spilesSince: string;
+  collectedOver: PluralForms;
+  pulledOn: string;
+  ratingDays: string;
+  remove: string;
+  logError: string;
+  thresholds: {
+    freezeThreshold: string;
+    thawThreshold: string;
+    idealLowMin: string;
+    idealLowMax: string;
+    idealHighMin: string;
+    idealHighMax: string;
+  };
+  calibratedProfile: string;
+  calibrationFitted: string;
+  useThresholds: string;
+  calibrationFailed: string;
+  permissionIos: string;
+  permissionAndroid: string;
+  permissionOther: string;
+  havingTrouble: string;
+  detecting: string;
+  fetching: string;
+  noConnection: string;
+  forecastError: string;
+  geoUnsupported: string;
+  geoDenied: string;
+  geoUnavailable: string;
+  geoTimeout: string;
+  geoFailed: string;
+  creatingLink: string;
+  linkError: string;
+  shareTitle: string;
+  linkCopied: string;
+  staleBanner: string;
+  noPlaces: string;
+  noPlacesCalled: string;
+  placeSearchError: string;
+  lookingUp: string;
+  postalNotFound: string;
+  postalError: string;
+}
+
+const INLINE_STRONG = '<strong style="display:inline;color:inherit;">';
+
+const UI_EN: UiText = {
+  ratings: { excellent: 'Excellent', good: 'Good', fair: 'Fair', poor: 'Poor', unknown: 'Unknown' },
+  confidence: { high: 'high confidence', medium: 'medium confidence', low: 'low confidence' },
+  windowQuality: { excellent: 'Excellent window', good: 'Good window' },
+  startsIn: { one: 'starts tomorrow', other: 'starts in {n} days' },
+  hours: '{frozen}h frozen · {thawed}h thawed',
+  favorableDays: { one: '{n} day of favorable conditions', other: '{n} days of favorable conditions' },
+  sapFromTaps: { one: '≈ {volume} of sap from {n} tap', other: '≈ {volume} of sap from {n} taps' },
+  otherWindows: 'Also: {windows}',
+  dayCount: { one: '{n} day', other: '{n} days' },
+  forecastTitle: '{n}-Day Forecast',
+  tapBy: 'Tap by:',
+  seasonEnd: 'Season end:',
+  gddTitle: 'Growing degree days above 5°C since Jan 1; buds swell around {target}',
+  gdd: 'Growing degree days:',
+  gddProgress: '{gdd} of ~{target}',
+  budBreak: 'Bud break:',
+  budBreakNow: 'now',
+  bestWindow: 'Best window: {dates}',
+  noWindow: 'No tapping window in this forecast',
+  sharedFrom: 'Shared forecast from {date}.',
+  seeLatest: 'See the latest',
+  sharedOn: 'Forecast shared {date}',
+  embedTitle: 'Sap conditions — {name}',
+  embedHeading: 'Sap conditions this week',
+  fullForecast: 'Full forecast on Sapcast →',
+  loading: 'Loading…',
+  offlineAsOf: 'Offline · as of {time}',
+  updatedAgo: 'Updated {ago}',
+  removeStand: 'Remove {name}',
+  standsError: 'Failed to load stands',
+  standsLimit: 'You can save up to 10 stands.',
+  standNamePrompt: 'Name this stand',
+  standDefaultName: 'Stand {n}',
+  saveStandFirst: 'Save a stand first.',
+  shareStandsError: 'Could not share stands',
+  standsShared: 'Shared — give your crew this code.',
+  loadStandsError: 'Could not load stands',
+  standsLoaded: { one: 'Loaded {n} stand.', other: 'Loaded {n} stands.' },
+  alertsError: 'Could not set up alerts',
+  notificationsUnsupported: 'Notifications aren’t supported in this browser. Try a webhook instead.',
+  notificationsUnavailable: 'Browser notifications aren’t available right now.',
+  terrainShift: 'Lows {low}, highs {high}',
+  terrainElevation: ' for {elevation} m, against {reference} m for the forecast cell',
+  enterElevation: 'Enter the elevation in metres.',
+  sapDays: { one: '{n} sap day', other: '{n} sap days' },
+  noSapDays: '0 sap days recorded',
+  seasonRuns: 'runs {from} – {to}',
+  predicted: 'Predicted for your latitude: tap by {tapBy}, season ends ~{seasonEnd}.',
+  bestRunSoFar: ' Best run so far: {dates} ({days}).',
+  entryTypes: { tap_in: 'Tapped in', collection: 'Collected', pull: 'Pulled taps' },
+  spiles: '{n} spiles',
+  spilesSince: '{n} spiles since {date}',
+  collectedOver: { one: '{volume} over {n} day', other: '{volume} over {n} days' },
+  pulledOn: 'pulled {date}',
+  ratingDays: '{rating} days: {actual}/tap (forecast {predicted})',
+  remove: 'Remove',
+  logError: 'Could not log entry',
+  thresholds: {
+    freezeThreshold: 'Freeze below',
+    thawThreshold: 'Thaw above',
+    idealLowMin: 'Ideal low from',
+    idealLowMax: 'Ideal low to',
+    idealHighMin: 'Ideal high from',
+    idealHighMax: 'Ideal high to',
+  },
+  calibratedProfile: 'Calibrated',
+  calibrationFitted: 'Fitted from {n} days with sap (moved {percent}% of the way toward your log):',
+  useThresholds: 'Use these thresholds',
+  calibrationFailed: 'Calibration failed',
+  permissionIos: `On iPhone or iPad, go to ${INLINE_STRONG}Settings → Privacy &amp; Security → Location Services</strong> `
+    + 'and make sure your browser can access your location. '
+    + '<a href="https://support.apple.com/en-ca/102647" target="_blank" rel="noopener">Apple support article →</a>',
+  permissionAndroid: 'On Android, tap the lock icon in your browser’s address bar and allow Location, or go to '
+    + `${INLINE_STRONG}Settings → Location</strong> and make sure it’s enabled. `
+    + '<a href="https://support.google.com/accounts/answer/3467281?hl=en" target="_blank" rel="noopener">Google support article →</a>',
+  permissionOther: 'Check your browser’s address bar for a location permission prompt, or look in your browser settings '
+    + 'to allow location access for this site.',
+  havingTrouble: 'Having trouble?',
+  detecting: 'Detecting your location...',
+  fetching: 'Fetching forecast...',
+  noConnection: 'No connection, and no saved forecast for this spot yet.',
+  forecastError: 'Failed to load forecast',
+  geoUnsupported: 'Geolocation is not supported by your browser.',
+  geoDenied: 'Location permission denied. Please allow location access and try again.',
+  geoUnavailable: 'Location unavailable. Please try again.',
+  geoTimeout: 'Location request timed out. Please try again.',
+  geoFailed: 'Could not detect your location.',
+  creatingLink: 'Creating link…',
+  linkError: 'Could not create a link',
+  shareTitle: 'Sapcast forecast',
+  linkCopied: 'Link copied: {url}',
+  staleBanner: 'No connection — this forecast is stale as of {time}. It will refresh when you are back online.',
+  noPlaces: 'No places found',
+  noPlacesCalled: 'No places called {query} were found.',
+  placeSearchError: 'Could not search for that place.',
+  lookingUp: 'Looking up postal code...',
+  postalNotFound: 'Postal code not found',
+  postalError: 'Could not look up that postal code.',
+};
+
+const UI_FR_CA: UiText = {
+  ratings: { excellent: 'Excellent', good: 'Bon', fair: 'Moyen', poor: 'Faible', unknown: 'Inconnu' },
+  confidence: { high: 'confiance élevée', medium: 'confiance moyenne', low: 'confiance faible' },
+  windowQuality: { excellent: 'Excellente période', good: 'Bonne période' },
+  startsIn: { one: 'commence demain', other: 'commence dans {n} jours' },
+  hours: '{frozen} h de gel · {thawed} h de dégel',
+  favorableDays: { one: '{n} jour de conditions favorables', other: '{n} jours de conditions favorables' },
+  sapFromTaps: { one: '≈ {volume} de sève pour {n} entaille', other: '≈ {volume} de sève pour {n} entailles' },
+  otherWindows: 'Aussi : {windows}',
+  dayCount: { one: '{n} jour', other: '{n} jours' },
+  forecastTitle: 'Prévisions sur {n} jours',
+  tapBy: 'Entailler d’ici le :',
+  seasonEnd: 'Fin de saison :',
+  gddTitle: 'Degrés-jours de croissance au-dessus de 5 °C depuis le 1er janvier; les bourgeons gonflent vers {target}',
+  gdd: 'Degrés-jours de croissance :',
+  gddProgress: '{gdd} sur ~{target}',
+  budBreak: 'Débourrement :',
+  budBreakNow: 'maintenant',
+  bestWindow: 'Meilleure période : {dates}',
+  noWindow: 'Aucune période d’entaillage dans ces prévisions',
+  sharedFrom: 'Prévisions partagées le {date} —',
+  seeLatest: 'Voir les plus récentes',
+  sharedOn: 'Prévisions partagées le {date}',
+  embedTitle: 'Conditions de coulée — {name}',
+  embedHeading: 'Conditions de coulée cette semaine',
+  fullForecast: 'Prévisions complètes sur Sapcast →',
+  loading: 'Chargement…',
+  offlineAsOf: 'Hors ligne · en date de {time}',
+  updatedAgo: 'Mis à jour {ago}',
+  removeStand: 'Retirer {name}',
+  standsError: 'Impossible de charger les érablières',
+  standsLimit: 'Vous pouvez enregistrer jusqu’à 10 érablières.',
+  standNamePrompt: 'Nommez cette érablière',
+  standDefaultName: 'Érablière {n}',
+  saveStandFirst: 'Enregistrez d’abord une érablière.',
+  shareStandsError: 'Impossible de partager les érablières',
+  standsShared: 'Partagé — donnez ce code à votre équipe.',
+  loadStandsError: 'Impossible de charger les érablières',
+  standsLoaded: { one: '{n} érablière chargée.', other: '{n} érablières chargées.' },
+  alertsError: 'Impossible d’activer les alertes',
+  notificationsUnsupported: 'Ce navigateur ne prend pas en charge les notifications. Essayez plutôt un webhook.',
+  notificationsUnavailable: 'Les notifications du navigateur ne sont pas disponibles pour le moment.',
+  terrainShift: 'Minimums {low}, maximums {high}',
+  terrainElevation: ' pour {elevation} m, contre {reference} m pour la cellule de prévision',
+  enterElevation: 'Entrez l’altitude en mètres.',
+  sapDays: { one: '{n} jour de coulée', other: '{n} jours de coulée' },
+  noSapDays: 'Aucun jour de coulée enregistré',
+  seasonRuns: 'du {from} au {to}',
+  predicted: 'Prévu pour votre latitude : entailler d’ici le {tapBy} (fin de saison vers le {seasonEnd})',
+  bestRunSoFar: ' Meilleure séquence jusqu’ici : {dates} ({days}).',
+  entryTypes: { tap_in: 'Entaillé', collection: 'Récolté', pull: 'Chalumeaux retirés' },
+  spiles: '{n} chalumeaux',
+  spilesSince: '{n} chalumeaux depuis le {date}',
+  collectedOver: { one: '{volume} en {n} jour', other: '{volume} en {n} jours' },
+  pulledOn: 'retirés le {date}',
+  ratingDays: 'Jours « {rating} » : {actual}/entaille (prévu {predicted})',
+  remove: 'Retirer',
+  logError: 'Impossible d’ajouter l’entrée',
+  thresholds: {
+    freezeThreshold: 'Gel sous',
+    thawThreshold: 'Dégel au-dessus de',
+    idealLowMin: 'Minimum idéal de',
+    idealLowMax: 'Minimum idéal à',
+    idealHighMin: 'Maximum idéal de',
+    idealHighMax: 'Maximum idéal à',
+  },
+  calibratedProfile: 'Calibré',
+  calibrationFitted: 'Ajusté sur {n} jours de coulée (à {percent} % du chemin vers votre journal) :',
+  useThresholds: 'Utiliser ces seuils',
+  calibrationFailed: 'Échec de la calibration',
+  permissionIos: `Sur iPhone ou iPad, allez dans ${INLINE_STRONG}Réglages → Confidentialité et sécurité → Service de localisation</strong> `
+    + 'et assurez-vous que votre navigateur peut accéder à votre position. '
+    + '<a href="https://support.apple.com/fr-ca/102647" target="_blank" rel="noopener">Article d’assistance Apple →</a>',
+  permissionAndroid: 'Sur Android, touchez l’icône de cadenas dans la barre d’adresse du navigateur et autorisez la localisation, '
+    + `ou allez dans ${INLINE_STRONG}Paramètres → Localisation</strong> et assurez-vous qu’elle est activée. `
+    + '<a href="https://support.google.com/accounts/answer/3467281?hl=fr" target="_blank" rel="noopener">Article d’assistance Google →</a>',
+  permissionOther: 'Cherchez une demande d’autorisation de localisation dans la barre d’adresse du navigateur, '
+    + 'ou autorisez l’accès à votre position pour ce site dans les paramètres du navigateur.',
+  havingTrouble: 'Un problème?',
+  detecting: 'Détection de votre position…',
+  fetching: 'Chargement des prévisions…',
+  noConnection: 'Pas de connexion, et aucune prévision enregistrée pour cet endroit.',
+  forecastError: 'Impossible de charger les prévisions',
+  geoUnsupported: 'Votre navigateur ne prend pas en charge la géolocalisation.',
+  geoDenied: 'Accès à la position refusé. Autorisez l’accès à votre position et réessayez.',
+  geoUnavailable: 'Position non disponible. Veuillez réessayer.',
+  geoTimeout: 'La demande de position a expiré. Veuillez réessayer.',
+  geoFailed: 'Impossible de détecter votre position.',
+  creatingLink: 'Création du lien…',
+  linkError: 'Impossible de créer un lien',
+  shareTitle: 'Prévisions Sapcast',
+  linkCopied: 'Lien copié : {url}',
+  staleBanner: 'Pas de connexion — ces prévisions sont en date de {time}. Elles seront mises à jour à votre retour en ligne.',
+  noPlaces: 'Aucun endroit trouvé',
+  noPlacesCalled: 'Aucun endroit nommé {query} n’a été trouvé.',
+  placeSearchError: 'Impossible de chercher cet endroit.',
+  lookingUp: 'Recherche du code postal…',
+  postalNotFound: 'Code postal introuvable',
+  postalError: 'Impossible de trouver ce code postal.',
+};
+
+export const UI_TEXT: Record<Locale, UiText> = { en: UI_EN, 'fr-CA': UI_FR_CA };
+
+// ── Static page ────────────────────────────────────────────────────────────
+
+export interface PageText {
+  title: string;
+  description: string;     // og and twitter, when no forecast is rendered
+  metaDescription: string; // search results
+  tagline: string;
+  treeSpecies: string;
+  profiles: { sugar_maple: string; red_maple: string; black_walnut: string; birch: string };
+  standsTitle: string;
+  saveStand: string;
+  crewCode: string;
+  share: string;
+  load: string;
+  forecastHeading: string;
+  noscriptTitle: string;
+  noscriptBody: string;
+  locationTrouble: string;
+  postalDivider: string;
+  postalDividerError: string;
+  postalPlaceholder: string;
+  postalLabel: string;
+  country: string;
+  go: string;
+  tryAgain: string;
+  mapTitle: string;
+  bestWindowTitle: string;
+  yourTaps: string;
+  alertsSummary: string;
+  browserNotifications: string;
+  webhookPlaceholder: string;
+  webhookLabel: string;
+  addWebhook: string;
+  alertsOn: string;
+  stopAlerts: string;
+  terrainSummary: string;
+  elevationPlaceholder: string;
+  elevationLabel: string;
+  lookUp: string;
+  aspectLabel: string;
+  aspects: { flat: string; N: string; NE: string; E: string; SE: string; S: string; SW: string; W: string; NW: string };
+  apply: string;
+  calendarLink: string;
+  shareForecast: string;
+  seasonTimingTitle: string;
+  historyTitle: string;
+  journalTitle: string;
+  entryType: string;
+  date: string;
+  standName: string;
+  litres: string;
+  litresCollected: string;
+  spiles: string;
+  log: string;
+  calibrate: string;
+  feedbackToggle: string;
+  feedbackCallout: string;
+  feedbackPrompt: string;
+  feedbackYes: string;
+  feedbackNo: string;
+  feedbackComment: string;
+  feedbackSend: string;
+  feedbackThanks: string;
+  feedbackChange: string;
+  howItWorks: string; // the whole card, headings included
+  tappingGuides: string;
+  sourcesTitle: string;
+  sourceNotes: { proctor: string; cornell: string; massMaple: string; umaine: string };
+  weatherCredit: string;
+  builtBy: string;
+}
+
+const PAGE_EN: PageText = {
+  title: 'Sapcast — Maple Sap Tapping Forecast',
+  description: 'Analyze 7-day freeze-thaw cycles to find the best days for tapping sugar maple trees. Free, location-based forecast.',
+  metaDescription: 'Free maple sap tapping forecast. Uses your location and 7-day weather data to analyze freeze-thaw cycles '
+    + 'and recommend the best days to tap sugar maple trees.',
+  tagline: 'Ditch the 🔮 — let real forecast data tell you when to tap',
+  treeSpecies: 'Tree species',
+  profiles: { sugar_maple: 'Sugar maple', red_maple: 'Red maple', black_walnut: 'Black walnut', birch: 'Birch' },
+  standsTitle: 'Your Stands',
+  saveStand: '+ Save this location',
+  crewCode: 'Crew sync code',
+  share: 'Share',
+  load: 'Load',
+  forecastHeading: 'Sap Forecast',
+  noscriptTitle: 'JavaScript is required for the live forecast.',
+  noscriptBody: 'Enable JavaScript and allow location access to see a personalized 7-day sap forecast, or add your ZIP code '
+    + 'to the address (<code>/p/05602</code>) for a forecast that works without it. In the meantime, browse the tapping '
+    + 'guides and resources below.',
+  locationTrouble: 'Having trouble enabling location?',
+  postalDivider: 'or enter a postal code or town',
+  postalDividerError: 'or use a postal code or town instead',
+  postalPlaceholder: 'e.g. 05602 or Montpelier',
+  postalLabel: 'Postal code or town',
+  country: 'Country',
+  go: 'Go',
+  tryAgain: 'Try again',
+  mapTitle: 'Map showing your location',
+  bestWindowTitle: 'Best Tapping Window',
+  yourTaps: 'Your taps',
+  alertsSummary: 'Alert me when a window opens',
+  browserNotifications: 'Browser notifications',
+  webhookPlaceholder: 'https://… webhook URL',
+  webhookLabel: 'Webhook URL',
+  addWebhook: 'Add webhook',
+  alertsOn: 'Alerts are on for this location.',
+  stopAlerts: 'Stop alerts',
+  terrainSummary: 'Elevation &amp; slope',
+  elevationPlaceholder: 'Elevation (m)',
+  elevationLabel: 'Stand elevation in metres',
+  lookUp: 'Look up',
+  aspectLabel: 'Direction the slope faces',
+  aspects: {
+    flat: 'Flat',
+    N: 'North-facing',
+    NE: 'Northeast-facing',
+    E: 'East-facing',
+    SE: 'Southeast-facing',
+    S: 'South-facing',
+    SW: 'Southwest-facing',
+    W: 'West-facing',
+    NW: 'Northwest-facing',
+  },
+  apply: 'Apply',
+  calendarLink: 'Add these dates to your calendar',
+  shareForecast: 'Share this forecast',
+  seasonTimingTitle: 'Season Timing',
+  historyTitle: 'Season So Far',
+  journalTitle: 'Tap Log',
+  entryType: 'Entry type',
+  date: 'Date',
+  standName: 'Stand name',
+  litres: 'Litres',
+  litresCollected: 'Litres collected',
+  spiles: 'Spiles',
+  log: 'Log',
+  calibrate: 'Calibrate from my log',
+  feedbackToggle: 'How are we doing?',
+  feedbackCallout: 'Sapcast is a new project and we&rsquo;re still tuning the forecast model and learning what&rsquo;s '
+    + 'actually useful to tappers. Your feedback &mdash; even a quick note &mdash; makes a real difference.',
+  feedbackPrompt: 'Was this forecast helpful?',
+  feedbackYes: 'Yes, thanks!',
+  feedbackNo: 'It could use some work',
+  feedbackComment: 'Any comments? (optional)',
+  feedbackSend: 'Send feedback',
+  feedbackThanks: 'Thanks for your feedback!',
+  feedbackChange: 'Change your feedback',
+  howItWorks: `<h2>How It Works</h2>
+        <h3>The Freeze-Thaw Cycle</h3>
+        <p>Maple sap flows when nighttime temperatures drop below freezing and daytime
+           temperatures rise above freezing. This creates pressure changes inside the
+           tree that push sap through the tap.</p>
+        <h3>What the Ratings Mean</h3>
+        <ul>
+          <li><strong>Excellent:</strong> Ideal freeze-thaw — overnight lows of -7°C to -2°C with daytime highs of 4°C to 10°C.</li>
+          <li><strong>Good:</strong> Solid freeze-thaw cycle — freezes overnight, thaws above 2°C during the day.</li>
+          <li><strong>Fair:</strong> Marginal — some freeze-thaw activity but temperatures are outside the ideal range.</li>
+          <li><strong>Poor:</strong> No freeze-thaw cycle — either too warm (no freeze) or too cold (no thaw).</li>
+        </ul>
+        <h3>Other Trees</h3>
+        <p>The ranges above are tuned for sugar maple. Pick red maple, black walnut
+           or birch from the menu at the top to score the forecast for those trees
+           instead — birch, for example, runs after maple season on cool nights and
+           mild days and doesn't need a hard freeze.</p>
+        <h3>Hours Matter Too</h3>
+        <p>Days are scored from the hourly forecast where it's available. A day
+           only counts if it stays frozen for a few hours overnight and then holds
+           above thaw for a few hours — a brief afternoon spike isn't a sap day.</p>
+        <h3>Estimated Sap Yield</h3>
+        <p>Each favourable day also gets a rough estimate of sap per tap, based on
+           how hard it froze overnight, how far it thawed during the day, and
+           whether the night before froze too. Enter your tap count to see the
+           total for the window — handy for planning buckets, tank space and boil days.</p>
+        <h3>Consecutive Days Matter</h3>
+        <p>The best sap runs happen during extended stretches of freeze-thaw days. A
+           single good day produces less sap than a 5-day run. The "Best Tapping Window"
+           highlights the longest stretch of good-or-better conditions in the forecast.</p>`,
+  tappingGuides: `<h2>Tapping Guides</h2>
+        <h3>Choosing &amp; Tapping a Tree</h3>
+        <p>Pick a healthy sugar maple at least 30 cm (12 in) in diameter. Place
+           the tap above a large root or below a large branch on the south-facing
+           side for the earliest flow.</p>
+        <ul>
+          <li><strong>Tree size:</strong> 12–18 in diameter supports one tap; larger than 18 in can take two (<a href="https://vermontevaporator.com/diy-maple-syrup-how-to-tap-2/" target="_blank" rel="noopener">Vermont Evaporator Co.</a>).</li>
+          <li><strong>Drill:</strong> Use a 5/16″ or 7/16″ bit, about 5 cm (2 in) deep at a slight upward angle.</li>
+          <li><strong>Check your shavings:</strong> Light-coloured chips mean healthy sapwood — dark shavings mean pick a different spot (<a href="https://tapmytrees.com/tap-tree/" target="_blank" rel="noopener">Tap My Trees</a>).</li>
+        </ul>
+        <h3>Collecting &amp; Boiling</h3>
+        <p>Hang a food-safe, lidded bucket or attach tubing to the spile. Collect
+           sap daily and refrigerate it — sap spoils quickly above freezing.</p>
+        <ul>
+          <li><strong>Ratio:</strong> It takes roughly 40 litres of sap to make 1 litre of syrup.</li>
+          <li><strong>Boil outdoors:</strong> The steam will peel wallpaper indoors (<a href="https://www.almanac.com/making-maple-syrup-answering-common-questions" target="_blank" rel="noopener">Old Farmer's Almanac</a>).</li>
+        </ul>
+        <h3>When to Pull Your Taps</h3>
+        <p>Without the freeze-thaw cycle, sap flow stops. Watch for these signs
+           that the season is over:</p>
+        <ul>
+          <li><strong>No more freezing nights:</strong> Once temperatures stay above freezing consistently, flow dries up (<a href="https://www.motherearthnews.com/homesteading-and-livestock/end-of-maple-tapping-season-zbcz1503/" target="_blank" rel="noopener">Mother Earth News</a>).</li>
+          <li><strong>Bud break:</strong> Once buds appear on the branches, sap develops an off "buddy" flavour that won't make good syrup. Pull your spiles before buds open.</li>
+        </ul>
+        <h3>End-of-Season Cleanup</h3>
+        <p>Remove spiles with pliers and let tap holes heal on their own — don't
+           plug them.</p>
+        <ul>
+          <li><strong>Clean equipment:</strong> Scrub with dilute bleach (1 part unscented bleach to 20 parts water), then triple-rinse with hot water (<a href="https://tapmytrees.com/cleanup/" target="_blank" rel="noopener">Tap My Trees</a>).</li>
+          <li><strong>Store dry:</strong> Keep spiles, buckets, and lids in a dry, dust-free place until next season (<a href="https://vermontevaporator.com/end-of-season-clean-up-pulling-taps-and-flushing-lines/" target="_blank" rel="noopener">Vermont Evaporator Co.</a>).</li>
+        </ul>`,
+  sourcesTitle: 'Sources &amp; Further Reading',
+  sourceNotes: {
+    proctor: 'the oldest maple research center in the world (est. 1946)',
+    cornell: 'production research and climate monitoring',
+    massMaple: 'how sugar maple trees work',
+    umaine: 'making sense of maple syrup',
+  },
+  weatherCredit: 'Weather data provided by',
+  builtBy: 'Built with care for 3 out of 52 weeks per year by',
+};
+
+const PAGE_FR_CA: PageText = {
+  title: 'Sapcast — Prévisions d’entaillage des érables',
+  description: 'Analysez les cycles de gel et de dégel des 7 prochains jours pour trouver les meilleurs jours pour entailler '
+    + 'vos érables à sucre. Prévisions gratuites selon votre position.',
+  metaDescription: 'Prévisions gratuites pour l’entaillage des érables. Sapcast utilise votre position et la météo des '
+    + '7 prochains jours pour analyser les cycles de gel et de dégel et recommander les meilleurs jours pour entailler '
+    + 'vos érables à sucre.',
+  tagline: 'Oubliez la 🔮 — laissez les vraies prévisions vous dire quand entailler',
+  treeSpecies: 'Essence',
+  profiles: { sugar_maple: 'Érable à sucre', red_maple: 'Érable rouge', black_walnut: 'Noyer noir', birch: 'Bouleau' },
+  standsTitle: 'Vos érablières',
+  saveStand: '+ Enregistrer cet endroit',
+  crewCode: 'Code de partage d’équipe',
+  share: 'Partager',
+  load: 'Charger',
+  forecastHeading: 'Prévisions de coulée',
+  noscriptTitle: 'JavaScript est requis pour les prévisions en direct.',
+  noscriptBody: 'Activez JavaScript et autorisez l’accès à votre position pour voir des prévisions de coulée personnalisées '
+    + 'sur 7 jours, ou ajoutez votre code postal à l’adresse (<code>/p/G6L?country=ca</code>) pour des prévisions qui '
+    + 'fonctionnent sans JavaScript. En attendant, consultez les guides d’entaillage et les ressources ci-dessous.',
+  locationTrouble: 'Vous n’arrivez pas à activer la localisation?',
+  postalDivider: 'ou entrez un code postal ou une ville',
+  postalDividerError: 'ou utilisez plutôt un code postal ou une ville',
+  postalPlaceholder: 'p. ex. G6L 2Y2 ou Plessisville',
+  postalLabel: 'Code postal ou ville',
+  country: 'Pays',
+  go: 'OK',
+  tryAgain: 'Réessayer',
+  mapTitle: 'Carte de votre position',
+  bestWindowTitle: 'Meilleure période d’entaillage',
+  yourTaps: 'Vos entailles',
+  alertsSummary: 'M’avertir quand une période s’ouvre',
+  browserNotifications: 'Notifications du navigateur',
+  webhookPlaceholder: 'https://… URL du webhook',
+  webhookLabel: 'URL du webhook',
+  addWebhook: 'Ajouter le webhook',
+  alertsOn: 'Les alertes sont activées pour cet endroit.',
+  stopAlerts: 'Arrêter les alertes',
+  terrainSummary: 'Altitude et pente',
+  elevationPlaceholder: 'Altitude (m)',
+  elevationLabel: 'Altitude de l’érablière en mètres',
+  lookUp: 'Trouver',
+  aspectLabel: 'Orientation de la pente',
+  aspects: {
+    flat: 'Terrain plat',
+    N: 'Exposée au nord',
+    NE: 'Exposée au nord-est',
+    E: 'Exposée à l’est',
+    SE: 'Exposée au sud-est',
+    S: 'Exposée au sud',
+    SW: 'Exposée au sud-ouest',
+    W: 'Exposée à l’ouest',
+    NW: 'Exposée au nord-ouest',
+  },
+  apply: 'Appliquer',
+  calendarLink: 'Ajouter ces dates à votre calendrier',
+  shareForecast: 'Partager ces prévisions',
+  seasonTimingTitle: 'Calendrier de la saison',
+  historyTitle: 'La saison jusqu’ici',
+  journalTitle: 'Journal d’entaillage',
+  entryType: 'Type d’entrée',
+  date: 'Date',
+  standName: 'Nom de l’érablière',
+  litres: 'Litres',
+  litresCollected: 'Litres récoltés',
+  spiles: 'Chalumeaux',
+  log: 'Ajouter',
+  calibrate: 'Calibrer selon mon journal',
+  feedbackToggle: 'Comment s’en tire-t-on?',
+  feedbackCallout: 'Sapcast est un nouveau projet : nous ajustons encore le modèle de prévision et apprenons ce qui est '
+    + 'vraiment utile aux acériculteurs. Vos commentaires &mdash; même une courte note &mdash; font une réelle différence.',
+  feedbackPrompt: 'Ces prévisions vous ont-elles été utiles?',
+  feedbackYes: 'Oui, merci!',
+  feedbackNo: 'Il y a place à amélioration',
+  feedbackComment: 'Des commentaires? (facultatif)',
+  feedbackSend: 'Envoyer',
+  feedbackThanks: 'Merci de vos commentaires!',
+  feedbackChange: 'Modifier vos commentaires',
+  howItWorks: `<h2>Comment ça marche</h2>
+        <h3>Le cycle de gel et de dégel</h3>
+        <p>La sève d’érable coule quand la température descend sous le point de congélation
+           la nuit et remonte au-dessus le jour. Ces variations créent dans l’arbre des
+           changements de pression qui poussent la sève vers l’entaille.</p>
+        <h3>Ce que veulent dire les cotes</h3>
+        <ul>
+          <li><strong>Excellent :</strong> Gel et dégel idéaux — minimums de nuit de -7 °C à -2 °C et maximums de jour de 4 °C à 10 °C.</li>
+          <li><strong>Bon :</strong> Bon cycle de gel et de dégel — gel la nuit, dégel au-dessus de 2 °C le jour.</li>
+          <li><strong>Moyen :</strong> Limite — un peu de gel et de dégel, mais hors de la plage idéale.</li>
+          <li><strong>Faible :</strong> Aucun cycle de gel et de dégel — trop chaud (pas de gel) ou trop froid (pas de dégel).</li>
+        </ul>
+        <h3>Autres arbres</h3>
+        <p>Les plages ci-dessus sont réglées pour l’érable à sucre. Choisissez l’érable rouge,
+           le noyer noir ou le bouleau dans le menu du haut pour évaluer les prévisions pour
+           ces arbres — le bouleau, par exemple, coule après la saison de l’érable, par des
+           nuits fraîches et des journées douces, sans avoir besoin d’un gel franc.</p>
+        <h3>Les heures comptent aussi</h3>
+        <p>Les journées sont évaluées à partir des prévisions horaires quand elles sont
+           disponibles. Une journée ne compte que si elle reste gelée quelques heures la nuit,
+           puis au-dessus du dégel quelques heures — une brève pointe en après-midi ne fait
+           pas une journée de coulée.</p>
+        <h3>Rendement estimé en sève</h3>
+        <p>Chaque journée favorable reçoit aussi une estimation approximative de la sève par
+           entaille, selon l’intensité du gel de la nuit, l’ampleur du dégel pendant le jour
+           et le gel ou non de la nuit précédente. Entrez votre nombre d’entailles pour voir
+           le total de la période — pratique pour prévoir les chaudières, la place dans les
+           réservoirs et les journées de bouillage.</p>
+        <h3>Les jours consécutifs comptent</h3>
+        <p>Les meilleures coulées arrivent pendant de longues séquences de jours de gel et de
+           dégel. Une seule bonne journée donne moins de sève qu’une séquence de 5 jours. La
+           « Meilleure période d’entaillage » montre la plus longue séquence de conditions
+           bonnes ou meilleures dans les prévisions.</p>`,
+  tappingGuides: `<h2>Guides d’entaillage</h2>
+        <h3>Choisir et entailler un arbre</h3>
+        <p>Choisissez un érable à sucre en santé d’au moins 30 cm (12 po) de diamètre.
+           Placez l’entaille au-dessus d’une grosse racine ou sous une grosse branche, du
+           côté sud, pour une coulée plus hâtive.</p>
+        <ul>
+          <li><strong>Taille de l’arbre :</strong> de 30 à 45 cm (12 à 18 po) de diamètre, une entaille; au-delà de 45 cm (18 po), deux (<a href="https://vermontevaporator.com/diy-maple-syrup-how-to-tap-2/" target="_blank" rel="noopener">Vermont Evaporator Co.</a>, en anglais).</li>
+          <li><strong>Perçage :</strong> mèche de 5/16 po ou 7/16 po, environ 5 cm (2 po) de profondeur, légèrement vers le haut.</li>
+          <li><strong>Vérifiez les copeaux :</strong> des copeaux pâles indiquent un aubier sain — des copeaux foncés veulent dire qu’il faut choisir un autre endroit (<a href="https://tapmytrees.com/tap-tree/" target="_blank" rel="noopener">Tap My Trees</a>, en anglais).</li>
+        </ul>
+        <h3>Récolte et bouillage</h3>
+        <p>Accrochez une chaudière alimentaire munie d’un couvercle ou raccordez une tubulure
+           au chalumeau. Récoltez la sève chaque jour et gardez-la au froid — elle se gâte
+           vite au-dessus du point de congélation.</p>
+        <ul>
+          <li><strong>Rapport :</strong> il faut environ 40 litres de sève pour faire 1 litre de sirop.</li>
+          <li><strong>Faites bouillir dehors :</strong> la vapeur décollerait le papier peint dans la maison (<a href="https://www.almanac.com/making-maple-syrup-answering-common-questions" target="_blank" rel="noopener">Old Farmer's Almanac</a>, en anglais).</li>
+        </ul>
+        <h3>Quand retirer les chalumeaux</h3>
+        <p>Sans cycle de gel et de dégel, la sève arrête de couler. Surveillez ces signes de
+           fin de saison :</p>
+        <ul>
+          <li><strong>Plus de nuits de gel :</strong> quand la température reste au-dessus du point de congélation, la coulée se tarit (<a href="https://www.motherearthnews.com/homesteading-and-livestock/end-of-maple-tapping-season-zbcz1503/" target="_blank" rel="noopener">Mother Earth News</a>, en anglais).</li>
+          <li><strong>Débourrement :</strong> quand les bourgeons apparaissent sur les branches, la sève prend un goût de bourgeon qui ne fait pas un bon sirop. Retirez vos chalumeaux avant l’ouverture des bourgeons.</li>
+        </ul>
+        <h3>Nettoyage de fin de saison</h3>
+        <p>Retirez les chalumeaux avec des pinces et laissez les entailles cicatriser
+           d’elles-mêmes — ne les bouchez pas.</p>
+        <ul>
+          <li><strong>Nettoyez l’équipement :</strong> frottez avec de l’eau de Javel diluée (1 partie d’eau de Javel non parfumée pour 20 parties d’eau), puis rincez trois fois à l’eau chaude (<a href="https://tapmytrees.com/cleanup/" target="_blank" rel="noopener">Tap My Trees</a>, en anglais).</li>
+          <li><strong>Rangez au sec :</strong> gardez les chalumeaux, les chaudières et les couvercles dans un endroit sec et sans poussière jusqu’à la saison prochaine (<a href="https://vermontevaporator.com/end-of-season-clean-up-pulling-taps-and-flushing-lines/" target="_blank" rel="noopener">Vermont Evaporator Co.</a>, en anglais).</li>
+        </ul>`,
+  sourcesTitle: 'Sources et lectures complémentaires',
+  sourceNotes: {
+    proctor: 'le plus ancien centre de recherche acéricole au monde (fondé en 1946)',
+    cornell: 'recherche sur la production et suivi du climat',
+    massMaple: 'le fonctionnement des érables à sucre',
+    umaine: 'comprendre le sirop d’érable',
+  },
+  weatherCredit: 'Données météo fournies par',
+  builtBy: 'Conçu avec soin pour 3 semaines sur 52 par année par',
+};
+
+export const PAGE_TEXT: Record<Locale, PageText> = { en: PAGE_EN, 'fr-CA': PAGE_FR_CA };
+
+// ── Structured data ────────────────────────────────────────────────────────
+
+interface StructuredText {
+  appDescription: string;
+  howToName: string;
+  howToDescription: string;
+  steps: Array<{ name: string; text: string }>;
+  faq: Array<{ question: string; answer: string }>;
+}
+
+const STRUCTURED_EN: StructuredText = {
+  appDescription: 'Free maple sap tapping forecast that analyzes 7-day freeze-thaw cycles to recommend the best days to tap sugar maple trees.',
+  howToName: 'How to Tap Maple Trees',
+  howToDescription: 'A step-by-step guide to tapping sugar maple trees for sap collection and syrup production.',
+  steps: [
+    {
+      name: 'Choose a tree',
+      text: 'Pick a healthy sugar maple at least 30 cm (12 in) in diameter. A tree 12-18 in diameter supports one tap; larger than 18 in can take two.',
+    },
+    {
+      name: 'Drill the tap hole',
+      text: 'Use a 5/16 or 7/16 inch bit, about 5 cm (2 in) deep at a slight upward angle. Place the tap above a large root or below a large branch on the south-facing side.',
+    },
+    {
+      name: 'Check your shavings',
+      text: 'Light-coloured chips mean healthy sapwood. Dark shavings mean pick a different spot.',
+    },
+    {
+      name: 'Collect sap',
+      text: 'Hang a food-safe, lidded bucket or attach tubing to the spile. Collect sap daily and refrigerate it — sap spoils quickly above freezing.',
+    },
+    {
+      name: 'Boil into syrup',
+      text: 'It takes roughly 40 litres of sap to make 1 litre of syrup. Boil outdoors — the steam will peel wallpaper indoors.',
+    },
+    {
+      name: 'Pull taps at end of season',
+      text: 'Once temperatures stay above freezing consistently or buds appear on branches, pull your spiles. Remove spiles with pliers and let tap holes heal on their own.',
+    },
+  ],
+  faq: [
+    {
+      question: 'What is the freeze-thaw cycle for maple sap?',
+      answer: 'Maple sap flows when nighttime temperatures drop below freezing and daytime temperatures rise above freezing. This creates pressure changes inside the tree that push sap through the tap. Ideal conditions are overnight lows of -7°C to -2°C with daytime highs of 4°C to 10°C.',
+    },
+    {
+      question: 'When is the best time to tap maple trees?',
+      answer: 'The best sap runs happen during extended stretches of freeze-thaw days, typically in late winter to early spring. A single good day produces less sap than a 5-day run of consecutive freeze-thaw cycles.',
+    },
+    {
+      question: 'When should I stop tapping and pull my spiles?',
+      answer: 'Pull your taps when temperatures stay above freezing consistently (ending the freeze-thaw cycle) or when buds appear on the branches. Budding sap develops an off \'buddy\' flavour that won\'t make good syrup.',
+    },
+  ],
+};
+
+const STRUCTURED_FR_CA: StructuredText = {
+  appDescription: 'Prévisions gratuites pour l’entaillage des érables qui analysent les cycles de gel et de dégel des 7 prochains jours pour recommander les meilleurs jours pour entailler les érables à sucre.',
+  howToName: 'Comment entailler les érables',
+  howToDescription: 'Un guide étape par étape pour entailler les érables à sucre, récolter la sève et faire du sirop.',
+  steps: [
+    {
+      name: 'Choisir un arbre',
+      text: 'Choisissez un érable à sucre en santé d’au moins 30 cm (12 po) de diamètre. Un arbre de 30 à 45 cm (12 à 18 po) de diamètre peut recevoir une entaille; au-delà de 45 cm (18 po), il peut en recevoir deux.',
+    },
+    {
+      name: 'Percer l’entaille',
+      text: 'Utilisez une mèche de 5/16 ou 7/16 po et percez environ 5 cm (2 po) de profondeur, légèrement vers le haut. Placez l’entaille au-dessus d’une grosse racine ou sous une grosse branche, du côté sud.',
+    },
+    {
+      name: 'Vérifier les copeaux',
+      text: 'Des copeaux pâles indiquent un aubier sain. Des copeaux foncés veulent dire qu’il faut choisir un autre endroit.',
+    },
+    {
+      name: 'Récolter la sève',
+      text: 'Accrochez une chaudière alimentaire munie d’un couvercle ou raccordez une tubulure au chalumeau. Récoltez la sève chaque jour et gardez-la au froid — elle se gâte vite au-dessus du point de congélation.',
+    },
+    {
+      name: 'Faire bouillir en sirop',
+      text: 'Il faut environ 40 litres de sève pour faire 1 litre de sirop. Faites bouillir dehors — la vapeur décollerait le papier peint dans la maison.',
+    },
+    {
+      name: 'Retirer les chalumeaux en fin de saison',
+      text: 'Quand la température reste au-dessus du point de congélation ou que les bourgeons apparaissent, retirez vos chalumeaux avec des pinces et laissez les entailles cicatriser d’elles-mêmes.',
+    },
+  ],
+  faq: [
+    {
+      question: 'Qu’est-ce que le cycle de gel et de dégel de la sève d’érable?',
+      answer: 'La sève d’érable coule quand la température descend sous le point de congélation la nuit et remonte au-dessus le jour. Ces variations créent dans l’arbre des changements de pression qui poussent la sève vers l’entaille. Les conditions idéales sont des minimums de nuit de -7 °C à -2 °C et des maximums de jour de 4 °C à 10 °C.',
+    },
+    {
+      question: 'Quel est le meilleur moment pour entailler les érables?',
+      answer: 'Les meilleures coulées arrivent pendant de longues séquences de jours de gel et de dégel, habituellement de la fin de l’hiver au début du printemps. Une seule bonne journée donne moins de sève qu’une séquence de 5 jours consécutifs de gel et de dégel.',
+    },
+    {
+      question: 'Quand arrêter d’entailler et retirer les chalumeaux?',
+      answer: 'Retirez vos chalumeaux quand la température reste au-dessus du point de congélation (la fin du cycle de gel et de dégel) ou quand les bourgeons apparaissent sur les branches. La sève prend alors un goût de bourgeon qui ne fait pas un bon sirop.',
+    },
+  ],
+};
+
+const STRUCTURED_TEXT: Record<Locale, StructuredText> = { en: STRUCTURED_EN, 'fr-CA': STRUCTURED_FR_CA };
+
+// schema.org graph for the page's JSON-LD block
+export function structuredData(locale: Locale): Record<string, unknown> {
+  const text = STRUCTURED_TEXT[locale];
+  return {
+    '@context': 'https://schema.org',
+    '@graph': [
+      {
+        '@type': 'WebApplication',
+        name: 'Sapcast',
+        description: text.appDescription,
+        inLanguage: locale,
+        applicationCategory: 'WeatherApplication',
+        operatingSystem: 'Any',
+        offers: { '@type': 'Offer', price: '0', priceCurrency: 'USD' },
+      },
+      {
+        '@type': 'HowTo',
+        name: text.howToName,
+        description: text.howToDescription,
+        inLanguage: locale,
+        step: text.steps.map(s => ({ '@type': 'HowToStep', ...s })),
+      },
+      {
+        '@type': 'FAQPage',
+        inLanguage: locale,
+        mainEntity: text.faq.map(f => ({
+          '@type': 'Question',
+          name: f.question,
+          acceptedAnswer: { '@type': 'Answer', text: f.answer },
+        })),
+      },
+    ],
+  };
+}
+
+// Country names for the postal code picker, in the page's language
+export function countryName(code: string, englishName: string, locale: Locale): string {
+  if (locale === 'en') return englishName;
+  try {
+    return new Intl.DisplayNames([intlTag(locale)], { type: 'region' }).of(code.toUpperCase()) ?? englishName;
+  } catch {
+    return englishName;
+  }
+}
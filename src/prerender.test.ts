@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  prerenderForecast,
+  describeForecast,
+  escapeHTML,
+  type PrerenderInput,
+} from './prerender';
+import { forecastDay, forecastInput } from './testing';
+
+const temps = { tempLow: -5.4, tempHigh: 6.2, sapYield: 2.1 };
+
+const INPUT: PrerenderInput = forecastInput({
+  current: { temperature: 1.6, summary: 'Partly <cloudy>', icon: '' },
+  days: [
+    forecastDay('2026-03-10', 'excellent', temps),
+    forecastDay('2026-03-11', 'good', temps),
+    forecastDay('2026-03-20', 'poor', { ...temps, confidence: 0.4 }),
+  ],
+  bestWindow: { startDate: '2026-03-10', endDate: '2026-03-11', length: 2, totalYield: 4.2, confidence: 1 },
+  recommendation: {
+    ...forecastInput().recommendation,
+    notes: [],
+    message: 'Tap now — excellent conditions for the next 2 days.',
+  },
+  seasonInfo: { tapByDate: '2026-03-01', seasonEndDate: '2026-04-05', message: 'Season wraps up around Apr 5.' },
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Formatting
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('escapeHTML', () => {
+  it('escapes markup and quotes', () => {
+    expect(escapeHTML('<a href="x">Tom\'s</a> & co')).toBe('&lt;a href=&quot;x&quot;&gt;Tom&#39;s&lt;/a&gt; &amp; co');
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Sections
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('prerenderForecast', () => {
+  const sections = prerenderForecast(INPUT);
+
+  it('renders the current conditions escaped', () => {
+    expect(sections.currentTemp).toBe('2°C');
+    expect(sections.currentSummary).toBe('Partly &lt;cloudy&gt;');
+  });
+
+  it('renders the recommendation with the window and its yield', () => {
+    expect(sections.recommendation).toContain('rec-tap_now');
+    expect(sections.recommendation).toContain('Mar 10 – Mar 11');
+    expect(sections.recommendation).toContain('2 days of favorable conditions</div>');
+    expect(sections.recommendation).toContain('≈ 4.2 L of sap from 1 tap');
+  });
+
+  it('describes the window from the recommendation', () => {
+    expect(sections.recommendation).toContain('Excellent window · 2 days of favorable conditions');
+    const later = { ...INPUT.recommendation, window: { quality: 'good' as const, startOffset: 3, length: 2, singleDay: false } };
+    expect(prerenderForecast({ ...INPUT, recommendation: later }).recommendation)
+      .toContain('Mar 10 – Mar 11 · starts in 3 days</div>');
+  });
+
+  it('lists the runner-up windows', () => {
+    const windows = [
+      INPUT.bestWindow!,
+      { startDate: '2026-03-14', endDate: '2026-03-15', length: 2, totalYield: 3, confidence: 0.8 },
+      { startDate: '2026-03-18', endDate: '2026-03-18', length: 1, totalYield: 1, confidence: 0.6 },
+    ];
+    expect(prerenderForecast({ ...INPUT, windows }).recommendation)
+      .toContain('Also: Mar 14 – Mar 15 (2 days); Wed, Mar 18 (1 day)</div>');
+    expect(sections.recommendation).not.toContain('Also:');
+  });
+
+  it('renders one row per day, flagging uncertain ones', () => {
+    expect(sections.forecastTitle).toBe('3-Day Forecast');
+    expect(sections.forecastList.match(/class="forecast-day /g)).toHaveLength(3);
+    expect(sections.forecastList).toContain('<span class="temp-low">-5°C</span>');
+    expect(sections.forecastList).toContain('class="forecast-day poor low-confidence" title="Low confidence"');
+  });
+
+  it('renders the season card, and nothing without season info', () => {
+    expect(sections.seasonInfo).toContain('<strong>Tap by:</strong> Sun, Mar 1');
+    expect(prerenderForecast({ ...INPUT, seasonInfo: null }).seasonInfo).toBe('');
+  });
+
+  it('adds bud break when it is near', () => {
+    const budBreak = {
+      gdd: 72.4, forecastGdd: 10, target: 80, date: '2026-03-21', daysUntil: 11, recordedDays: 60,
+    };
+    expect(prerenderForecast({ ...INPUT, budBreak }).seasonInfo)
+      .toContain('<strong>Growing degree days:</strong> 72 of ~80');
+  });
+
+  it('words everything around the messages in the locale', () => {
+    const fr = prerenderForecast(INPUT, 'fr-CA');
+    expect(fr.forecastTitle).toBe('Prévisions sur 3 jours');
+    expect(fr.recommendation).toContain('10 mars – 11 mars');
+    expect(fr.recommendation).toContain('2 jours de conditions favorables</div>');
+    expect(fr.recommendation).toContain('≈ 4,2 L de sève pour 1 entaille');
+    expect(fr.forecastList).toContain('<span class="day-rating excellent">Excellent</span>');
+    expect(fr.forecastList).toContain('title="Confiance faible"');
+    expect(fr.seasonInfo).toContain('<strong>Entailler d’ici le :</strong> dim. 1 mars');
+  });
+});
+
+describe('describeForecast', () => {
+  it('names the place and the window for link previews', () => {
+    expect(describeForecast('Montpelier, VT', INPUT)).toEqual({
+      title: 'Sapcast — Montpelier, VT',
+      description: 'Tap now — excellent conditions for the next 2 days. Best window: Mar 10 – Mar 11.',
+    });
+  });
+
+  it('words the window in the locale', () => {
+    expect(describeForecast('Plessisville, QC', INPUT, 'fr-CA').description)
+      .toContain('Meilleure période : 10 mars – 11 mars.');
+  });
+});
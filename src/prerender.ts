@@ -0,0 +1,179 @@
+// Server-rendered forecast — the recommendation, season and daily list as
+// HTML, so a shared link or a phone without JavaScript shows the forecast
+// before (or instead of) the client script. Markup mirrors render() in the
+// page script, which takes over once it loads.
+
+import {
+  confidenceLevel,
+  type BudBreakEstimate,
+  type ForecastDay,
+  type HourlyDetail,
+  type Recommendation,
+  type RecommendationType,
+  type SeasonInfo,
+} from './scoring';
+import type { CurrentConditions } from './weather';
+import {
+  DEFAULT_LOCALE,
+  formatDate,
+  formatDecimal,
+  formatWindowDates,
+  interpolate,
+  plural,
+  type Locale,
+} from './i18n';
+import { UI_TEXT } from './pagetext';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface PrerenderWindow {
+  startDate: string;
+  endDate: string;
+  length: number;
+  totalYield: number; // litres per tap
+  confidence: number;
+}
+
+export interface PrerenderInput {
+  current: CurrentConditions;
+  days: ForecastDay[];
+  bestWindow: PrerenderWindow | null;
+  windows?: PrerenderWindow[]; // best first; snapshots shared before windows were ranked have none
+  recommendation: Recommendation;
+  seasonInfo: SeasonInfo | null;
+  budBreak: BudBreakEstimate | null;
+}
+
+// One fragment per placeholder element in the page
+export interface PrerenderedSections {
+  currentTemp: string;
+  currentSummary: string;
+  recommendation: string;
+  seasonInfo: string; // empty when there's no season card
+  forecastTitle: string;
+  forecastList: string;
+}
+
+// Runner-up windows listed under the best one
+const MAX_OTHER_WINDOWS = 3;
+
+export const REC_ICONS: Record<RecommendationType, string> = {
+  tap_now: '\u{1F3AF}',
+  upcoming: '\u{1F4C5}',
+  no_window: '\u{1F32B}',
+  season_over: '\u{2600}',
+  too_cold: '\u{2744}',
+  pull_taps: '\u{1F331}',
+};
+
+// ── Formatting ─────────────────────────────────────────────────────────────
+
+export function escapeHTML(str: string): string {
+  return str.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+}
+
+// The server has no reader's unit; the client re-renders in theirs
+function tempStr(c: number | null): string {
+  return c === null ? '--' : `${Math.round(c)}°C`;
+}
+
+function hoursStr(h: HourlyDetail | undefined, locale: Locale): string {
+  return h ? interpolate(UI_TEXT[locale].hours, { frozen: h.hoursBelowFreeze, thawed: h.hoursAboveThaw }) : '';
+}
+
+function capitalize(s: string): string {
+  return s.charAt(0).toUpperCase() + s.slice(1);
+}
+
+// ── Sections ───────────────────────────────────────────────────────────────
+
+function recommendationHTML(f: PrerenderInput, locale: Locale): string {
+  const text = UI_TEXT[locale];
+  const rec = f.recommendation;
+  let html = `<div class="recommendation-box rec-${rec.type}">`;
+  html += `<span class="rec-icon">${REC_ICONS[rec.type] ?? ''}</span><div>`;
+  html += `<div style="font-weight:600;">${escapeHTML(rec.message)}</div>`;
+  const w = f.bestWindow;
+  if (w) {
+    const level = confidenceLevel(w.confidence);
+    // Snapshots shared before recommendations carried a window have none
+    const lead = rec.window && rec.window.startOffset > 0
+      ? ` · ${interpolate(plural(text.startsIn, rec.window.startOffset, locale), { n: rec.window.startOffset })}`
+      : '';
+    html += `<div class="window-dates" style="margin-top:6px;">${formatWindowDates(w.startDate, w.endDate, locale)}${lead}</div>`;
+    html += `<div class="window-detail">${rec.window ? `${text.windowQuality[rec.window.quality]} · ` : ''}`
+      + `${interpolate(plural(text.favorableDays, w.length, locale), { n: w.length })}`
+      + `${level !== 'high' ? ` · ${text.confidence[level]}` : ''}</div>`;
+    html += `<div class="window-detail">${interpolate(plural(text.sapFromTaps, 1, locale),
+      { volume: `${formatDecimal(w.totalYield, locale)} L`, n: 1 })}</div>`;
+    const others = (f.windows ?? []).slice(1, 1 + MAX_OTHER_WINDOWS).map(o =>
+      `${formatWindowDates(o.startDate, o.endDate, locale)} (${interpolate(plural(text.dayCount, o.length, locale), { n: o.length })})`);
+    if (others.length > 0) {
+      html += `<div class="window-detail">${interpolate(text.otherWindows, { windows: others.join('; ') })}</div>`;
+    }
+  }
+  return `${html}</div></div>`;
+}
+
+function seasonInfoHTML(f: PrerenderInput, locale: Locale): string {
+  const si = f.seasonInfo;
+  if (!si) return '';
+  const text = UI_TEXT[locale];
+  const bud = f.budBreak;
+  return '<div class="season-info-box">'
+    + `<div>${escapeHTML(si.message)}</div>`
+    + '<div class="season-info-dates">'
+    + `<span><strong>${text.tapBy}</strong> ${formatDate(si.tapByDate, locale)}</span>`
+    + `<span><strong>${text.seasonEnd}</strong> ${formatDate(si.seasonEndDate, locale)}</span>`
+    + (bud
+      ? `<span title="${interpolate(text.gddTitle, { target: bud.target })}">`
+        + `<strong>${text.gdd}</strong> ${interpolate(text.gddProgress, { gdd: Math.round(bud.gdd), target: bud.target })}</span>`
+      : '')
+    + (bud?.date
+      ? `<span><strong>${text.budBreak}</strong> ${bud.daysUntil === 0 ? text.budBreakNow : `~${formatDate(bud.date, locale)}`}</span>`
+      : '')
+    + '</div></div>';
+}
+
+function dayHTML(day: ForecastDay, locale: Locale): string {
+  const text = UI_TEXT[locale];
+  const level = confidenceLevel(day.confidence);
+  const className = `forecast-day ${day.rating}${level !== 'high' ? ` ${level}-confidence` : ''}`;
+  const title = level !== 'high' ? ` title="${capitalize(text.confidence[level])}"` : '';
+  return `<div class="${className}"${title}>`
+    + `<span class="day-name">${formatDate(day.date, locale)}</span>`
+    + `<span class="temps"><span class="temp-low">${tempStr(day.tempLow)}</span><span class="temp-arrow">→</span>`
+    + `<span class="temp-high">${tempStr(day.tempHigh)}</span></span>`
+    + `<span class="day-hours">${hoursStr(day.hourly, locale)}</span>`
+    + `<span class="day-snow">${day.snowfall >= 1 ? `❄ ${Math.round(day.snowfall)} cm` : ''}</span>`
+    + `<span class="day-yield">${day.sapYield ? `${formatDecimal(day.sapYield, locale)} L` : ''}</span>`
+    + `<span class="day-rating ${day.rating}">${text.ratings[day.rating]}</span>`
+    + '</div>';
+}
+
+// The recommendation and season messages arrive already worded in the
+// locale; everything around them is worded here
+export function prerenderForecast(f: PrerenderInput, locale: Locale = DEFAULT_LOCALE): PrerenderedSections {
+  return {
+    currentTemp: tempStr(f.current.temperature),
+    currentSummary: escapeHTML(f.current.summary),
+    recommendation: recommendationHTML(f, locale),
+    seasonInfo: seasonInfoHTML(f, locale),
+    forecastTitle: interpolate(UI_TEXT[locale].forecastTitle, { n: f.days.length }),
+    forecastList: f.days.map(day => dayHTML(day, locale)).join(''),
+  };
+}
+
+// Title and description for link previews
+export function describeForecast(
+  label: string,
+  f: PrerenderInput,
+  locale: Locale = DEFAULT_LOCALE,
+): { title: string; description: string } {
+  const w = f.bestWindow;
+  const bestWindow = w ? interpolate(UI_TEXT[locale].bestWindow, { dates: formatWindowDates(w.startDate, w.endDate, locale) }) : '';
+  return {
+    title: `Sapcast — ${label}`,
+    description: w ? `${f.recommendation.message} ${bestWindow}.` : f.recommendation.message,
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { createRouter, type Route } from './router';
+
+const ok = (body: unknown) => () => Response.json(body);
+
+const ROUTES: Route<null>[] = [
+  { path: '/api/v1/forecast', methods: ['GET'], handler: ok({ route: 'forecast' }) },
+  { path: '/api/v1/stands', methods: ['GET', 'PUT'], handler: req => Response.json({ method: req.method }) },
+  { path: '/api/openapi.json', methods: ['GET'], handler: ok({ route: 'openapi' }) },
+  { path: '/share/{id}', methods: ['GET'], handler: (_req, _env, params) => Response.json(params) },
+  { path: '/api/v1/share/{id}', methods: ['GET'], handler: (_req, _env, params) => Response.json(params) },
+  { path: '/og/{id}.svg', methods: ['GET'], handler: (_req, _env, params) => Response.json(params) },
+];
+
+const router = createRouter(ROUTES);
+
+async function call(path: string, method = 'GET') {
+  return router.handle(new Request('https://sapcast.test' + path, { method }), null);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Matching
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('createRouter', () => {
+  it('dispatches by path and method', async () => {
+    expect(await (await call('/api/v1/forecast?lat=1&lon=2'))!.json()).toEqual({ route: 'forecast' });
+    expect(await (await call('/api/v1/stands', 'PUT'))!.json()).toEqual({ method: 'PUT' });
+  });
+
+  it('serves unversioned API paths as aliases of v1', async () => {
+    expect(await (await call('/api/forecast'))!.json()).toEqual({ route: 'forecast' });
+    expect(await (await call('/api/openapi.json'))!.json()).toEqual({ route: 'openapi' });
+  });
+
+  it('extracts path parameters', async () => {
+    expect(await (await call('/share/abc%20123'))!.json()).toEqual({ id: 'abc 123' });
+    expect(await (await call('/og/xyz.svg'))!.json()).toEqual({ id: 'xyz' });
+    expect(await call('/share/abc/extra')).toBeNull();
+  });
+
+  it('treats a malformed escape in a parameter as no match', async () => {
+    expect(await call('/share/%E0%A4%A')).toBeNull();
+    expect(await (await call('/api/v1/share/abc'))!.json()).toEqual({ id: 'abc' });
+    const resp = (await call('/api/v1/share/%E0%A4%A'))!;
+    expect(resp.status).toBe(404);
+    expect(await resp.json()).toEqual({ error: 'No API route for /api/v1/share/%E0%A4%A' });
+  });
+
+  it('answers unknown API paths with a JSON 404', async () => {
+    const resp = (await call('/api/v1/forcast'))!;
+    expect(resp.status).toBe(404);
+    expect(await resp.json()).toEqual({ error: 'No API route for /api/v1/forcast' });
+  });
+
+  it('answers the wrong method with a JSON 405 and an Allow header', async () => {
+    const resp = (await call('/api/stands', 'DELETE'))!;
+    expect(resp.status).toBe(405);
+    expect(resp.headers.get('Allow')).toBe('GET, PUT');
+    expect(await resp.json()).toHaveProperty('error');
+  });
+
+  it('answers HEAD for GET routes without a body', async () => {
+    const resp = (await call('/api/v1/forecast', 'HEAD'))!;
+    expect(resp.status).toBe(200);
+    expect(resp.headers.get('Content-Type')).toContain('application/json');
+    expect(await resp.text()).toBe('');
+  });
+
+  it('leaves other paths to the caller', async () => {
+    expect(await call('/')).toBeNull();
+    expect(await call('/about')).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+// Router — matches a request to a route by path and method, and answers
+// unknown API paths and wrong methods with JSON instead of the HTML page
+
+import type { OperationDoc } from './openapi';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type Method = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export type RouteParams = Record<string, string>;
+
+// ctx lets a handler finish work (a cache refresh) after it has responded
+export type RouteHandler<E> = (
+  request: Request,
+  env: E,
+  params: RouteParams,
+  ctx?: ExecutionContext,
+) => Response | Promise<Response>;
+
+export interface Route<E> {
+  path: string; // literal segments and {name} placeholders, e.g. /share/{id}
+  methods: Method[];
+  handler: RouteHandler<E>;
+  docs?: Partial<Record<Method, OperationDoc>>; // described in /api/openapi.json
+}
+
+export interface Router<E> {
+  routes: Route<E>[];
+  // null when no route matches and the path is outside the API
+  handle(request: Request, env: E, ctx?: ExecutionContext): Promise<Response | null>;
+}
+
+export const API_PREFIX = '/api/';
+export const API_V1_PREFIX = '/api/v1/';
+
+// ── Matching ───────────────────────────────────────────────────────────────
+
+function compilePath(path: string): { pattern: RegExp; names: string[] } {
+  const names: string[] = [];
+  const source = path.split(/(\{[A-Za-z]+\})/).map(part => {
+    const name = part.match(/^\{([A-Za-z]+)\}$/)?.[1];
+    if (name) {
+      names.push(name);
+      return '([^/]+?)';
+    }
+    return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }).join('');
+  return { pattern: new RegExp(`^${source}$`), names };
+}
+
+function matchPath(compiled: { pattern: RegExp; names: string[] }, pathname: string): RouteParams | null {
+  const match = compiled.pattern.exec(pathname);
+  if (!match) return null;
+  const params: RouteParams = {};
+  try {
+    compiled.names.forEach((name, i) => {
+      params[name] = decodeURIComponent(match[i + 1]);
+    });
+  } catch (err) {
+    // A malformed escape like %E0%A4%A can't name anything we serve
+    if (err instanceof URIError) return null;
+    throw err;
+  }
+  return params;
+}
+
+// The unversioned /api/... paths predate v1 and stay as aliases, so
+// existing pages, calendar subscriptions and bookmarks keep working
+function candidatePaths(pathname: string): string[] {
+  if (pathname.startsWith(API_PREFIX) && !pathname.startsWith(API_V1_PREFIX)) {
+    return [pathname, API_V1_PREFIX + pathname.substring(API_PREFIX.length)];
+  }
+  return [pathname];
+}
+
+export function createRouter<E>(routes: Route<E>[]): Router<E> {
+  const compiled = routes.map(route => ({ route, path: compilePath(route.path) }));
+
+  return {
+    routes,
+    async handle(request, env, ctx) {
+      const { pathname } = new URL(request.url);
+      const method = request.method.toUpperCase();
+
+      for (const candidate of candidatePaths(pathname)) {
+        const allowed = new Set<Method>();
+        for (const { route, path } of compiled) {
+          const params = matchPath(path, candidate);
+          if (!params) continue;
+
+          if ((route.methods as string[]).includes(method)) {
+            return route.handler(request, env, params, ctx);
+          }
+          // HEAD is a GET without the body
+          if (method === 'HEAD' && route.methods.includes('GET')) {
+            const resp = await route.handler(request, env, params, ctx);
+            return new Response(null, resp);
+          }
+          route.methods.forEach(m => allowed.add(m));
+        }
+
+        if (allowed.size > 0) {
+          return Response.json(
+            { error: `Method ${method} not allowed` },
+            { status: 405, headers: { Allow: [...allowed].join(', ') } },
+          );
+        }
+      }
+
+      if (pathname.startsWith(API_PREFIX)) {
+        return Response.json({ error: `No API route for ${pathname}` }, { status: 404 });
+      }
+      return null;
+    },
+  };
+}
@@ -1,10 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { scoreDay, findBestWindow, generateRecommendation, formatDate, getSeasonInfo, doyToDate, type ForecastDay } from './scoring';
+import { scoreDay, scoreDayHourly, analyzeHours, estimateSapYield, daysBetween, addDays, findBestWindow, findWindows, generateRecommendation, growingDegreeDays, estimateBudBreak, forecastConfidence, confidenceLevel, formatDate, getSeasonInfo, doyToDate, getScoringProfile, customizeProfile, validateProfile, SCORING_PROFILES, SUGAR_MAPLE, type ForecastDay, type HourlyTemp, type ScoringProfile } from './scoring';
+import { forecastDay } from './testing';
 
 // ── Helper to build a day object for findBestWindow / generateRecommendation ──
-function day(date: string, tempLow: number, tempHigh: number): ForecastDay {
-  const { rating, score } = scoreDay(tempLow, tempHigh);
-  return { date, tempLow, tempHigh, summary: '', icon: '', rating, score };
+function day(date: string, tempLow: number, tempHigh: number, profile: ScoringProfile = SUGAR_MAPLE, confidence = 1): ForecastDay {
+  const { rating, score } = scoreDay(tempLow, tempHigh, profile);
+  const sapYield = estimateSapYield(tempLow, tempHigh, null, profile);
+  return forecastDay(date, rating, { tempLow, tempHigh, score, sapYield, confidence });
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -117,6 +119,144 @@ describe('scoreDay', () => {
   });
 });
 
+// ═══════════════════════════════════════════════════════════════════════════
+// scoreDayHourly
+// ═══════════════════════════════════════════════════════════════════════════
+
+// ── Helper to build 24 hourly readings starting at a unix time ──
+function hoursFrom(start: number, temps: number[]): HourlyTemp[] {
+  return temps.map((temperature, i) => ({ time: start + i * 3600, temperature }));
+}
+
+const DAY_START = 1771304400; // 2026-02-17T05:00:00Z (local midnight, UTC-5)
+
+describe('analyzeHours', () => {
+  it('counts hours below freezing and above thaw', () => {
+    const detail = analyzeHours(hoursFrom(DAY_START, [-3, -4, -1, 1, 3, 5, 4, 2]));
+    expect(detail.hoursBelowFreeze).toBe(3);
+    expect(detail.hoursAboveThaw).toBe(3);
+  });
+
+  it('detects the freeze→thaw and refreeze crossing times', () => {
+    const detail = analyzeHours(hoursFrom(DAY_START, [-3, -2, 1, 3, 5, 1, -1, -2]));
+    expect(detail.thawAt).toBe(DAY_START + 3 * 3600);
+    expect(detail.refreezeAt).toBe(DAY_START + 6 * 3600);
+  });
+
+  it('reports no thaw crossing when it never freezes first', () => {
+    const detail = analyzeHours(hoursFrom(DAY_START, [4, 6, 8, 5, -1, -2]));
+    expect(detail.thawAt).toBeNull();
+    expect(detail.refreezeAt).toBeNull();
+  });
+});
+
+describe('scoreDayHourly', () => {
+  // 24h: cold night, steady thaw through the afternoon, refreeze in the evening
+  const classicDay = [
+    -5, -6, -6, -6, -5, -5, -4, -2, 0, 2, 4, 6,
+    7, 7, 6, 5, 3, 1, -1, -2, -3, -4, -4, -5,
+  ];
+
+  it('rates a sustained freeze-thaw day from the hourly min/max', () => {
+    const result = scoreDayHourly(hoursFrom(DAY_START, classicDay));
+    expect(result.rating).toBe('excellent');
+    expect(result.score).toBe(3);
+    expect(result.hourly!.hoursAboveThaw).toBe(7);
+    expect(result.hourly!.thawAt).toBe(DAY_START + 10 * 3600);
+  });
+
+  it('rates a brief afternoon spike above thaw as poor', () => {
+    const spike = [
+      -5, -6, -6, -6, -5, -5, -4, -3, -2, -1, 1, 2,
+      5, 2, 1, 0, -1, -2, -3, -4, -4, -5, -5, -6,
+    ];
+    // Daily high/low alone would call this excellent
+    expect(scoreDay(-6, 5).rating).toBe('excellent');
+    const result = scoreDayHourly(hoursFrom(DAY_START, spike));
+    expect(result.rating).toBe('poor');
+    expect(result.score).toBe(0);
+    expect(result.hourly!.hoursAboveThaw).toBe(1);
+  });
+
+  it('rates a day with only a brief dip below freezing as poor', () => {
+    const brief = [
+      1, 0, -1, 0, 1, 2, 3, 4, 5, 6, 7, 8,
+      8, 8, 7, 6, 5, 4, 3, 3, 2, 2, 1, 1,
+    ];
+    const result = scoreDayHourly(hoursFrom(DAY_START, brief));
+    expect(result.rating).toBe('poor');
+    expect(result.hourly!.hoursBelowFreeze).toBe(1);
+  });
+
+  it('rates poor when the thaw comes before any freeze', () => {
+    const warmThenCold = [
+      5, 6, 7, 8, 8, 7, 6, 5, 4, 3, 2, 1,
+      0, -1, -2, -3, -4, -5, -5, -6, -6, -6, -7, -7,
+    ];
+    const result = scoreDayHourly(hoursFrom(DAY_START, warmThenCold));
+    expect(result.rating).toBe('poor');
+    expect(result.hourly!.thawAt).toBeNull();
+  });
+
+  it('rates poor when the thaw comes early and the freeze only after it', () => {
+    // A brief cold hour, a thaw through the night, then a freeze all evening
+    const reversed = [
+      -2, 5, 6, 6, 5, 5, 4, 4, 3, 3, 3, 0,
+      -1, -2, -3, -4, -4, -5, -5, -6, -6, -6, -7, -7,
+    ];
+    // Over the whole day there's plenty of both
+    expect(analyzeHours(hoursFrom(DAY_START, reversed))).toMatchObject({ hoursBelowFreeze: 13, hoursAboveThaw: 10 });
+    const result = scoreDayHourly(hoursFrom(DAY_START, reversed));
+    expect(result.rating).toBe('poor');
+    expect(result.score).toBe(0);
+  });
+
+  it('returns unknown when the day has too few hours of data', () => {
+    const result = scoreDayHourly(hoursFrom(DAY_START, classicDay.slice(12)));
+    expect(result).toEqual({ rating: 'unknown', score: 0 });
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// estimateSapYield
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('estimateSapYield', () => {
+  it('returns zero without a freeze-thaw cycle', () => {
+    expect(estimateSapYield(3, 10)).toBe(0);
+    expect(estimateSapYield(-10, 2)).toBe(0);
+  });
+
+  it('gives the peak yield for an ideal day', () => {
+    expect(estimateSapYield(-5, 7)).toBe(3.5);
+  });
+
+  it('scales with freeze depth up to a full freeze', () => {
+    expect(estimateSapYield(-1, 7)).toBeLessThan(estimateSapYield(-3, 7));
+    expect(estimateSapYield(-3, 7)).toBeLessThan(estimateSapYield(-5, 7));
+    expect(estimateSapYield(-6, 7)).toBe(estimateSapYield(-5, 7));
+  });
+
+  it('scales with thaw magnitude up to a full thaw', () => {
+    expect(estimateSapYield(-5, 3)).toBeLessThan(estimateSapYield(-5, 5));
+    expect(estimateSapYield(-5, 8)).toBe(estimateSapYield(-5, 7));
+  });
+
+  it('tapers off for very hard freezes and very warm days', () => {
+    expect(estimateSapYield(-15, 7)).toBeLessThan(estimateSapYield(-5, 7));
+    expect(estimateSapYield(-5, 15)).toBeLessThan(estimateSapYield(-5, 7));
+  });
+
+  it('boosts yield after a freezing night before', () => {
+    expect(estimateSapYield(-5, 7, -5)).toBe(4.2);
+    expect(estimateSapYield(-5, 7, -2)).toBeGreaterThan(estimateSapYield(-5, 7));
+  });
+
+  it('halves yield after a night that stayed above freezing', () => {
+    expect(estimateSapYield(-5, 7, 3)).toBe(1.8);
+  });
+});
+
 // ═══════════════════════════════════════════════════════════════════════════
 // findBestWindow
 // ═══════════════════════════════════════════════════════════════════════════
@@ -217,6 +357,16 @@ describe('findBestWindow', () => {
     expect(result!.days).toHaveLength(2);
     expect(result!.totalScore).toBe(5);
   });
+
+  it('sums the estimated sap yield over the window', () => {
+    const days = [
+      day('2026-02-17', -5, 7),    // 3.5 L
+      day('2026-02-18', -3, 5),    // 1.3 L
+      day('2026-02-19', 3, 10),    // poor
+    ];
+    const result = findBestWindow(days);
+    expect(result!.totalYield).toBe(4.8);
+  });
 });
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -238,6 +388,35 @@ describe('generateRecommendation', () => {
       expect(rec.message).toContain('Tap now');
       expect(rec.message).toContain('excellent');
       expect(rec.message).toContain('3 days');
+      expect(rec.window).toEqual({ quality: 'excellent', startOffset: 0, length: 3, singleDay: false });
+      expect(rec.reason).toBeNull();
+    });
+
+    it('carries the message as a code, and words it in the locale', () => {
+      const days = [
+        day('2026-02-17', -5, 7),
+        day('2026-02-18', -4, 6),
+        day('2026-02-19', -3, 5),
+        day('2026-02-20', 3, 10),
+      ];
+      const rec = generateRecommendation(days, findBestWindow(days), undefined, null, 'fr-CA');
+      expect(rec.code).toBe('rec.tap_now');
+      expect(rec.params).toEqual({ quality: 'excellent', days: 3 });
+      expect(rec.message).toContain('Entaillez maintenant — excellentes conditions pour les 3 prochains jours.');
+    });
+
+    it('counts from the local today, not the first forecast day', () => {
+      // Cached before midnight: the forecast still starts with yesterday
+      const days = [
+        day('2026-02-16', 3, 10),
+        day('2026-02-17', -5, 7),
+        day('2026-02-18', -4, 6),
+        day('2026-02-19', 3, 10),
+      ];
+      const rec = generateRecommendation(days, findBestWindow(days), SUGAR_MAPLE, null, 'en', '2026-02-17');
+      expect(rec.type).toBe('tap_now');
+      expect(rec.window?.startOffset).toBe(0);
+      expect(generateRecommendation(days, findBestWindow(days)).type).toBe('upcoming');
     });
 
     it('says "good" quality when avg score < 2.5', () => {
@@ -250,6 +429,7 @@ describe('generateRecommendation', () => {
       const rec = generateRecommendation(days, bestWindow);
       expect(rec.type).toBe('tap_now');
       expect(rec.message).toContain('good');
+      expect(rec.window?.quality).toBe('good');
     });
 
     it('mentions great stretch for 3+ day window starting today', () => {
@@ -302,6 +482,7 @@ describe('generateRecommendation', () => {
       expect(rec.type).toBe('no_window');
       expect(rec.message).toContain('1-day window');
       expect(rec.message).toContain('coming');
+      expect(rec.window).toEqual({ quality: 'excellent', startOffset: 1, length: 1, singleDay: true });
     });
   });
 
@@ -318,6 +499,7 @@ describe('generateRecommendation', () => {
       expect(rec.type).toBe('upcoming');
       expect(rec.message).toContain('Good window coming');
       expect(rec.message).toContain('2 days');
+      expect(rec.window).toEqual({ quality: 'excellent', startOffset: 1, length: 2, singleDay: false });
     });
 
     it('says "Great window" for a 3+ day upcoming window', () => {
@@ -346,6 +528,8 @@ describe('generateRecommendation', () => {
       const rec = generateRecommendation(days, null);
       expect(rec.type).toBe('season_over');
       expect(rec.message).toContain('Season may be over');
+      expect(rec.window).toBeNull();
+      expect(rec.reason).toBe('no_freeze');
     });
   });
 
@@ -359,6 +543,7 @@ describe('generateRecommendation', () => {
       const rec = generateRecommendation(days, null);
       expect(rec.type).toBe('too_cold');
       expect(rec.message).toContain('Too cold');
+      expect(rec.reason).toBe('no_thaw');
     });
   });
 
@@ -371,10 +556,362 @@ describe('generateRecommendation', () => {
       ];
       const rec = generateRecommendation(days, null);
       expect(rec.type).toBe('no_window');
+      expect(rec.window).toBeNull();
+      expect(rec.reason).toBeNull();
     });
   });
 });
 
+describe('daysBetween', () => {
+  it('counts calendar days, across months and backwards', () => {
+    expect(daysBetween('2026-02-27', '2026-03-02')).toBe(3);
+    expect(daysBetween('2026-03-10', '2026-03-09')).toBe(-1);
+  });
+});
+
+describe('addDays', () => {
+  it('steps calendar days, across months and backwards', () => {
+    expect(addDays('2026-02-27', 3)).toBe('2026-03-02');
+    expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+  });
+});
+
+describe('findWindows', () => {
+  // A 3-day good run, a 2-day excellent run and a lone excellent day
+  const days = [
+    day('2026-03-01', -8, 4),
+    day('2026-03-02', -8, 4),
+    day('2026-03-03', -8, 4),
+    day('2026-03-04', 3, 10),
+    day('2026-03-05', -5, 7),
+    day('2026-03-06', -5, 7),
+    day('2026-03-07', 3, 10),
+    day('2026-03-08', -5, 7),
+  ];
+
+  it('returns every run, longest first by default', () => {
+    const windows = findWindows(days);
+    expect(windows.map(w => [w.start, w.days.length])).toEqual([['2026-03-01', 3], ['2026-03-05', 2], ['2026-03-08', 1]]);
+    expect(findBestWindow(days)).toEqual(windows[0]);
+  });
+
+  it('ranks by expected yield', () => {
+    const windows = findWindows(days, SUGAR_MAPLE, 'yield');
+    expect(windows.map(w => w.totalYield)).toEqual([7, 4.2, 3.5]);
+  });
+
+  it('ranks by total score', () => {
+    const fair = customizeProfile(SUGAR_MAPLE, { minWindowScore: 1 });
+    const mixed = [
+      day('2026-03-01', -10, 14, fair),
+      day('2026-03-02', -10, 14, fair),
+      day('2026-03-03', -10, 14, fair),
+      day('2026-03-04', 3, 10, fair),
+      day('2026-03-05', -5, 7, fair),
+      day('2026-03-06', -5, 7, fair),
+    ];
+    expect(findWindows(mixed, fair)[0].start).toBe('2026-03-01');
+    expect(findWindows(mixed, fair, 'score')[0].start).toBe('2026-03-05');
+  });
+
+  it('keeps the earlier of two equal runs first', () => {
+    const twins = [day('2026-03-01', -5, 7), day('2026-03-02', 3, 10), day('2026-03-03', -5, 7)];
+    expect(findWindows(twins, SUGAR_MAPLE, 'score').map(w => w.start)).toEqual(['2026-03-01', '2026-03-03']);
+  });
+
+  it('is empty without a qualifying day', () => {
+    expect(findWindows([day('2026-03-01', 3, 10)])).toEqual([]);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Forecast confidence
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('forecast confidence', () => {
+  // A horizon of `n` days from Mar 1, poor unless listed, with lead-time confidence
+  function horizon(n: number, good: Record<number, [number, number]>): ForecastDay[] {
+    return Array.from({ length: n }, (_, i) => {
+      const [low, high] = good[i] ?? [5, 15];
+      return day(`2026-03-${String(i + 1).padStart(2, '0')}`, low, high, SUGAR_MAPLE, forecastConfidence(i));
+    });
+  }
+
+  it('is full for the first few days and decays to a floor', () => {
+    expect(forecastConfidence(0)).toBe(1);
+    expect(forecastConfidence(2)).toBe(1);
+    expect(forecastConfidence(7)).toBe(0.7);
+    expect(forecastConfidence(10)).toBe(0.52);
+    expect(forecastConfidence(30)).toBe(0.2);
+  });
+
+  it('maps to high, medium and low', () => {
+    expect(confidenceLevel(1)).toBe('high');
+    expect(confidenceLevel(0.75)).toBe('high');
+    expect(confidenceLevel(0.6)).toBe('medium');
+    expect(confidenceLevel(0.3)).toBe('low');
+  });
+
+  it('prefers a near window over a slightly longer distant one', () => {
+    const days = horizon(16, { 1: [-5, 7], 2: [-5, 7], 11: [-5, 7], 12: [-5, 7], 13: [-5, 7] });
+    const best = findBestWindow(days)!;
+    expect(best.start).toBe('2026-03-02');
+    expect(best.confidence).toBe(1);
+  });
+
+  it('still picks a much longer distant window', () => {
+    const far: Record<number, [number, number]> = {};
+    for (let i = 8; i <= 13; i++) far[i] = [-5, 7];
+    const days = horizon(16, { 1: [-5, 7], ...far });
+    const best = findBestWindow(days)!;
+    expect(best.start).toBe('2026-03-09');
+    expect(best.days).toHaveLength(6);
+    expect(best.confidence).toBe(0.49);
+  });
+
+  it('gives lead time for an uncertain window instead of dates', () => {
+    const days = horizon(16, { 9: [-5, 7], 10: [-5, 7], 11: [-5, 7] });
+    const rec = generateRecommendation(days, findBestWindow(days));
+    expect(rec.type).toBe('upcoming');
+    expect(rec.message).toContain('Likely window in 9–11 days (medium confidence)');
+  });
+
+  it('flags a window two weeks out as low confidence', () => {
+    const days = horizon(16, { 12: [-5, 7], 13: [-5, 7], 14: [-5, 7] });
+    expect(generateRecommendation(days, findBestWindow(days)).message).toContain('in 12–14 days (low confidence)');
+  });
+
+  it('keeps the dated message for a confident window', () => {
+    const days = horizon(8, { 3: [-5, 7], 4: [-5, 7] });
+    expect(generateRecommendation(days, findBestWindow(days)).message).toMatch(/^Good window coming/);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Ground and sky conditions
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('generateRecommendation — ground and sky conditions', () => {
+  function weather(d: ForecastDay, sky: Partial<ForecastDay>): ForecastDay {
+    return { ...d, ...sky };
+  }
+
+  it('warns about rain falling on fresh snow', () => {
+    const days = [
+      weather(day('2026-03-10', -6, 1), { precipType: 'snow', snowfall: 8 }),
+      day('2026-03-11', -5, 7),
+      day('2026-03-12', -4, 6),
+      weather(day('2026-03-13', 2, 9), { precipType: 'rain' }),
+    ];
+    const rec = generateRecommendation(days, findBestWindow(days));
+    expect(rec.type).toBe('upcoming');
+    expect(rec.message).toContain(`Rain on snow ${formatDate('2026-03-13')}`);
+  });
+
+  it('does not warn about rain when no snow has fallen', () => {
+    const days = [
+      day('2026-03-10', -5, 7),
+      day('2026-03-11', -4, 6),
+      weather(day('2026-03-12', 2, 9), { precipType: 'rain' }),
+    ];
+    expect(generateRecommendation(days, findBestWindow(days)).message).not.toContain('Rain on snow');
+  });
+
+  it('counts only snow that fell since the last rain', () => {
+    const days = [
+      weather(day('2026-03-10', -6, 1), { precipType: 'snow', snowfall: 5 }),
+      weather(day('2026-03-11', 1, 8), { precipType: 'rain' }),
+      weather(day('2026-03-12', 1, 9), { precipType: 'rain' }),
+    ];
+    const message = generateRecommendation(days, findBestWindow(days)).message;
+    expect(message.match(/Rain on snow/g)).toHaveLength(1);
+    expect(message).toContain(formatDate('2026-03-11'));
+  });
+
+  it('notes that heavy snow lengthens the season', () => {
+    const days = [
+      weather(day('2026-03-10', -9, -2), { precipType: 'snow', snowfall: 12 }),
+      weather(day('2026-03-11', -10, -3), { precipType: 'snow', snowfall: 6 }),
+    ];
+    const rec = generateRecommendation(days, findBestWindow(days));
+    expect(rec.type).toBe('too_cold');
+    expect(rec.message).toContain('18 cm of snow in the forecast');
+  });
+
+  it('mentions south slopes when the window is sunny', () => {
+    const days = [
+      weather(day('2026-03-10', -5, 7), { cloudCover: 0.1 }),
+      weather(day('2026-03-11', -4, 6), { cloudCover: 0.3 }),
+    ];
+    const rec = generateRecommendation(days, findBestWindow(days));
+    expect(rec.type).toBe('tap_now');
+    expect(rec.message).toContain('south-facing slopes');
+  });
+
+  it('leaves the message alone under cloud or without sky data', () => {
+    const cloudy = [
+      weather(day('2026-03-10', -5, 7), { cloudCover: 0.8 }),
+      weather(day('2026-03-11', -4, 6), { cloudCover: 0.6 }),
+    ];
+    const plain = [day('2026-03-10', -5, 7), day('2026-03-11', -4, 6)];
+    expect(generateRecommendation(cloudy, findBestWindow(cloudy)).message).toBe('Tap now — excellent conditions for the next 2 days.');
+    expect(generateRecommendation(plain, findBestWindow(plain)).message).toBe('Tap now — excellent conditions for the next 2 days.');
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Growing degree days and bud break
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('growingDegreeDays', () => {
+  it('counts the daily mean above 5°C', () => {
+    expect(growingDegreeDays(4, 16)).toBe(5);
+  });
+
+  it('never goes negative', () => {
+    expect(growingDegreeDays(-8, 3)).toBe(0);
+  });
+
+  it('adds nothing for a day missing a temperature', () => {
+    expect(growingDegreeDays(null, 20)).toBe(0);
+  });
+});
+
+describe('estimateBudBreak', () => {
+  function temps(start: number, lows: number[], highs: number[]) {
+    return lows.map((tempLow, i) => ({
+      date: `2026-04-${String(start + i).padStart(2, '0')}`,
+      tempLow,
+      tempHigh: highs[i],
+    }));
+  }
+
+  it('totals recorded days this year and today, then finds the crossing in the forecast', () => {
+    const recorded = [
+      { date: '2025-10-01', tempLow: 10, tempHigh: 20 }, // last year, ignored
+      ...temps(1, [6, 6], [24, 24]),                     // 10 GDD each
+    ];
+    const forecast = temps(3, [6, 6, 6, 6, 6, 6, 6, 6], [24, 24, 24, 24, 24, 24, 24, 24]);
+    const estimate = estimateBudBreak(recorded, forecast)!;
+    expect(estimate.gdd).toBe(30);
+    expect(estimate.forecastGdd).toBe(100);
+    expect(estimate.recordedDays).toBe(2);
+    expect(estimate.target).toBe(SUGAR_MAPLE.budBreakGdd);
+    expect(estimate.date).toBe('2026-04-08'); // 80 reached on the 8th day
+    expect(estimate.daysUntil).toBe(5);
+  });
+
+  it('counts from an injected today when the forecast starts the day before', () => {
+    const recorded = temps(1, [6, 6], [24, 24]);
+    const forecast = temps(3, Array(8).fill(6), Array(8).fill(24));
+    const estimate = estimateBudBreak(recorded, forecast, SUGAR_MAPLE, '2026-04-04')!;
+    expect(estimate.gdd).toBe(40);
+    expect(estimate.date).toBe('2026-04-08');
+    expect(estimate.daysUntil).toBe(4);
+  });
+
+  it('reports zero days once the target is already behind us', () => {
+    const recorded = temps(1, Array(9).fill(6), Array(9).fill(24));
+    const estimate = estimateBudBreak(recorded, temps(10, [-2], [4]))!;
+    expect(estimate.date).toBe('2026-04-08');
+    expect(estimate.daysUntil).toBe(0);
+  });
+
+  it('has no date while the forecast stays cold', () => {
+    const estimate = estimateBudBreak([], temps(1, [-6, -5], [4, 6]))!;
+    expect(estimate).toMatchObject({ gdd: 0, date: null, daysUntil: null });
+  });
+
+  it('uses the profile target', () => {
+    const forecast = temps(1, Array(7).fill(6), Array(7).fill(24));
+    expect(estimateBudBreak([], forecast, SCORING_PROFILES.red_maple)!.daysUntil).toBe(5);
+  });
+
+  it('needs a forecast', () => {
+    expect(estimateBudBreak([], [])).toBeNull();
+  });
+});
+
+describe('generateRecommendation — bud break', () => {
+  const days = [day('2026-04-10', -5, 7), day('2026-04-11', -4, 6), day('2026-04-12', -4, 6)];
+  const estimate = { gdd: 62, forecastGdd: 90, target: 80, date: '2026-04-13', daysUntil: 3, recordedDays: 40 };
+
+  it('says to pull taps when buddy sap is close, even during a window', () => {
+    const rec = generateRecommendation(days, findBestWindow(days), SUGAR_MAPLE, estimate);
+    expect(rec.type).toBe('pull_taps');
+    expect(rec.message).toBe('Pull taps — buddy sap likely within 3 days. 62 of ~80 growing degree days to bud break so far.');
+  });
+
+  it('says buds are breaking once the target is reached', () => {
+    const rec = generateRecommendation(days, findBestWindow(days), SUGAR_MAPLE, { ...estimate, daysUntil: 0, gdd: 84 });
+    expect(rec.message).toMatch(/^Pull taps — buds are breaking/);
+  });
+
+  it('ignores a bud break further out than a week', () => {
+    const rec = generateRecommendation(days, findBestWindow(days), SUGAR_MAPLE, { ...estimate, daysUntil: 10 });
+    expect(rec.type).toBe('tap_now');
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Scoring profiles
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('scoring profiles', () => {
+  const birch = SCORING_PROFILES.birch;
+
+  it('defaults to the sugar maple thresholds', () => {
+    expect(scoreDay(-5, 7)).toEqual(scoreDay(-5, 7, SUGAR_MAPLE));
+  });
+
+  it('every preset passes validation', () => {
+    for (const profile of Object.values(SCORING_PROFILES)) {
+      expect(validateProfile(profile)).toBeNull();
+    }
+  });
+
+  it('looks up presets by id', () => {
+    expect(getScoringProfile('red_maple')!.name).toBe('Red maple');
+    expect(getScoringProfile('oak')).toBeNull();
+    expect(getScoringProfile('toString')).toBeNull();
+  });
+
+  it('scores birch on cool nights without a hard freeze', () => {
+    expect(scoreDay(1, 10).rating).toBe('poor');
+    expect(scoreDay(1, 10, birch).rating).toBe('excellent');
+  });
+
+  it('lets fair days count toward a birch window', () => {
+    const days = [
+      day('2026-04-20', -5, 20, birch),  // fair
+      day('2026-04-21', 1, 10, birch),   // excellent
+      day('2026-04-22', 8, 15, birch),   // poor
+    ];
+    expect(findBestWindow(days, birch)!.days).toHaveLength(2);
+    expect(findBestWindow(days, SUGAR_MAPLE)!.days).toHaveLength(1);
+  });
+
+  it('uses the profile freeze threshold for season_over', () => {
+    const days = [day('2026-04-20', 2, 12, birch), day('2026-04-21', 3, 14, birch)];
+    expect(generateRecommendation(days, null).type).toBe('season_over');
+    expect(generateRecommendation(days, null, birch).type).not.toBe('season_over');
+  });
+
+  it('applies custom thresholds on top of a preset', () => {
+    const custom = customizeProfile(SUGAR_MAPLE, { idealLowMin: -12 });
+    expect(custom.id).toBe('custom');
+    expect(custom.thawThreshold).toBe(SUGAR_MAPLE.thawThreshold);
+    expect(scoreDay(-10, 6).rating).toBe('good');
+    expect(scoreDay(-10, 6, custom).rating).toBe('excellent');
+  });
+
+  it('rejects inconsistent custom thresholds', () => {
+    expect(validateProfile(customizeProfile(SUGAR_MAPLE, { idealLowMin: 0 }))).toMatch(/inverted/);
+    expect(validateProfile(customizeProfile(SUGAR_MAPLE, { idealHighMin: 1 }))).toMatch(/thaw threshold/);
+    expect(validateProfile(customizeProfile(SUGAR_MAPLE, { minWindowScore: 2.5 }))).toMatch(/window score/);
+  });
+});
+
 // ═══════════════════════════════════════════════════════════════════════════
 // formatDate
 // ═══════════════════════════════════════════════════════════════════════════
@@ -440,6 +977,10 @@ describe('getSeasonInfo', () => {
       expect(info.seasonEndDate).toBe(doyToDate(90, 2026));
     });
 
+    it('words the message in the locale', () => {
+      expect(getSeasonInfo(45, 2026, 'fr-CA').message).toContain('la saison des sucres se termine habituellement vers le');
+    });
+
     it('lat 49 — Far northern Ontario', () => {
       const info = getSeasonInfo(49, 2026);
       expect(info.tapByDate).toBe(doyToDate(104, 2026));
@@ -1,3 +1,8 @@
+import { formatMessage, DEFAULT_LOCALE, type Locale, type MessageRef } from './i18n';
+
+// Dates in messages are formatted by the catalogue; kept here for callers
+export { formatDate } from './i18n';
+
 // ── Types ──────────────────────────────────────────────────────────────────
 
 export type Rating = 'excellent' | 'good' | 'fair' | 'poor' | 'unknown';
@@ -5,8 +10,23 @@ export type Rating = 'excellent' | 'good' | 'fair' | 'poor' | 'unknown';
 export interface DayScore {
   rating: Rating;
   score: number;
+  hourly?: HourlyDetail;
+}
+
+export interface HourlyTemp {
+  time: number; // unix seconds
+  temperature: number;
 }
 
+export interface HourlyDetail {
+  hoursBelowFreeze: number;
+  hoursAboveThaw: number;
+  thawAt: number | null;     // first hour above thaw after a freeze (unix seconds)
+  refreezeAt: number | null; // first hour back below freezing after the thaw
+}
+
+export type PrecipType = 'rain' | 'snow' | 'sleet';
+
 export interface ForecastDay {
   date: string;
   tempHigh: number | null;
@@ -15,6 +35,12 @@ export interface ForecastDay {
   icon: string;
   rating: Rating;
   score: number;
+  sapYield: number; // estimated litres per tap
+  confidence: number; // 0–1, falls with lead time; 1 for observed days
+  precipType: PrecipType | null;
+  snowfall: number;          // new snow in cm
+  cloudCover: number | null; // 0–1
+  hourly?: HourlyDetail;
 }
 
 export interface BestWindow {
@@ -22,18 +48,61 @@ export interface BestWindow {
   end: string;
   days: ForecastDay[];
   totalScore: number;
+  totalYield: number; // estimated litres per tap over the whole window
+  confidence: number; // average of the window's days
 }
 
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
 export type RecommendationType =
   | 'tap_now'
   | 'upcoming'
   | 'no_window'
   | 'season_over'
-  | 'too_cold';
+  | 'too_cold'
+  | 'pull_taps';
 
-export interface Recommendation {
+export type WindowQuality = 'excellent' | 'good';
+
+// Why there's no window at all: nothing freezes (season_over) or nothing thaws (too_cold)
+export type RecommendationReason = 'no_freeze' | 'no_thaw';
+
+// The window a call is about, relative to the first forecast day
+export interface RecommendedWindow {
+  quality: WindowQuality;
+  startOffset: number; // days from today; 0 is today
+  length: number;      // days
+  singleDay: boolean;  // too short to tap for, so the call is no_window
+}
+
+// code and params say what the call is; message is the same thing in words,
+// with the notes appended, in the locale it was generated for. window and
+// reason carry the same facts for clients that word the call themselves.
+export type Recommendation = MessageRef & {
   type: RecommendationType;
+  window: RecommendedWindow | null;
+  reason: RecommendationReason | null;
+  notes: MessageRef[];
   message: string;
+};
+
+// The call before notes and wording are added
+type BaseRecommendation = MessageRef & Pick<Recommendation, 'type' | 'window' | 'reason'>;
+
+export interface ScoringThresholds {
+  freezeThreshold: number;
+  thawThreshold: number;
+  idealLowMin: number;
+  idealLowMax: number;
+  idealHighMin: number;
+  idealHighMax: number;
+  minWindowScore: number; // lowest day score that counts toward a window
+}
+
+export interface ScoringProfile extends ScoringThresholds {
+  id: string;
+  name: string;
+  budBreakGdd: number; // growing degree days since Jan 1 at which buds swell and sap turns buddy
 }
 
 // ── Scoring constants (all in °C) ──────────────────────────────────────────
@@ -44,18 +113,143 @@ export const IDEAL_LOW_MAX = -2;
 export const IDEAL_HIGH_MIN = 4;
 export const IDEAL_HIGH_MAX = 10;
 
+// ── Scoring profiles ───────────────────────────────────────────────────────
+
+export const SUGAR_MAPLE: ScoringProfile = {
+  id: 'sugar_maple',
+  name: 'Sugar maple',
+  freezeThreshold: FREEZE_THRESHOLD,
+  thawThreshold: THAW_THRESHOLD,
+  idealLowMin: IDEAL_LOW_MIN,
+  idealLowMax: IDEAL_LOW_MAX,
+  idealHighMin: IDEAL_HIGH_MIN,
+  idealHighMax: IDEAL_HIGH_MAX,
+  minWindowScore: 2,
+  budBreakGdd: 80,
+};
+
+export const SCORING_PROFILES: Readonly<Record<string, ScoringProfile>> = {
+  sugar_maple: SUGAR_MAPLE,
+  // Runs earlier and on milder swings than sugar maple
+  red_maple: {
+    id: 'red_maple',
+    name: 'Red maple',
+    freezeThreshold: 0,
+    thawThreshold: 1,
+    idealLowMin: -5,
+    idealLowMax: -1,
+    idealHighMin: 3,
+    idealHighMax: 8,
+    minWindowScore: 2,
+    budBreakGdd: 60, // breaks bud a week or two ahead of sugar maple
+  },
+  // Freeze-thaw driven like maple, but needs warmer days to run well
+  black_walnut: {
+    id: 'black_walnut',
+    name: 'Black walnut',
+    freezeThreshold: 0,
+    thawThreshold: 2,
+    idealLowMin: -6,
+    idealLowMax: -2,
+    idealHighMin: 5,
+    idealHighMax: 12,
+    minWindowScore: 2,
+    budBreakGdd: 120,
+  },
+  // Root-pressure flow after maple season: cool nights, mild days, no hard
+  // freeze needed, and fair days still keep the run going
+  birch: {
+    id: 'birch',
+    name: 'Birch',
+    freezeThreshold: 4,
+    thawThreshold: 4,
+    idealLowMin: -2,
+    idealLowMax: 3,
+    idealHighMin: 7,
+    idealHighMax: 15,
+    minWindowScore: 1,
+    budBreakGdd: 110, // runs until the leaves come out
+  },
+};
+
+export function getScoringProfile(id: string): ScoringProfile | null {
+  return Object.prototype.hasOwnProperty.call(SCORING_PROFILES, id) ? SCORING_PROFILES[id] : null;
+}
+
+// Applies user-supplied thresholds on top of a preset
+export function customizeProfile(base: ScoringProfile, overrides: Partial<ScoringThresholds>): ScoringProfile {
+  return { ...base, ...overrides, id: 'custom', name: `Custom (${base.name})` };
+}
+
+// Returns a description of the first inconsistency, or null when usable
+export function validateProfile(profile: ScoringThresholds): string | null {
+  if (profile.idealLowMin > profile.idealLowMax) {
+    return 'Ideal low range is inverted';
+  }
+  if (profile.idealHighMin > profile.idealHighMax) {
+    return 'Ideal high range is inverted';
+  }
+  if (profile.idealLowMax >= profile.freezeThreshold) {
+    return 'Ideal low range must be below the freeze threshold';
+  }
+  if (profile.idealHighMin <= profile.thawThreshold) {
+    return 'Ideal high range must be above the thaw threshold';
+  }
+  if (![1, 2, 3].includes(profile.minWindowScore)) {
+    return 'Minimum window score must be 1, 2 or 3';
+  }
+  return null;
+}
+
+// ── Hourly scoring constants ───────────────────────────────────────────────
+// A short afternoon spike above thaw doesn't move sap; both sides of the
+// cycle need to hold for a few hours.
+export const MIN_FREEZE_HOURS = 3;
+export const MIN_THAW_HOURS = 3;
+export const MIN_HOURLY_COVERAGE = 18; // hours of data needed to trust a day
+
+// ── Sap yield constants ────────────────────────────────────────────────────
+// A healthy tap averages ~40 L a season; the best days run 3–4 L.
+export const PEAK_DAILY_YIELD = 3.5;     // litres per tap on an ideal day
+export const FULL_FREEZE_DEPTH = 5;      // °C below freezing for full recharge
+export const FULL_THAW_MAGNITUDE = 5;    // °C above thaw for full pressure
+export const WARM_NIGHT_FACTOR = 0.5;    // previous night didn't freeze
+
+// ── Forecast confidence constants ──────────────────────────────────────────
+// Daily forecasts hold up for the first couple of days, then lose skill
+// steadily; by two weeks out they're little better than climatology.
+export const FULL_CONFIDENCE_DAYS = 2;
+export const CONFIDENCE_DECAY_PER_DAY = 0.06;
+export const MIN_CONFIDENCE = 0.2;
+export const HIGH_CONFIDENCE = 0.75;
+export const MEDIUM_CONFIDENCE = 0.5;
+
+// ── Ground and sky constants ────────────────────────────────────────────────
+// Air temperature isn't the whole story: snow cover keeps roots cold and
+// stretches the season, rain on it melts it fast, and sun thaws south
+// slopes hours before shaded ones.
+export const SNOW_COVER_CM = 2;       // new snow that leaves the ground white
+export const DEEP_SNOW_CM = 15;       // new snow that insulates the roots
+export const SUNNY_CLOUD_COVER = 0.3; // window average at or below counts as sunny
+
+// ── Growing degree day constants ───────────────────────────────────────────
+// Buds respond to accumulated warmth above ~5°C; once they swell the sap
+// picks up an off flavour ("buddy") and the season is done.
+export const GDD_BASE = 5;          // °C
+export const BUDDY_SAP_LEAD_DAYS = 7; // warn this far ahead of the estimate
+
 // ── Scoring logic ──────────────────────────────────────────────────────────
 
-export function scoreDay(tempLow: number, tempHigh: number): DayScore {
-  const freezes = tempLow < FREEZE_THRESHOLD;
-  const thaws = tempHigh > THAW_THRESHOLD;
+export function scoreDay(tempLow: number, tempHigh: number, profile: ScoringProfile = SUGAR_MAPLE): DayScore {
+  const freezes = tempLow < profile.freezeThreshold;
+  const thaws = tempHigh > profile.thawThreshold;
 
   if (!freezes || !thaws) {
     return { rating: 'poor', score: 0 };
   }
 
-  const lowInIdeal = tempLow >= IDEAL_LOW_MIN && tempLow <= IDEAL_LOW_MAX;
-  const highInIdeal = tempHigh >= IDEAL_HIGH_MIN && tempHigh <= IDEAL_HIGH_MAX;
+  const lowInIdeal = tempLow >= profile.idealLowMin && tempLow <= profile.idealLowMax;
+  const highInIdeal = tempHigh >= profile.idealHighMin && tempHigh <= profile.idealHighMax;
 
   if (lowInIdeal && highInIdeal) {
     return { rating: 'excellent', score: 3 };
@@ -67,86 +261,338 @@ export function scoreDay(tempLow: number, tempHigh: number): DayScore {
   return { rating: 'fair', score: 1 };
 }
 
-export function findBestWindow(days: ForecastDay[]): BestWindow | null {
-  let bestRun: BestWindow | null = null;
+export function analyzeHours(hours: HourlyTemp[], profile: ScoringProfile = SUGAR_MAPLE): HourlyDetail {
+  let hoursBelowFreeze = 0;
+  let hoursAboveThaw = 0;
+  let thawAt: number | null = null;
+  let refreezeAt: number | null = null;
+  let frozen = false;
+
+  for (const h of hours) {
+    if (h.temperature < profile.freezeThreshold) {
+      hoursBelowFreeze++;
+      frozen = true;
+      if (thawAt !== null && refreezeAt === null) {
+        refreezeAt = h.time;
+      }
+    } else if (h.temperature > profile.thawThreshold) {
+      hoursAboveThaw++;
+      if (frozen && thawAt === null) {
+        thawAt = h.time;
+      }
+    }
+  }
+
+  return { hoursBelowFreeze, hoursAboveThaw, thawAt, refreezeAt };
+}
+
+export function scoreDayHourly(hours: HourlyTemp[], profile: ScoringProfile = SUGAR_MAPLE): DayScore {
+  if (hours.length < MIN_HOURLY_COVERAGE) {
+    return { rating: 'unknown', score: 0 };
+  }
+
+  const detail = analyzeHours(hours, profile);
+  const temps = hours.map(h => h.temperature);
+  const tempLow = Math.min(...temps);
+  const tempHigh = Math.max(...temps);
+
+  // Needs a real freeze→thaw crossing, held long enough on both sides: the
+  // freeze hours have to lead into the thaw, and the thaw hours follow it
+  // until the refreeze. Hours on the wrong side don't make a cycle.
+  const { thawAt, refreezeAt } = detail;
+  if (thawAt === null) {
+    return { rating: 'poor', score: 0, hourly: detail };
+  }
+  const freezeHours = hours.filter(h => h.time < thawAt && h.temperature < profile.freezeThreshold).length;
+  const thawHours = hours.filter(h =>
+    h.time >= thawAt && (refreezeAt === null || h.time < refreezeAt) && h.temperature > profile.thawThreshold).length;
+  if (freezeHours < MIN_FREEZE_HOURS || thawHours < MIN_THAW_HOURS) {
+    return { rating: 'poor', score: 0, hourly: detail };
+  }
+
+  return { ...scoreDay(tempLow, tempHigh, profile), hourly: detail };
+}
+
+// Linear 0→1 between x0 and x1, clamped
+function ramp(x: number, x0: number, x1: number): number {
+  return Math.min(1, Math.max(0, (x - x0) / (x1 - x0)));
+}
+
+export function estimateSapYield(
+  tempLow: number,
+  tempHigh: number,
+  prevLow: number | null = null,
+  profile: ScoringProfile = SUGAR_MAPLE,
+): number {
+  const freezeDepth = profile.freezeThreshold - tempLow;
+  const thawMagnitude = tempHigh - profile.thawThreshold;
+  if (freezeDepth <= 0 || thawMagnitude <= 0) {
+    return 0;
+  }
+
+  // Deeper freezes recharge the tree, but a very hard freeze is slow to
+  // thaw out and the run starts late
+  const freezeFactor = ramp(freezeDepth, 0, FULL_FREEZE_DEPTH)
+    * (1 - 0.4 * ramp(profile.idealLowMin - tempLow, 3, 8));
+  // Warmer days build more stem pressure, until it's too warm to refreeze
+  const thawFactor = ramp(thawMagnitude, 0, FULL_THAW_MAGNITUDE)
+    * (1 - 0.5 * ramp(tempHigh - profile.idealHighMax, 0, 5));
+  // Back-to-back freezes keep flow going; a warm night before stalls it
+  const prevFactor = prevLow === null ? 1
+    : prevLow < profile.freezeThreshold ? 1 + 0.2 * ramp(profile.freezeThreshold - prevLow, 0, FULL_FREEZE_DEPTH)
+    : WARM_NIGHT_FACTOR;
+
+  return Math.round(PEAK_DAILY_YIELD * freezeFactor * thawFactor * prevFactor * 10) / 10;
+}
+
+// How far to trust a forecast day `leadDays` after today
+export function forecastConfidence(leadDays: number): number {
+  const decay = Math.max(0, leadDays - FULL_CONFIDENCE_DAYS) * CONFIDENCE_DECAY_PER_DAY;
+  return Math.round(Math.max(MIN_CONFIDENCE, 1 - decay) * 100) / 100;
+}
+
+export function confidenceLevel(confidence: number): ConfidenceLevel {
+  if (confidence >= HIGH_CONFIDENCE) return 'high';
+  if (confidence >= MEDIUM_CONFIDENCE) return 'medium';
+  return 'low';
+}
+
+// What makes one window better than another: more days, a higher total
+// score, or more sap
+export type WindowObjective = 'length' | 'score' | 'yield';
+
+export const WINDOW_OBJECTIVES: readonly WindowObjective[] = ['length', 'score', 'yield'];
+
+// Uncertain days count for less, so a long run far out doesn't beat a
+// slightly shorter one we can actually rely on
+function weightedLength(run: BestWindow): number {
+  return run.days.reduce((sum, d) => sum + d.confidence, 0);
+}
+
+function weightedScore(run: BestWindow): number {
+  return run.days.reduce((sum, d) => sum + d.score * d.confidence, 0);
+}
+
+function weightedYield(run: BestWindow): number {
+  return run.days.reduce((sum, d) => sum + d.sapYield * d.confidence, 0);
+}
+
+// Each objective, with a tiebreak so equal runs still rank on something
+const OBJECTIVE_MEASURES: Record<WindowObjective, [(run: BestWindow) => number, (run: BestWindow) => number]> = {
+  length: [weightedLength, weightedScore],
+  score: [weightedScore, weightedLength],
+  yield: [weightedYield, weightedScore],
+};
+
+function compareRuns(a: BestWindow, b: BestWindow, objective: WindowObjective): number {
+  const [primary, tiebreak] = OBJECTIVE_MEASURES[objective];
+  return primary(b) - primary(a) || tiebreak(b) - tiebreak(a);
+}
+
+function closeRun(run: BestWindow): BestWindow {
+  run.end = run.days[run.days.length - 1].date;
+  run.confidence = Math.round(weightedLength(run) / run.days.length * 100) / 100;
+  return run;
+}
+
+// Every run of days good enough to tap for, best first. Runs that tie
+// keep their order, so the earlier one wins.
+export function findWindows(
+  days: ForecastDay[],
+  profile: ScoringProfile = SUGAR_MAPLE,
+  objective: WindowObjective = 'length',
+): BestWindow[] {
+  const runs: BestWindow[] = [];
   let currentRun: BestWindow | null = null;
 
   for (const day of days) {
-    if (day.score >= 2) {
-      // Good or Excellent
+    if (day.score >= profile.minWindowScore) {
+      // Good or Excellent (or Fair, for profiles that allow it)
       if (!currentRun) {
-        currentRun = { start: day.date, end: day.date, days: [day], totalScore: day.score };
+        currentRun = {
+          start: day.date,
+          end: day.date,
+          days: [day],
+          totalScore: day.score,
+          totalYield: day.sapYield,
+          confidence: day.confidence,
+        };
       } else {
         currentRun.days.push(day);
         currentRun.totalScore += day.score;
+        currentRun.totalYield = Math.round((currentRun.totalYield + day.sapYield) * 10) / 10;
       }
-    } else {
-      if (currentRun) {
-        currentRun.end = currentRun.days[currentRun.days.length - 1].date;
-        if (!bestRun || currentRun.days.length > bestRun.days.length ||
-            (currentRun.days.length === bestRun.days.length && currentRun.totalScore > bestRun.totalScore)) {
-          bestRun = currentRun;
-        }
-      }
+    } else if (currentRun) {
+      runs.push(closeRun(currentRun));
       currentRun = null;
     }
   }
   // Close any trailing run
   if (currentRun) {
-    currentRun.end = currentRun.days[currentRun.days.length - 1].date;
-    if (!bestRun || currentRun.days.length > bestRun.days.length ||
-        (currentRun.days.length === bestRun.days.length && currentRun.totalScore > bestRun.totalScore)) {
-      bestRun = currentRun;
-    }
+    runs.push(closeRun(currentRun));
   }
 
-  return bestRun;
+  return runs.sort((a, b) => compareRuns(a, b, objective));
 }
 
-export function generateRecommendation(days: ForecastDay[], bestWindow: BestWindow | null): Recommendation {
+export function findBestWindow(
+  days: ForecastDay[],
+  profile: ScoringProfile = SUGAR_MAPLE,
+  objective: WindowObjective = 'length',
+): BestWindow | null {
+  return findWindows(days, profile, objective)[0] ?? null;
+}
+
+// Whole days from one calendar date (YYYY-MM-DD) to another
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+// The calendar date n days after (or before) another
+export function addDays(date: string, n: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + n * 86400000).toISOString().split('T')[0];
+}
+
+function baseRecommendation(
+  days: ForecastDay[],
+  bestWindow: BestWindow | null,
+  profile: ScoringProfile,
+  today: string,
+): BaseRecommendation {
   if (!bestWindow || bestWindow.days.length === 0) {
     // Check if it's consistently warm (season over?)
-    const allWarm = days.every(d => d.tempLow !== null && d.tempLow > FREEZE_THRESHOLD);
+    const allWarm = days.every(d => d.tempLow !== null && d.tempLow > profile.freezeThreshold);
     if (allWarm) {
-      return { type: 'season_over', message: 'Season may be over — no freezing nights in the forecast.' };
+      return { type: 'season_over', code: 'rec.season_over', params: {}, window: null, reason: 'no_freeze' };
     }
     // Check if it's consistently frozen
-    const allFrozen = days.every(d => d.tempHigh !== null && d.tempHigh <= THAW_THRESHOLD);
+    const allFrozen = days.every(d => d.tempHigh !== null && d.tempHigh <= profile.thawThreshold);
     if (allFrozen) {
-      return { type: 'too_cold', message: 'Too cold — daytime temperatures aren\'t rising above freezing yet.' };
+      return { type: 'too_cold', code: 'rec.too_cold', params: {}, window: null, reason: 'no_thaw' };
     }
-    return { type: 'no_window', message: 'No strong tapping window in the current forecast.' };
+    return { type: 'no_window', code: 'rec.no_window', params: {}, window: null, reason: null };
   }
 
   const startDate = bestWindow.start;
-  const isToday = startDate === days[0].date;
   const len = bestWindow.days.length;
+  const avgScore = bestWindow.totalScore / len;
+  const window: RecommendedWindow = {
+    quality: avgScore >= 2.5 ? 'excellent' : 'good',
+    // A window already under way counts as starting today
+    startOffset: Math.max(0, daysBetween(today, startDate)),
+    length: len,
+    singleDay: len === 1,
+  };
+  const isToday = window.startOffset === 0;
 
   // Single-day windows: not enough for a productive sap run
-  if (len === 1) {
-    const when = isToday ? 'today' : `coming ${formatDate(startDate)}`;
+  if (window.singleDay) {
     return {
       type: 'no_window',
-      message: `Only a brief 1-day window ${when} — longer freeze-thaw runs produce much better sap flow.`
+      code: 'rec.brief_window',
+      params: { date: startDate, today: isToday },
+      window,
+      reason: null,
     };
   }
 
-  const avgScore = bestWindow.totalScore / len;
-  const quality = avgScore >= 2.5 ? 'excellent' : 'good';
-
   if (isToday) {
-    const stretch = len >= 3 ? ' Great stretch for strong sap flow.' : '';
     return {
       type: 'tap_now',
-      message: `Tap now — ${quality} conditions for the next ${len} days.${stretch}`
+      code: 'rec.tap_now',
+      params: { quality: window.quality, days: len },
+      window,
+      reason: null,
     };
   }
 
-  const startFormatted = formatDate(startDate);
-  const windowQuality = len >= 3 ? 'Great' : 'Good';
+  // Far enough out that the dates may shift: give lead time, not a promise
+  const level = confidenceLevel(bestWindow.confidence);
+  if (level !== 'high') {
+    const lead = window.startOffset;
+    return {
+      type: 'upcoming',
+      code: 'rec.likely_window',
+      params: { from: lead, to: lead + len - 1, confidence: level, days: len },
+      window,
+      reason: null,
+    };
+  }
+
+  return { type: 'upcoming', code: 'rec.upcoming', params: { date: startDate, days: len }, window, reason: null };
+}
+
+// First rain day with snow on the ground, counting only snow that falls
+// within the forecast since nothing tells us the current snowpack
+function findRainOnSnow(days: ForecastDay[]): ForecastDay | null {
+  let snow = 0;
+  for (const day of days) {
+    snow += day.snowfall;
+    if (day.precipType === 'rain' && snow >= SNOW_COVER_CM) return day;
+    // A warm night with rain takes the cover with it
+    if (day.precipType === 'rain') snow = 0;
+  }
+  return null;
+}
+
+// Ground and sky conditions worth adding to the temperature-based message
+function conditionNotes(days: ForecastDay[], window: BestWindow | null): MessageRef[] {
+  const notes: MessageRef[] = [];
+
+  const rainOnSnow = findRainOnSnow(days);
+  if (rainOnSnow) {
+    notes.push({ code: 'note.rain_on_snow', params: { date: rainOnSnow.date } });
+  }
+
+  const snowfall = Math.round(days.reduce((sum, d) => sum + d.snowfall, 0));
+  if (snowfall >= DEEP_SNOW_CM) {
+    notes.push({ code: 'note.deep_snow', params: { cm: snowfall } });
+  }
+
+  const cover = window?.days.map(d => d.cloudCover).filter((c): c is number => c !== null) ?? [];
+  if (cover.length > 0 && cover.reduce((sum, c) => sum + c, 0) / cover.length <= SUNNY_CLOUD_COVER) {
+    notes.push({ code: 'note.sunny', params: {} });
+  }
+
+  return notes;
+}
+
+// Bud break ends the season whatever the freeze-thaw cycles are doing
+function budBreakRecommendation(budBreak: BudBreakEstimate): BaseRecommendation | null {
+  const { daysUntil, gdd, target } = budBreak;
+  if (daysUntil === null || daysUntil > BUDDY_SAP_LEAD_DAYS) return null;
+
+  if (daysUntil === 0) {
+    return { type: 'pull_taps', code: 'rec.pull_taps', params: { gdd: Math.round(gdd) }, window: null, reason: null };
+  }
   return {
-    type: 'upcoming',
-    message: `${windowQuality} window coming ${startFormatted} — ${len} days of favorable conditions.`
+    type: 'pull_taps',
+    code: 'rec.pull_taps_soon',
+    params: { days: daysUntil, gdd: Math.round(gdd), target },
+    window: null,
+    reason: null,
+  };
+}
+
+// today is the local date where the forecast is; it defaults to the first
+// forecast day, which is only right while the forecast is fresh
+export function generateRecommendation(
+  days: ForecastDay[],
+  bestWindow: BestWindow | null,
+  profile: ScoringProfile = SUGAR_MAPLE,
+  budBreak: BudBreakEstimate | null = null,
+  locale: Locale = DEFAULT_LOCALE,
+  today: string = days[0]?.date ?? '',
+): Recommendation {
+  const recommendation = (budBreak && budBreakRecommendation(budBreak))
+    || baseRecommendation(days, bestWindow, profile, today);
+  // Sun only matters for a window we're actually recommending
+  const tapping = recommendation.type === 'tap_now' || recommendation.type === 'upcoming';
+  const notes = conditionNotes(days, tapping ? bestWindow : null);
+  return {
+    ...recommendation,
+    notes,
+    message: [recommendation, ...notes].map(ref => formatMessage(ref, locale)).join(' '),
   };
 }
 
@@ -177,7 +623,7 @@ export function doyToDate(doy: number, year: number): string {
   return d.toISOString().split('T')[0];
 }
 
-export function getSeasonInfo(latitude: number, year: number): SeasonInfo {
+export function getSeasonInfo(latitude: number, year: number, locale: Locale = DEFAULT_LOCALE): SeasonInfo {
   const lat = Math.min(49, Math.max(39, Math.abs(latitude)));
   const pts = SEASON_REFERENCE_POINTS;
 
@@ -209,17 +655,66 @@ export function getSeasonInfo(latitude: number, year: number): SeasonInfo {
   const tapByDate = doyToDate(tapByDoy, year);
   const seasonEndDate = doyToDate(seasonEndDoy, year);
 
-  const tapByFormatted = formatDate(tapByDate);
-  const seasonEndFormatted = formatDate(seasonEndDate);
-
-  const message = `Based on your latitude, sap season typically wraps up around ${seasonEndFormatted}. `
-    + `If you haven't seen an ideal window by ${tapByFormatted}, tap your trees anyway — `
-    + `early tapping doesn't reduce yield, and you'll catch any remaining freeze-thaw cycles.`;
+  const message = formatMessage({ code: 'season.timing', params: { tapBy: tapByDate, seasonEnd: seasonEndDate } }, locale);
 
   return { tapByDate, seasonEndDate, message };
 }
 
-export function formatDate(dateStr: string): string {
-  const d = new Date(dateStr + 'T12:00:00');
-  return d.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+// ── Growing degree days ───────────────────────────────────────────────────
+
+export interface DailyTemps {
+  date: string;
+  tempLow: number | null;
+  tempHigh: number | null;
+}
+
+export interface BudBreakEstimate {
+  gdd: number;               // accumulated since Jan 1 through today
+  forecastGdd: number;       // ...through the end of the forecast
+  target: number;            // the profile's bud-break total
+  date: string | null;       // first day at or past the target, if within the data
+  daysUntil: number | null;  // from today; 0 once reached
+  recordedDays: number;      // archived days before today that count toward the total
+}
+
+// Simple average method; days missing a temperature add nothing
+export function growingDegreeDays(tempLow: number | null, tempHigh: number | null, base: number = GDD_BASE): number {
+  if (tempLow === null || tempHigh === null) return 0;
+  return Math.max(0, (tempLow + tempHigh) / 2 - base);
+}
+
+// Runs the accumulator over this year's recorded days and then the forecast.
+// The archive only covers days since someone first looked at the location,
+// so early-season gaps count as zero — harmless while it's still freezing.
+export function estimateBudBreak(
+  recorded: DailyTemps[],
+  forecast: DailyTemps[],
+  profile: ScoringProfile = SUGAR_MAPLE,
+  today: string = forecast[0]?.date ?? '',
+): BudBreakEstimate | null {
+  if (!today || forecast.length === 0) return null;
+
+  const yearStart = `${today.substring(0, 4)}-01-01`;
+  const past = recorded
+    .filter(d => d.date >= yearStart && d.date < today)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  let total = 0;
+  let gdd = 0;
+  let date: string | null = null;
+  for (const day of [...past, ...forecast]) {
+    total += growingDegreeDays(day.tempLow, day.tempHigh);
+    if (day.date <= today) gdd = total;
+    if (date === null && total >= profile.budBreakGdd) date = day.date;
+  }
+
+  const round = (n: number) => Math.round(n * 10) / 10;
+  return {
+    gdd: round(gdd),
+    forecastGdd: round(total),
+    target: profile.budBreakGdd,
+    date,
+    daysUntil: date === null ? null : Math.max(0, daysBetween(today, date)),
+    recordedDays: past.length,
+  };
 }
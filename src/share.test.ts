@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  newShareId,
+  isValidShareId,
+  parseShareLabel,
+  wrapText,
+  headline,
+  renderShareImage,
+  ShareValidationError,
+  type ShareSnapshot,
+} from './share';
+import { forecastDay, forecastInput } from './testing';
+
+const SNAPSHOT: ShareSnapshot = {
+  id: 'abcdefghijkl',
+  lat: 44.26,
+  lon: -72.58,
+  label: 'North bush <VT>',
+  createdAt: '2026-03-09T12:00:00.000Z',
+  forecast: forecastInput({
+    days: [
+      forecastDay('2026-03-10', 'excellent', { score: 3 }),
+      forecastDay('2026-03-11', 'good', { score: 2 }),
+      forecastDay('2026-03-12', 'poor', { confidence: 0.4 }),
+    ],
+  }),
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// IDs and input
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('share IDs', () => {
+  it('generates URL-safe IDs that validate', () => {
+    const id = newShareId();
+    expect(id).toMatch(/^[A-Za-z0-9_-]{12}$/);
+    expect(isValidShareId(id)).toBe(true);
+    expect(newShareId()).not.toBe(id);
+  });
+
+  it('rejects anything that could escape the KV prefix', () => {
+    expect(isValidShareId('../stands:x1')).toBe(false);
+    expect(isValidShareId('short')).toBe(false);
+  });
+});
+
+describe('parseShareLabel', () => {
+  it('trims and collapses whitespace', () => {
+    expect(parseShareLabel({ label: '  North   bush ' }, 'x')).toBe('North bush');
+  });
+
+  it('falls back when there is no label', () => {
+    expect(parseShareLabel(null, '44.26, -72.58')).toBe('44.26, -72.58');
+    expect(parseShareLabel({ label: '   ' }, '44.26, -72.58')).toBe('44.26, -72.58');
+  });
+
+  it('rejects non-strings and long labels', () => {
+    expect(() => parseShareLabel({ label: 5 }, 'x')).toThrow(ShareValidationError);
+    expect(() => parseShareLabel({ label: 'x'.repeat(61) }, 'x')).toThrow(ShareValidationError);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Card image
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('wrapText', () => {
+  it('wraps on word boundaries', () => {
+    expect(wrapText('tap now good conditions', 10, 3)).toEqual(['tap now', 'good', 'conditions']);
+  });
+
+  it('ends with an ellipsis when it runs over', () => {
+    expect(wrapText('one two three four five six', 9, 2)).toEqual(['one two', 'three…']);
+  });
+});
+
+describe('headline', () => {
+  it('keeps the first sentence', () => {
+    expect(headline('Tap now — excellent. Rain on snow Fri.')).toBe('Tap now — excellent.');
+    expect(headline('No window yet')).toBe('No window yet');
+  });
+});
+
+describe('renderShareImage', () => {
+  const svg = renderShareImage(SNAPSHOT);
+
+  it('is a 1200×630 card', () => {
+    expect(svg).toMatch(/^<svg [^>]*width="1200" height="630"/);
+  });
+
+  it('shows the call and the window, escaping the label', () => {
+    expect(svg).toContain('North bush &lt;VT&gt;');
+    expect(svg).not.toContain('Mostly sunny');
+    expect(svg).toContain('Best window: Mar 10 – Mar 11 · 2 days');
+  });
+
+  it('draws one bar per day, coloured by rating and faded when uncertain', () => {
+    const bars = svg.match(/<rect x="\d+" y="\d+" width="\d+" height="(\d+)" rx="6" fill="(#\w+)" fill-opacity="([\d.]+)"/g);
+    expect(bars).toHaveLength(3);
+    expect(bars?.[0]).toContain('height="150" rx="6" fill="#00b894" fill-opacity="1"');
+    expect(bars?.[2]).toContain('fill="#e8e3de" fill-opacity="0.5"');
+  });
+
+  it('words the card in the locale it was shared in', () => {
+    const fr = renderShareImage({ ...SNAPSHOT, locale: 'fr-CA' });
+    expect(fr).toContain('Meilleure période : 10 mars – 11 mars · 2 jours');
+    expect(fr).toContain('Prévisions partagées le');
+  });
+
+  it('says so when there is no window', () => {
+    const none = renderShareImage({ ...SNAPSHOT, forecast: { ...SNAPSHOT.forecast, bestWindow: null } });
+    expect(none).toContain('No tapping window in this forecast');
+  });
+});
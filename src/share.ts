@@ -0,0 +1,149 @@
+// Shared forecasts — a stored snapshot of one forecast, so a link posted in
+// a chat shows the call that was made, and the card image its preview uses
+
+import { confidenceLevel, type Rating } from './scoring';
+import { escapeHTML, REC_ICONS, type PrerenderInput } from './prerender';
+import { DEFAULT_LOCALE, formatWindowDates, interpolate, intlTag, plural, type Locale } from './i18n';
+import { UI_TEXT } from './pagetext';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface ShareSnapshot<F extends PrerenderInput = PrerenderInput> {
+  id: string;
+  lat: number;
+  lon: number;
+  label: string;
+  createdAt: string; // ISO 8601
+  locale?: Locale; // the sharer's; links made before it was kept read as English
+  forecast: F;
+}
+
+export class ShareValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareValidationError';
+  }
+}
+
+export const SHARE_TTL = 7776000; // 90 days — long past any tapping window
+export const MAX_SHARE_LABEL_LENGTH = 60;
+
+const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{12}$/;
+
+// ── IDs and input ──────────────────────────────────────────────────────────
+
+// 72 random bits, URL-safe; short enough to paste into a chat
+export function newShareId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(9));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+export function isValidShareId(id: string): boolean {
+  return SHARE_ID_PATTERN.test(id);
+}
+
+// The label is the only thing the sharer writes; the forecast itself is
+// always run on the server so a snapshot can't carry made-up numbers
+export function parseShareLabel(body: unknown, fallback: string): string {
+  const label = (body as { label?: unknown } | null)?.label;
+  if (label === undefined || label === null || label === '') return fallback;
+  if (typeof label !== 'string') {
+    throw new ShareValidationError('label must be a string');
+  }
+  const trimmed = label.trim().replace(/\s+/g, ' ');
+  if (trimmed.length > MAX_SHARE_LABEL_LENGTH) {
+    throw new ShareValidationError(`label must be at most ${MAX_SHARE_LABEL_LENGTH} characters`);
+  }
+  return trimmed || fallback;
+}
+
+// ── Card image ─────────────────────────────────────────────────────────────
+
+export const IMAGE_WIDTH = 1200;
+export const IMAGE_HEIGHT = 630;
+
+const RATING_COLORS: Record<Rating, string> = {
+  excellent: '#00b894',
+  good: '#00cec9',
+  fair: '#fdcb6e',
+  poor: '#e8e3de',
+  unknown: '#e8e3de',
+};
+
+const HEADLINE_CHARS = 34; // per line at the headline size
+const MAX_BARS = 16;
+
+// Greedy word wrap; the last line gets an ellipsis if the text runs over
+export function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && (line + ' ' + word).length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  const last = kept[maxLines - 1];
+  kept[maxLines - 1] = `${last.length >= maxChars ? last.substring(0, maxChars - 1) : last}…`;
+  return kept;
+}
+
+// The call itself, without the notes about rain and sun that follow it
+export function headline(message: string): string {
+  const end = message.indexOf('. ');
+  return end === -1 ? message : message.substring(0, end + 1);
+}
+
+function ratingBars(snapshot: ShareSnapshot, x: number, y: number, width: number, height: number): string {
+  const days = snapshot.forecast.days.slice(0, MAX_BARS);
+  if (days.length === 0) return '';
+  const slot = width / days.length;
+  const barWidth = Math.round(slot * 0.7);
+
+  return days.map((day, i) => {
+    // Poor days keep a stub so the strip still reads as days
+    const barHeight = Math.round(height * Math.max(day.score, 0.25) / 3);
+    const bx = Math.round(x + i * slot + (slot - barWidth) / 2);
+    const opacity = confidenceLevel(day.confidence) === 'high' ? 1 : 0.5;
+    const weekday = new Date(`${day.date}T12:00:00Z`)
+      .toLocaleDateString(intlTag(snapshot.locale ?? DEFAULT_LOCALE), { weekday: 'narrow', timeZone: 'UTC' });
+    return `<rect x="${bx}" y="${y + height - barHeight}" width="${barWidth}" height="${barHeight}" rx="6" `
+      + `fill="${RATING_COLORS[day.rating]}" fill-opacity="${opacity}"/>`
+      + `<text x="${bx + barWidth / 2}" y="${y + height + 34}" font-size="24" fill="#6d6157" text-anchor="middle">${weekday}</text>`;
+  }).join('\n');
+}
+
+// SVG card for og:image — the recommendation, the window and a bar per day;
+// sharepng.ts rasterises it for previewers that only take PNG
+export function renderShareImage(snapshot: ShareSnapshot): string {
+  const { forecast } = snapshot;
+  const locale = snapshot.locale ?? DEFAULT_LOCALE;
+  const text = UI_TEXT[locale];
+  const rec = forecast.recommendation;
+  const lines = wrapText(headline(rec.message), HEADLINE_CHARS, 2);
+  const w = forecast.bestWindow;
+  const windowLine = w
+    ? `${interpolate(text.bestWindow, { dates: formatWindowDates(w.startDate, w.endDate, locale) })}`
+      + ` · ${interpolate(plural(text.dayCount, w.length, locale), { n: w.length })}`
+    : text.noWindow;
+  const sharedOn = new Date(snapshot.createdAt)
+    .toLocaleDateString(intlTag(locale), { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${IMAGE_WIDTH}" height="${IMAGE_HEIGHT}" viewBox="0 0 ${IMAGE_WIDTH} ${IMAGE_HEIGHT}" font-family="Outfit, -apple-system, Helvetica, Arial, sans-serif">
+<rect width="${IMAGE_WIDTH}" height="${IMAGE_HEIGHT}" fill="#f5f0eb"/>
+<text x="60" y="90" font-size="40" font-weight="700" fill="#5C3D2E">🍁 Sapcast</text>
+<text x="${IMAGE_WIDTH - 60}" y="90" font-size="32" fill="#6d6157" text-anchor="end">${escapeHTML(snapshot.label)}</text>
+<text x="60" y="190" font-size="64">${REC_ICONS[rec.type] ?? ''}</text>
+${lines.map((line, i) => `<text x="150" y="${185 + i * 62}" font-size="52" font-weight="700" fill="#2c2520">${escapeHTML(line)}</text>`).join('\n')}
+<text x="150" y="${185 + lines.length * 62 + 10}" font-size="32" fill="#5C3D2E">${escapeHTML(windowLine)}</text>
+${ratingBars(snapshot, 60, 380, IMAGE_WIDTH - 120, 150)}
+<text x="60" y="${IMAGE_HEIGHT - 24}" font-size="22" fill="#6d6157">${interpolate(text.sharedOn, { date: sharedOn })} · sapcast.ca</text>
+</svg>
+`;
+}
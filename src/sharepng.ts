@@ -0,0 +1,31 @@
+// PNG share cards — Facebook, X, LinkedIn, Slack and iMessage don't show an
+// SVG og:image, so the card from renderShareImage() is rasterised with resvg.
+// Kept apart from share.ts because the wasm and font imports only resolve in
+// the Worker bundle.
+
+import { initWasm, Resvg } from '@resvg/resvg-wasm';
+import resvgWasm from '@resvg/resvg-wasm/index_bg.wasm';
+import outfitRegular from '@expo-google-fonts/outfit/400Regular/Outfit_400Regular.ttf';
+import outfitBold from '@expo-google-fonts/outfit/700Bold/Outfit_700Bold.ttf';
+import notoEmoji from '@expo-google-fonts/noto-emoji/400Regular/NotoEmoji_400Regular.ttf';
+
+let ready: Promise<void> | null = null;
+
+// The card's own font, and Noto Emoji for the maple leaf and the call's icon;
+// a Worker has no system fonts to fall back on
+const FONTS = [outfitRegular, outfitBold, notoEmoji].map(font => new Uint8Array(font));
+
+export async function renderSharePng(svg: string): Promise<Uint8Array> {
+  ready ??= initWasm(resvgWasm).catch(err => {
+    ready = null;
+    throw err;
+  });
+  await ready;
+
+  const resvg = new Resvg(svg, { font: { fontBuffers: FONTS, defaultFontFamily: 'Outfit' } });
+  try {
+    return resvg.render().asPng();
+  } finally {
+    resvg.free();
+  }
+}
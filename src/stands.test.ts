@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { parseStands, standTerrain, isValidListId, StandValidationError, MAX_STANDS } from './stands';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// parseStands
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('parseStands', () => {
+  it('keeps valid stands as given', () => {
+    expect(parseStands([{ id: 'north', name: 'North bush', lat: 45.1, lon: -72.3 }]))
+      .toEqual([{ id: 'north', name: 'North bush', lat: 45.1, lon: -72.3 }]);
+  });
+
+  it('fills in a default id and name', () => {
+    expect(parseStands([{ lat: 45, lon: -72 }, { lat: 46, lon: -71, name: '  ' }])).toEqual([
+      { id: 'stand-1', name: 'Stand 1', lat: 45, lon: -72 },
+      { id: 'stand-2', name: 'Stand 2', lat: 46, lon: -71 },
+    ]);
+  });
+
+  it('trims and truncates long names', () => {
+    const [stand] = parseStands([{ name: '  ' + 'x'.repeat(100), lat: 45, lon: -72 }]);
+    expect(stand.name).toHaveLength(60);
+  });
+
+  it('rejects an empty or non-array list', () => {
+    expect(() => parseStands([])).toThrow(StandValidationError);
+    expect(() => parseStands(undefined)).toThrow(StandValidationError);
+    expect(() => parseStands({ lat: 45, lon: -72 })).toThrow(StandValidationError);
+  });
+
+  it('rejects more than the maximum number of stands', () => {
+    const stands = Array.from({ length: MAX_STANDS + 1 }, () => ({ lat: 45, lon: -72 }));
+    expect(() => parseStands(stands)).toThrow(`At most ${MAX_STANDS}`);
+  });
+
+  it('rejects missing, non-numeric or out-of-range coordinates', () => {
+    expect(() => parseStands([{ lat: 45 }])).toThrow('Location 1 has an invalid lon');
+    expect(() => parseStands([{ lat: '45', lon: -72 }])).toThrow('invalid lat');
+    expect(() => parseStands([{ lat: 45, lon: -72 }, { lat: 91, lon: -72 }])).toThrow('Location 2 has an invalid lat');
+    expect(() => parseStands([null])).toThrow('invalid lat');
+  });
+
+  it('keeps an elevation and aspect given as numbers or strings', () => {
+    const [north, south, plain] = parseStands([
+      { lat: 45, lon: -72, elevation: 420, aspect: 'NE' },
+      { lat: 45, lon: -72, elevation: 'auto', aspect: 180 },
+      { lat: 45, lon: -72, elevation: null, aspect: '' },
+    ]);
+    expect(north).toMatchObject({ elevation: 420, aspect: 45 });
+    expect(south).toMatchObject({ elevation: 'auto', aspect: 180 });
+    expect(plain).toEqual({ id: 'stand-3', name: 'Stand 3', lat: 45, lon: -72 });
+  });
+
+  it('rejects an invalid elevation or aspect', () => {
+    expect(() => parseStands([{ lat: 45, lon: -72, elevation: 9000 }])).toThrow('Location 1: Elevation must be');
+    expect(() => parseStands([{ lat: 45, lon: -72, aspect: 'up' }])).toThrow(StandValidationError);
+    expect(() => parseStands([{ lat: 45, lon: -72, aspect: true }])).toThrow(StandValidationError);
+  });
+
+  it('rejects ids that are not plain letters, digits and dashes', () => {
+    expect(() => parseStands([{ id: "x');alert(1);('", lat: 45, lon: -72 }])).toThrow('Location 1 has an invalid id');
+    expect(() => parseStands([{ id: '', lat: 45, lon: -72 }])).toThrow(StandValidationError);
+    expect(() => parseStands([{ id: 'x'.repeat(65), lat: 45, lon: -72 }])).toThrow(StandValidationError);
+    expect(() => parseStands([{ id: 7, lat: 45, lon: -72 }])).toThrow(StandValidationError);
+  });
+});
+
+describe('standTerrain', () => {
+  it('corrects a stand with an elevation or aspect', () => {
+    expect(standTerrain({ id: 'a', name: 'A', lat: 45, lon: -72, elevation: 'auto' })).toEqual({ elevation: 'auto', aspect: null });
+    expect(standTerrain({ id: 'a', name: 'A', lat: 45, lon: -72, aspect: 90 })).toEqual({ elevation: null, aspect: 90 });
+  });
+
+  it('leaves a stand without either uncorrected', () => {
+    expect(standTerrain({ id: 'a', name: 'A', lat: 45, lon: -72 })).toBeNull();
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// isValidListId
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('isValidListId', () => {
+  it('accepts a UUID', () => {
+    expect(isValidListId('0b8e4c52-6f0e-4a53-9a3f-2f0b7f8f4c11')).toBe(true);
+  });
+
+  it('rejects short, empty or key-unsafe IDs', () => {
+    expect(isValidListId('')).toBe(false);
+    expect(isValidListId('abc')).toBe(false);
+    expect(isValidListId('crew:list/../x')).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+// Saved stands — named tapping locations, validated before they're
+// forecast in a batch or stored as a shared list in KV
+
+import { parseAspect, parseElevation, TerrainError, type TerrainOptions } from './terrain';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface Stand {
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+  // Same values as the forecast's elevation= and aspect= parameters
+  elevation?: number | 'auto';
+  aspect?: number;
+}
+
+export class StandValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StandValidationError';
+  }
+}
+
+export const MAX_STANDS = 10;
+export const MAX_STAND_NAME_LENGTH = 60;
+
+// Shared list IDs are generated client-side (a UUID); keep them key-safe
+const LIST_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+// Stand IDs end up in the page's markup on every device that syncs the list
+const STAND_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+// ── Validation ─────────────────────────────────────────────────────────────
+
+export function isValidListId(listId: string): boolean {
+  return LIST_ID_PATTERN.test(listId);
+}
+
+export function parseStands(input: unknown): Stand[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new StandValidationError('Expected a non-empty list of locations');
+  }
+  if (input.length > MAX_STANDS) {
+    throw new StandValidationError(`At most ${MAX_STANDS} locations are allowed`);
+  }
+
+  return input.map((item, i) => {
+    const raw = (item ?? {}) as Record<string, unknown>;
+    const { lat, lon } = raw;
+
+    if (typeof lat !== 'number' || !isFinite(lat) || lat < -90 || lat > 90) {
+      throw new StandValidationError(`Location ${i + 1} has an invalid lat`);
+    }
+    if (typeof lon !== 'number' || !isFinite(lon) || lon < -180 || lon > 180) {
+      throw new StandValidationError(`Location ${i + 1} has an invalid lon`);
+    }
+
+    const name = typeof raw.name === 'string' && raw.name.trim()
+      ? raw.name.trim().substring(0, MAX_STAND_NAME_LENGTH)
+      : `Stand ${i + 1}`;
+    if (raw.id !== undefined && (typeof raw.id !== 'string' || !STAND_ID_PATTERN.test(raw.id))) {
+      throw new StandValidationError(`Location ${i + 1} has an invalid id`);
+    }
+    const id = typeof raw.id === 'string' ? raw.id : `stand-${i + 1}`;
+
+    return { id, name, lat, lon, ...parseStandTerrain(raw, i) };
+  });
+}
+
+function parseStandTerrain(raw: Record<string, unknown>, i: number): Pick<Stand, 'elevation' | 'aspect'> {
+  const text = (value: unknown): string | null => {
+    if (value === undefined || value === null) return null;
+    if (typeof value !== 'number' && typeof value !== 'string') {
+      throw new TerrainError('Elevation and aspect must be numbers or strings');
+    }
+    return String(value);
+  };
+
+  try {
+    const elevation = parseElevation(text(raw.elevation));
+    const aspect = parseAspect(text(raw.aspect));
+    return {
+      ...(elevation !== null && { elevation }),
+      ...(aspect !== null && { aspect }),
+    };
+  } catch (err) {
+    if (err instanceof TerrainError) {
+      throw new StandValidationError(`Location ${i + 1}: ${err.message}`);
+    }
+    throw err;
+  }
+}
+
+// The terrain correction to forecast a stand with, or null when it has none
+export function standTerrain(stand: Stand): TerrainOptions | null {
+  if (stand.elevation === undefined && stand.aspect === undefined) return null;
+  return { elevation: stand.elevation ?? null, aspect: stand.aspect ?? null };
+}
@@ -0,0 +1,149 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import {
+  parseAspect,
+  parseElevation,
+  terrainCorrection,
+  correctDaily,
+  correctHours,
+  createElevationService,
+  TerrainError,
+} from './terrain';
+import { WeatherProviderError, type DailyForecast } from './weather';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Parsing
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('parseAspect', () => {
+  it('accepts compass points in any case', () => {
+    expect(parseAspect('S')).toBe(180);
+    expect(parseAspect('nw')).toBe(315);
+  });
+
+  it('accepts degrees and wraps 360 to north', () => {
+    expect(parseAspect('200')).toBe(200);
+    expect(parseAspect('360')).toBe(0);
+  });
+
+  it('is null when not given', () => {
+    expect(parseAspect(null)).toBeNull();
+    expect(parseAspect('')).toBeNull();
+  });
+
+  it('rejects anything else', () => {
+    expect(() => parseAspect('uphill')).toThrow(TerrainError);
+    expect(() => parseAspect('-10')).toThrow(TerrainError);
+  });
+});
+
+describe('parseElevation', () => {
+  it('accepts metres or auto', () => {
+    expect(parseElevation('412')).toBe(412);
+    expect(parseElevation('AUTO')).toBe('auto');
+    expect(parseElevation(null)).toBeNull();
+  });
+
+  it('rejects nonsense and out-of-range heights', () => {
+    expect(() => parseElevation('high')).toThrow(TerrainError);
+    expect(() => parseElevation('9000')).toThrow(TerrainError);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Correction
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('terrainCorrection', () => {
+  const flat = { lat: 45, aspect: null };
+
+  it('cools highs faster than lows with height', () => {
+    expect(terrainCorrection({ ...flat, elevation: 700, referenceElevation: 300 })).toEqual({ low: -1.6, high: -2.6 });
+  });
+
+  it('warms a stand below the cell', () => {
+    expect(terrainCorrection({ ...flat, elevation: 100, referenceElevation: 300 })).toEqual({ low: 0.8, high: 1.3 });
+  });
+
+  it('does nothing without both elevations', () => {
+    expect(terrainCorrection({ ...flat, elevation: 600, referenceElevation: null })).toEqual({ low: 0, high: 0 });
+  });
+
+  it('warms south slopes and cools north ones in the northern hemisphere', () => {
+    const base = { lat: 45, elevation: null, referenceElevation: null };
+    expect(terrainCorrection({ ...base, aspect: 180 })).toEqual({ low: 0, high: 1 });
+    expect(terrainCorrection({ ...base, aspect: 0 })).toEqual({ low: 0, high: -1 });
+    expect(terrainCorrection({ ...base, aspect: 90 })).toEqual({ low: 0, high: 0 });
+  });
+
+  it('flips aspect in the southern hemisphere', () => {
+    expect(terrainCorrection({ lat: -40, elevation: null, referenceElevation: null, aspect: 0 }).high).toBe(1);
+  });
+});
+
+describe('correctDaily', () => {
+  const day: DailyForecast = {
+    time: 0, tempHigh: 5, tempLow: -1, summary: '', icon: '', precipType: null, snowfall: 0, cloudCover: null,
+  };
+
+  it('shifts the low and high separately', () => {
+    expect(correctDaily(day, { low: -1.2, high: -2 })).toMatchObject({ tempLow: -2.2, tempHigh: 3 });
+  });
+
+  it('keeps missing temperatures missing', () => {
+    expect(correctDaily({ ...day, tempHigh: null }, { low: -1, high: -1 }).tempHigh).toBeNull();
+  });
+});
+
+describe('correctHours', () => {
+  it('moves the coldest hour with the low and the warmest with the high', () => {
+    const hours = [
+      { time: 0, temperature: -4 },
+      { time: 3600, temperature: 1 },
+      { time: 7200, temperature: 6 },
+    ];
+    expect(correctHours(hours, { low: -1, high: -3 }).map(h => h.temperature)).toEqual([-5, -1, 3]);
+  });
+
+  it('returns the same hours when there is nothing to correct', () => {
+    const hours = [{ time: 0, temperature: 2 }];
+    expect(correctHours(hours, { low: 0, high: 0 })).toBe(hours);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Elevation lookup
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('createElevationService', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('answers locally for the fixture provider', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    expect(await createElevationService({ WEATHER_PROVIDER: 'fixture' }).fetchElevation(44, -72)).toBe(300);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('queries a configured stand-in service', async () => {
+    const fetchMock = vi.fn(async () => Response.json({ elevation: [512.5] }));
+    vi.stubGlobal('fetch', fetchMock);
+    const service = createElevationService({ ELEVATION_API_URL: 'http://localhost:8788/elevation' });
+    expect(await service.fetchElevation(44.26, -72.58)).toBe(512.5);
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:8788/elevation?latitude=44.26&longitude=-72.58');
+  });
+
+  it('reports an unusable answer as an upstream error', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ elevation: [] })));
+    await expect(createElevationService({}).fetchElevation(44, -72)).rejects.toThrow(WeatherProviderError);
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json(null)));
+    await expect(createElevationService({}).fetchElevation(44, -72)).rejects.toThrow('returned no elevation');
+  });
+
+  it('reports an error page served with a 200 as an upstream error', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('<html>Maintenance</html>')));
+    await expect(createElevationService({}).fetchElevation(44, -72))
+      .rejects.toThrow(new WeatherProviderError('Elevation service returned an unreadable response', 502));
+  });
+});
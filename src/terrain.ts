@@ -0,0 +1,174 @@
+// Terrain — corrects a forecast cell's temperatures for a stand's own
+// elevation and slope aspect, and looks elevations up when they aren't given
+
+import type { HourlyTemp } from './scoring';
+import { WeatherProviderError, type DailyForecast } from './weather';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface TerrainInput {
+  lat: number;
+  elevation: number | null;          // stand, metres
+  referenceElevation: number | null; // forecast cell, metres
+  aspect: number | null;             // compass degrees the slope faces
+}
+
+// What a request asked for; 'auto' looks the stand's elevation up
+export interface TerrainOptions {
+  elevation: number | 'auto' | null;
+  aspect: number | null;
+}
+
+// Added to the day's low and high; hours in between are scaled
+export interface TemperatureCorrection {
+  low: number;
+  high: number;
+}
+
+export interface TerrainResult extends TemperatureCorrection {
+  elevation: number | null;
+  referenceElevation: number | null;
+  aspect: number | null;
+}
+
+export interface ElevationService {
+  fetchElevation(lat: number, lon: number): Promise<number>;
+}
+
+export interface ElevationConfig {
+  WEATHER_PROVIDER?: string;
+  ELEVATION_API_URL?: string;
+}
+
+export class TerrainError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TerrainError';
+  }
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+// Afternoon air follows the standard lapse rate; cold air pools in hollows
+// overnight, so lows fall off with height much more slowly
+export const LAPSE_RATE_HIGH = 6.5; // °C per km
+export const LAPSE_RATE_LOW = 4;    // °C per km
+// Afternoon sun on a south slope versus a north one, either side of flat
+export const MAX_ASPECT_SHIFT = 1;  // °C
+export const MAX_ELEVATION = 5000;  // m; sugarbushes don't go higher
+
+const COMPASS_POINTS: Record<string, number> = {
+  N: 0, NE: 45, E: 90, SE: 135, S: 180, SW: 225, W: 270, NW: 315,
+};
+
+const DEFAULT_ELEVATION_API = 'https://api.open-meteo.com/v1/elevation';
+const FIXTURE_ELEVATION = 300; // m, the sample forecast's cell
+
+// ── Parsing ────────────────────────────────────────────────────────────────
+
+// Compass point (N, SE, …) or degrees; null when not given
+export function parseAspect(raw: string | null): number | null {
+  if (raw === null || raw.trim() === '') return null;
+  const point = COMPASS_POINTS[raw.trim().toUpperCase()];
+  if (point !== undefined) return point;
+
+  const degrees = Number(raw);
+  if (!isFinite(degrees) || degrees < 0 || degrees > 360) {
+    throw new TerrainError('Aspect must be a compass point (N, NE, …) or degrees from 0 to 360');
+  }
+  return degrees % 360;
+}
+
+// Metres, or 'auto' to look it up; null when not given
+export function parseElevation(raw: string | null): number | 'auto' | null {
+  if (raw === null || raw.trim() === '') return null;
+  if (raw.trim().toLowerCase() === 'auto') return 'auto';
+
+  const metres = Number(raw);
+  if (!isFinite(metres) || metres < -500 || metres > MAX_ELEVATION) {
+    throw new TerrainError(`Elevation must be in metres, from -500 to ${MAX_ELEVATION}, or auto`);
+  }
+  return metres;
+}
+
+// ── Correction ─────────────────────────────────────────────────────────────
+
+export function terrainCorrection(input: TerrainInput): TemperatureCorrection {
+  let low = 0;
+  let high = 0;
+
+  if (input.elevation !== null && input.referenceElevation !== null) {
+    const km = (input.elevation - input.referenceElevation) / 1000;
+    low -= km * LAPSE_RATE_LOW;
+    high -= km * LAPSE_RATE_HIGH;
+  }
+
+  if (input.aspect !== null) {
+    // Equator-facing slopes get the most sun: south up north, north down south
+    const equatorward = input.lat >= 0 ? 180 : 0;
+    high += MAX_ASPECT_SHIFT * Math.cos((input.aspect - equatorward) * Math.PI / 180);
+  }
+
+  const round = (n: number) => Math.round(n * 10) / 10 || 0;
+  return { low: round(low), high: round(high) };
+}
+
+export function correctDaily(day: DailyForecast, c: TemperatureCorrection): DailyForecast {
+  return {
+    ...day,
+    tempLow: day.tempLow === null ? null : Math.round((day.tempLow + c.low) * 10) / 10,
+    tempHigh: day.tempHigh === null ? null : Math.round((day.tempHigh + c.high) * 10) / 10,
+  };
+}
+
+// The coldest hour of the span moves with the low, the warmest with the
+// high, and the rest in proportion
+export function correctHours(hours: HourlyTemp[], c: TemperatureCorrection): HourlyTemp[] {
+  if (hours.length === 0 || (c.low === 0 && c.high === 0)) return hours;
+  const temps = hours.map(h => h.temperature);
+  const min = Math.min(...temps);
+  const range = Math.max(...temps) - min;
+
+  return hours.map(h => {
+    const position = range > 0 ? (h.temperature - min) / range : 0.5;
+    const shift = c.low + (c.high - c.low) * position;
+    return { time: h.time, temperature: Math.round((h.temperature + shift) * 10) / 10 };
+  });
+}
+
+// ── Elevation lookup ───────────────────────────────────────────────────────
+
+// Open-Meteo's elevation API, or any stand-in that answers the same way
+// ({ "elevation": [metres] }) at ELEVATION_API_URL
+export function createElevationService(config: ElevationConfig): ElevationService {
+  if ((config.WEATHER_PROVIDER || '').toLowerCase() === 'fixture' && !config.ELEVATION_API_URL) {
+    return { fetchElevation: async () => FIXTURE_ELEVATION };
+  }
+
+  const base = config.ELEVATION_API_URL || DEFAULT_ELEVATION_API;
+  return {
+    async fetchElevation(lat, lon) {
+      let resp: Response;
+      try {
+        resp = await fetch(`${base}?latitude=${lat}&longitude=${lon}`);
+      } catch {
+        throw new WeatherProviderError('Failed to reach elevation service', 502);
+      }
+      if (!resp.ok) {
+        throw new WeatherProviderError(`Elevation service returned ${resp.status}`, 502);
+      }
+      let body: unknown;
+      try {
+        body = await resp.json();
+      } catch {
+        throw new WeatherProviderError('Elevation service returned an unreadable response', 502);
+      }
+      const values = body && typeof body === 'object' ? (body as { elevation?: unknown }).elevation : undefined;
+      const elevation = Array.isArray(values) ? values[0] : undefined;
+      if (typeof elevation !== 'number' || !isFinite(elevation)) {
+        throw new WeatherProviderError('Elevation service returned no elevation', 502);
+      }
+      return elevation;
+    },
+  };
+}
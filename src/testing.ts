@@ -0,0 +1,38 @@
+// Test fixtures shared by the test files — a forecast day and a rendered
+// forecast with a "tap now" call. Only tests import this.
+
+import type { ForecastDay, Rating } from './scoring';
+import type { PrerenderInput } from './prerender';
+
+export function forecastDay(date: string, rating: Rating, fields: Partial<ForecastDay> = {}): ForecastDay {
+  return {
+    date, tempLow: -5, tempHigh: 6, summary: '', icon: '', rating, score: 0, sapYield: 2, confidence: 1,
+    precipType: null, snowfall: 0, cloudCover: null,
+    ...fields,
+  };
+}
+
+// Two excellent days from Mar 10, then poor ones; sunny
+export function forecastInput(fields: Partial<PrerenderInput> = {}): PrerenderInput {
+  return {
+    current: { temperature: 1, summary: '', icon: '' },
+    days: [
+      forecastDay('2026-03-10', 'excellent'),
+      forecastDay('2026-03-11', 'excellent'),
+      forecastDay('2026-03-12', 'poor', { confidence: 0.4 }),
+    ],
+    bestWindow: { startDate: '2026-03-10', endDate: '2026-03-11', length: 2, totalYield: 4, confidence: 1 },
+    recommendation: {
+      type: 'tap_now',
+      code: 'rec.tap_now',
+      params: { quality: 'excellent', days: 2 },
+      window: { quality: 'excellent', startOffset: 0, length: 2, singleDay: false },
+      reason: null,
+      notes: [{ code: 'note.sunny', params: {} }],
+      message: 'Tap now — excellent conditions for the next 2 days. Mostly sunny.',
+    },
+    seasonInfo: null,
+    budBreak: null,
+    ...fields,
+  };
+}
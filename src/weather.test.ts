@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  getProvider,
+  parsePirateWeather,
+  parseOpenMeteo,
+  createFixtureProvider,
+  localDate,
+  WeatherProviderError,
+  type OpenMeteoResponse,
+  type PirateWeatherResponse,
+} from './weather';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// getProvider
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('getProvider', () => {
+  it('defaults to Pirate Weather', () => {
+    expect(getProvider({}).name).toBe('pirateweather');
+  });
+
+  it('selects a provider by name, case-insensitively', () => {
+    expect(getProvider({ WEATHER_PROVIDER: 'openmeteo' }).name).toBe('openmeteo');
+    expect(getProvider({ WEATHER_PROVIDER: 'Fixture' }).name).toBe('fixture');
+  });
+
+  it('throws a 500 for an unknown provider', () => {
+    expect(() => getProvider({ WEATHER_PROVIDER: 'nope' })).toThrow(WeatherProviderError);
+  });
+
+  it('rejects Pirate Weather requests without an API key', async () => {
+    const provider = getProvider({ WEATHER_PROVIDER: 'pirateweather' });
+    await expect(provider.fetchForecast(45, -72)).rejects.toMatchObject({ status: 500 });
+  });
+});
+
+describe('provider requests', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports an HTML page served with a 200 as a provider error', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('<html>Down for maintenance</html>', { status: 200 })));
+    const provider = getProvider({ WEATHER_PROVIDER: 'openmeteo' });
+    const failure = provider.fetchForecast(45, -72);
+    await expect(failure).rejects.toBeInstanceOf(WeatherProviderError);
+    await expect(failure).rejects.toMatchObject({ status: 502 });
+  });
+
+  it('reports an error status as a provider error', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('busy', { status: 503 })));
+    await expect(getProvider({ WEATHER_PROVIDER: 'openmeteo' }).fetchForecast(45, -72))
+      .rejects.toThrow('Weather API returned 503');
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// parsePirateWeather
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('parsePirateWeather', () => {
+  const sample: PirateWeatherResponse = {
+    currently: { time: 100, temperature: 1.5, summary: 'Clear', icon: 'clear-day' },
+    hourly: { data: [{ time: 100, temperature: -2 }, { time: 3700 }, { time: 7300, temperature: 3 }] },
+    daily: {
+      data: [
+        { time: 0, temperatureHigh: 6, temperatureLow: -5, summary: 'Sunny', icon: 'clear-day' },
+        { time: 86400, temperatureMax: 4, temperatureMin: -3 },
+      ],
+    },
+  };
+
+  it('normalizes current conditions', () => {
+    expect(parsePirateWeather(sample).current).toEqual({ temperature: 1.5, summary: 'Clear', icon: 'clear-day' });
+  });
+
+  it('falls back to min/max when high/low are missing', () => {
+    const { daily } = parsePirateWeather(sample);
+    expect(daily[1]).toEqual({
+      time: 86400, tempHigh: 4, tempLow: -3, summary: '', icon: '', precipType: null, snowfall: 0, cloudCover: null,
+    });
+  });
+
+  it('reads precipitation type, snow accumulation and cloud cover', () => {
+    const { daily } = parsePirateWeather({
+      daily: {
+        data: [
+          { time: 0, precipType: 'snow', precipAccumulation: 6.24, snowAccumulation: 5.96, cloudCover: 0.82 },
+          { time: 86400, precipType: 'snow', precipAccumulation: 3 },
+          { time: 172800, precipType: 'hail', precipAccumulation: 1 },
+        ],
+      },
+    });
+    expect(daily[0]).toMatchObject({ precipType: 'snow', snowfall: 6, cloudCover: 0.82 });
+    // Without a separate snow figure, a snow day's accumulation is all snow
+    expect(daily[1]).toMatchObject({ precipType: 'snow', snowfall: 3 });
+    expect(daily[2]).toMatchObject({ precipType: null, snowfall: 0 });
+  });
+
+  it('drops hourly points without a temperature', () => {
+    expect(parsePirateWeather(sample).hourly).toEqual([
+      { time: 100, temperature: -2 },
+      { time: 7300, temperature: 3 },
+    ]);
+  });
+
+  it('handles an empty payload', () => {
+    expect(parsePirateWeather({})).toEqual({
+      current: { temperature: null, summary: '', icon: '' },
+      daily: [],
+      hourly: [],
+      elevation: null,
+      timezone: null,
+      utcOffset: null,
+    });
+  });
+
+  it('keeps the grid cell elevation', () => {
+    expect(parsePirateWeather({ elevation: 412 }).elevation).toBe(412);
+  });
+
+  it('keeps the timezone, with the offset in seconds', () => {
+    const forecast = parsePirateWeather({ timezone: 'America/New_York', offset: -5 });
+    expect(forecast.timezone).toBe('America/New_York');
+    expect(forecast.utcOffset).toBe(-18000);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// parseOpenMeteo
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('parseOpenMeteo', () => {
+  const sample: OpenMeteoResponse = {
+    current: { time: 100, temperature_2m: -1.2, weather_code: 71 },
+    hourly: { time: [0, 3600, 7200], temperature_2m: [-4, null, 2] },
+    daily: {
+      time: [0, 86400],
+      temperature_2m_max: [5, null],
+      temperature_2m_min: [-6, -2],
+      weather_code: [2, 999],
+      snowfall_sum: [1.4, null],
+      cloud_cover_mean: [45, null],
+    },
+  };
+
+  it('maps WMO weather codes to a summary and icon', () => {
+    const { current, daily } = parseOpenMeteo(sample);
+    expect(current).toEqual({ temperature: -1.2, summary: 'Light snow', icon: 'snow' });
+    expect(daily[0]).toMatchObject({ time: 0, tempHigh: 5, tempLow: -6, summary: 'Partly cloudy', icon: 'partly-cloudy-day' });
+  });
+
+  it('keeps nulls and blanks unknown weather codes', () => {
+    expect(parseOpenMeteo(sample).daily[1]).toEqual({
+      time: 86400, tempHigh: null, tempLow: -2, summary: '', icon: '', precipType: null, snowfall: 0, cloudCover: null,
+    });
+  });
+
+  it('reads snowfall and cloud cover, and the precipitation type from the weather code', () => {
+    expect(parseOpenMeteo(sample).daily[0]).toMatchObject({ snowfall: 1.4, cloudCover: 0.45, precipType: null });
+    const codes = parseOpenMeteo({ daily: { ...sample.daily!, time: [0, 1, 2], weather_code: [73, 63, 66] } }).daily;
+    expect(codes.map(d => d.precipType)).toEqual(['snow', 'rain', 'sleet']);
+  });
+
+  it('drops hourly points without a temperature', () => {
+    expect(parseOpenMeteo(sample).hourly).toEqual([
+      { time: 0, temperature: -4 },
+      { time: 7200, temperature: 2 },
+    ]);
+  });
+
+  it('keeps the timezone and offset', () => {
+    const forecast = parseOpenMeteo({ timezone: 'America/Toronto', utc_offset_seconds: -14400 });
+    expect(forecast.timezone).toBe('America/Toronto');
+    expect(forecast.utcOffset).toBe(-14400);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Local dates
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('localDate', () => {
+  // 10:30 pm on Mar 10 in Toronto, already Mar 11 in UTC
+  const evening = Date.UTC(2026, 2, 11, 2, 30) / 1000;
+
+  it('uses the named zone, daylight saving time included', () => {
+    expect(localDate(evening, { timezone: 'America/Toronto', utcOffset: -18000 })).toBe('2026-03-10');
+  });
+
+  it('falls back to the offset, then to UTC', () => {
+    expect(localDate(evening, { timezone: null, utcOffset: -14400 })).toBe('2026-03-10');
+    expect(localDate(evening, { timezone: 'Nowhere/Special', utcOffset: -14400 })).toBe('2026-03-10');
+    expect(localDate(evening, { timezone: null, utcOffset: null })).toBe('2026-03-11');
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// createFixtureProvider
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('createFixtureProvider', () => {
+  it('serves the bundled sample week', async () => {
+    const forecast = await createFixtureProvider().fetchForecast(44.26, -72.58);
+    expect(forecast.daily).toHaveLength(8);
+    expect(forecast.hourly).toHaveLength(168);
+  });
+
+  it('shifts the sample so its first day is the current day', async () => {
+    const now = new Date('2027-03-10T15:00:00Z');
+    const forecast = await createFixtureProvider(undefined, now).fetchForecast(44.26, -72.58);
+    const first = forecast.daily[0].time;
+    expect(first).toBeLessThanOrEqual(now.getTime() / 1000);
+    expect(now.getTime() / 1000 - first).toBeLessThan(86400);
+    expect(forecast.hourly[0].time).toBe(first);
+  });
+});
@@ -0,0 +1,350 @@
+// Weather providers — fetch a forecast from an upstream API and normalize it
+// into one shape the scoring pipeline can consume
+
+import type { HourlyTemp, PrecipType } from './scoring';
+import pirateWeatherFixture from './fixtures/pirate-weather.json';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type ProviderName = 'pirateweather' | 'openmeteo' | 'fixture';
+
+export interface CurrentConditions {
+  temperature: number | null;
+  summary: string;
+  icon: string;
+}
+
+export interface DailyForecast {
+  time: number; // unix seconds, local midnight
+  tempHigh: number | null;
+  tempLow: number | null;
+  summary: string;
+  icon: string;
+  precipType: PrecipType | null;
+  snowfall: number;          // new snow in cm
+  cloudCover: number | null; // 0–1
+}
+
+export interface NormalizedForecast {
+  current: CurrentConditions;
+  daily: DailyForecast[];
+  hourly: HourlyTemp[];
+  elevation: number | null; // metres, of the grid cell the forecast is for
+  timezone: string | null;  // IANA name for the location, e.g. America/Toronto
+  utcOffset: number | null; // seconds east of UTC when the forecast was made
+}
+
+// The calendar day (YYYY-MM-DD) a moment falls on at the forecast's
+// location. The named zone follows daylight saving time; the fixed offset
+// is for providers that only send one, and forecasts cached before either
+// was kept fall back to UTC.
+export function localDate(time: number, zone: Pick<NormalizedForecast, 'timezone' | 'utcOffset'>): string {
+  if (zone.timezone) {
+    try {
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: zone.timezone, year: 'numeric', month: '2-digit', day: '2-digit',
+      }).formatToParts(new Date(time * 1000));
+      const part = (type: string) => parts.find(p => p.type === type)?.value;
+      return `${part('year')}-${part('month')}-${part('day')}`;
+    } catch {
+      // An unknown zone name: use the offset
+    }
+  }
+  return new Date((time + (zone.utcOffset ?? 0)) * 1000).toISOString().split('T')[0];
+}
+
+export interface WeatherProvider {
+  name: ProviderName;
+  fetchForecast(lat: number, lon: number): Promise<NormalizedForecast>;
+  // Observed high/low for a past date (YYYY-MM-DD), or null if unavailable
+  fetchObserved(lat: number, lon: number, date: string): Promise<DailyForecast | null>;
+}
+
+export interface ProviderConfig {
+  WEATHER_PROVIDER?: string;
+  PIRATE_WEATHER_API_KEY?: string;
+}
+
+// Carries the HTTP status the API handler should respond with
+export class WeatherProviderError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'WeatherProviderError';
+  }
+}
+
+export const DEFAULT_PROVIDER: ProviderName = 'pirateweather';
+
+export function getProvider(config: ProviderConfig): WeatherProvider {
+  const name = (config.WEATHER_PROVIDER || DEFAULT_PROVIDER).toLowerCase();
+  switch (name) {
+    case 'pirateweather':
+      return createPirateWeatherProvider(config.PIRATE_WEATHER_API_KEY);
+    case 'openmeteo':
+      return createOpenMeteoProvider();
+    case 'fixture':
+      return createFixtureProvider();
+    default:
+      throw new WeatherProviderError(`Unknown weather provider: ${name}`, 500);
+  }
+}
+
+async function fetchJSON(url: string): Promise<unknown> {
+  let resp: Response;
+  try {
+    resp = await fetch(url);
+  } catch {
+    throw new WeatherProviderError('Failed to reach weather API', 502);
+  }
+  if (!resp.ok) {
+    throw new WeatherProviderError(`Weather API returned ${resp.status}`, 502);
+  }
+  // An outage page served with a 200 is as good as no answer
+  try {
+    return await resp.json();
+  } catch {
+    throw new WeatherProviderError('Weather API returned an unreadable response', 502);
+  }
+}
+
+// ── Pirate Weather (Dark Sky compatible) ───────────────────────────────────
+
+interface PirateWeatherDataPoint {
+  time: number;
+  summary?: string;
+  icon?: string;
+  temperature?: number;
+  temperatureHigh?: number;
+  temperatureLow?: number;
+  temperatureMax?: number;
+  temperatureMin?: number;
+  precipType?: string;
+  precipAccumulation?: number; // cm, all types
+  snowAccumulation?: number;   // cm
+  cloudCover?: number;         // 0–1
+}
+
+export interface PirateWeatherResponse {
+  timezone?: string;
+  offset?: number; // hours
+  elevation?: number;
+  currently?: PirateWeatherDataPoint;
+  hourly?: { data?: PirateWeatherDataPoint[] };
+  daily?: { data?: PirateWeatherDataPoint[] };
+}
+
+const PRECIP_TYPES: readonly PrecipType[] = ['rain', 'snow', 'sleet'];
+
+function pirateWeatherPrecip(d: PirateWeatherDataPoint): Pick<DailyForecast, 'precipType' | 'snowfall'> {
+  const precipType = PRECIP_TYPES.find(t => t === d.precipType) ?? null;
+  // Older responses only carry the combined accumulation
+  const snowfall = d.snowAccumulation ?? (precipType === 'snow' ? d.precipAccumulation ?? 0 : 0);
+  return { precipType, snowfall: Math.round(snowfall * 10) / 10 };
+}
+
+export function parsePirateWeather(weather: PirateWeatherResponse): NormalizedForecast {
+  const currently = weather.currently;
+  return {
+    current: {
+      temperature: currently?.temperature ?? null,
+      summary: currently?.summary ?? '',
+      icon: currently?.icon ?? '',
+    },
+    daily: (weather.daily?.data || []).map(d => ({
+      time: d.time,
+      tempHigh: d.temperatureHigh ?? d.temperatureMax ?? null,
+      tempLow: d.temperatureLow ?? d.temperatureMin ?? null,
+      summary: d.summary ?? '',
+      icon: d.icon ?? '',
+      ...pirateWeatherPrecip(d),
+      cloudCover: d.cloudCover ?? null,
+    })),
+    hourly: (weather.hourly?.data || [])
+      .filter(h => typeof h.temperature === 'number')
+      .map(h => ({ time: h.time, temperature: h.temperature as number })),
+    elevation: weather.elevation ?? null,
+    timezone: weather.timezone ?? null,
+    utcOffset: weather.offset !== undefined ? Math.round(weather.offset * 3600) : null,
+  };
+}
+
+export function createPirateWeatherProvider(apiKey?: string): WeatherProvider {
+  return {
+    name: 'pirateweather',
+    async fetchForecast(lat, lon) {
+      if (!apiKey) {
+        throw new WeatherProviderError('API key not configured', 500);
+      }
+      const url = `https://api.pirateweather.net/forecast/${apiKey}/${lat},${lon}?units=si&extend=hourly`;
+      return parsePirateWeather(await fetchJSON(url) as PirateWeatherResponse);
+    },
+    async fetchObserved(lat, lon, date) {
+      if (!apiKey) {
+        throw new WeatherProviderError('API key not configured', 500);
+      }
+      // Time Machine returns the full day containing the requested time
+      const time = Math.floor(new Date(date + 'T12:00:00Z').getTime() / 1000);
+      const url = `https://timemachine.pirateweather.net/forecast/${apiKey}/${lat},${lon},${time}?units=si&exclude=minutely,hourly,alerts`;
+      return parsePirateWeather(await fetchJSON(url) as PirateWeatherResponse).daily[0] ?? null;
+    },
+  };
+}
+
+// ── Open-Meteo ─────────────────────────────────────────────────────────────
+
+export interface OpenMeteoResponse {
+  timezone?: string;
+  utc_offset_seconds?: number;
+  elevation?: number;
+  current?: { time: number; temperature_2m?: number; weather_code?: number };
+  hourly?: { time: number[]; temperature_2m: (number | null)[] };
+  daily?: {
+    time: number[];
+    temperature_2m_max: (number | null)[];
+    temperature_2m_min: (number | null)[];
+    weather_code: (number | null)[];
+    snowfall_sum?: (number | null)[];    // cm
+    cloud_cover_mean?: (number | null)[]; // %
+  };
+}
+
+// WMO weather interpretation codes → summary + Dark Sky-style icon
+const WMO_CODES: Record<number, { summary: string; icon: string }> = {
+  0: { summary: 'Clear', icon: 'clear-day' },
+  1: { summary: 'Mostly clear', icon: 'clear-day' },
+  2: { summary: 'Partly cloudy', icon: 'partly-cloudy-day' },
+  3: { summary: 'Overcast', icon: 'cloudy' },
+  45: { summary: 'Fog', icon: 'fog' },
+  48: { summary: 'Freezing fog', icon: 'fog' },
+  51: { summary: 'Light drizzle', icon: 'rain' },
+  53: { summary: 'Drizzle', icon: 'rain' },
+  55: { summary: 'Heavy drizzle', icon: 'rain' },
+  56: { summary: 'Freezing drizzle', icon: 'sleet' },
+  57: { summary: 'Freezing drizzle', icon: 'sleet' },
+  61: { summary: 'Light rain', icon: 'rain' },
+  63: { summary: 'Rain', icon: 'rain' },
+  65: { summary: 'Heavy rain', icon: 'rain' },
+  66: { summary: 'Freezing rain', icon: 'sleet' },
+  67: { summary: 'Freezing rain', icon: 'sleet' },
+  71: { summary: 'Light snow', icon: 'snow' },
+  73: { summary: 'Snow', icon: 'snow' },
+  75: { summary: 'Heavy snow', icon: 'snow' },
+  77: { summary: 'Snow grains', icon: 'snow' },
+  80: { summary: 'Rain showers', icon: 'rain' },
+  81: { summary: 'Rain showers', icon: 'rain' },
+  82: { summary: 'Heavy rain showers', icon: 'rain' },
+  85: { summary: 'Snow showers', icon: 'snow' },
+  86: { summary: 'Heavy snow showers', icon: 'snow' },
+  95: { summary: 'Thunderstorm', icon: 'rain' },
+  96: { summary: 'Thunderstorm with hail', icon: 'rain' },
+  99: { summary: 'Thunderstorm with hail', icon: 'rain' },
+};
+
+// Precipitation type implied by a WMO code, for codes that have any
+function precipTypeFromCode(code: number | null | undefined): PrecipType | null {
+  if (code === null || code === undefined) return null;
+  if ([56, 57, 66, 67].includes(code)) return 'sleet';
+  if ((code >= 71 && code <= 77) || code === 85 || code === 86) return 'snow';
+  if ((code >= 51 && code <= 65) || (code >= 80 && code <= 82) || [95, 96, 99].includes(code)) return 'rain';
+  return null;
+}
+
+function describeWeatherCode(code: number | null | undefined): { summary: string; icon: string } {
+  return (code !== null && code !== undefined && WMO_CODES[code]) || { summary: '', icon: '' };
+}
+
+export function parseOpenMeteo(weather: OpenMeteoResponse): NormalizedForecast {
+  const hourly: HourlyTemp[] = [];
+  const h = weather.hourly;
+  if (h) {
+    h.time.forEach((time, i) => {
+      const temperature = h.temperature_2m[i];
+      if (typeof temperature === 'number') {
+        hourly.push({ time, temperature });
+      }
+    });
+  }
+
+  const d = weather.daily;
+  const daily: DailyForecast[] = d
+    ? d.time.map((time, i) => {
+      const cloudCover = d.cloud_cover_mean?.[i];
+      return {
+        time,
+        tempHigh: d.temperature_2m_max[i] ?? null,
+        tempLow: d.temperature_2m_min[i] ?? null,
+        ...describeWeatherCode(d.weather_code[i]),
+        precipType: precipTypeFromCode(d.weather_code[i]),
+        snowfall: d.snowfall_sum?.[i] ?? 0,
+        cloudCover: typeof cloudCover === 'number' ? cloudCover / 100 : null,
+      };
+    })
+    : [];
+
+  return {
+    current: {
+      temperature: weather.current?.temperature_2m ?? null,
+      ...describeWeatherCode(weather.current?.weather_code),
+    },
+    daily,
+    hourly,
+    elevation: weather.elevation ?? null,
+    timezone: weather.timezone ?? null,
+    utcOffset: weather.utc_offset_seconds ?? null,
+  };
+}
+
+export function createOpenMeteoProvider(): WeatherProvider {
+  return {
+    name: 'openmeteo',
+    async fetchForecast(lat, lon) {
+      const url = 'https://api.open-meteo.com/v1/forecast'
+        + `?latitude=${lat}&longitude=${lon}`
+        + '&current=temperature_2m,weather_code'
+        + '&hourly=temperature_2m'
+        + '&daily=temperature_2m_max,temperature_2m_min,weather_code,snowfall_sum,cloud_cover_mean'
+        + '&timezone=auto&timeformat=unixtime&forecast_days=16';
+      return parseOpenMeteo(await fetchJSON(url) as OpenMeteoResponse);
+    },
+    async fetchObserved(lat, lon, date) {
+      const url = 'https://archive-api.open-meteo.com/v1/archive'
+        + `?latitude=${lat}&longitude=${lon}&start_date=${date}&end_date=${date}`
+        + '&daily=temperature_2m_max,temperature_2m_min,weather_code,snowfall_sum,cloud_cover_mean'
+        + '&timezone=auto&timeformat=unixtime';
+      return parseOpenMeteo(await fetchJSON(url) as OpenMeteoResponse).daily[0] ?? null;
+    },
+  };
+}
+
+// ── Fixture (offline dev and tests) ────────────────────────────────────────
+
+// Serves the bundled Pirate Weather sample, shifted so its first day is today
+export function createFixtureProvider(
+  fixture: PirateWeatherResponse = pirateWeatherFixture,
+  now: Date = new Date(),
+): WeatherProvider {
+  return {
+    name: 'fixture',
+    async fetchForecast() {
+      const forecast = parsePirateWeather(fixture);
+      const first = forecast.daily[0]?.time;
+      if (first === undefined) return forecast;
+
+      const elapsedDays = Math.floor((now.getTime() / 1000 - first) / 86400);
+      const shift = elapsedDays * 86400;
+      return {
+        ...forecast,
+        daily: forecast.daily.map(d => ({ ...d, time: d.time + shift })),
+        hourly: forecast.hourly.map(h => ({ ...h, time: h.time + shift })),
+      };
+    },
+    // Cycles through the sample week so every past date has a value
+    async fetchObserved(_lat, _lon, date) {
+      const daily = parsePirateWeather(fixture).daily;
+      if (daily.length === 0) return null;
+      const time = Math.floor(new Date(date + 'T00:00:00Z').getTime() / 1000);
+      const index = ((Math.floor(time / 86400) % daily.length) + daily.length) % daily.length;
+      return { ...daily[index], time };
+    },
+  };
+}
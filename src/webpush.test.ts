@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base64UrlEncode,
+  base64UrlDecode,
+  buildVapidAuthorization,
+  deriveContentKeys,
+  encryptPayload,
+  type VapidKeys,
+} from './webpush';
+
+async function generateVapidKeys(): Promise<VapidKeys> {
+  const pair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey) as ArrayBuffer);
+  const jwk = await crypto.subtle.exportKey('jwk', pair.privateKey) as JsonWebKey;
+  return { publicKey: base64UrlEncode(publicKey), privateKey: jwk.d as string, subject: 'mailto:test@example.com' };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// base64url
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('base64url', () => {
+  it('round-trips bytes without padding or url-unsafe characters', () => {
+    const bytes = new Uint8Array([0xfb, 0xff, 0xfe, 0x00, 0x3e]);
+    const encoded = base64UrlEncode(bytes);
+    expect(encoded).not.toMatch(/[+/=]/);
+    expect(base64UrlDecode(encoded)).toEqual(bytes);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VAPID
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('buildVapidAuthorization', () => {
+  it('signs a JWT for the push service origin that verifies with the public key', async () => {
+    const keys = await generateVapidKeys();
+    const now = new Date('2026-03-01T12:00:00Z');
+    const header = await buildVapidAuthorization('https://push.example.com/send/abc', keys, now);
+
+    const match = header.match(/^vapid t=([^.]+)\.([^.]+)\.([^,]+), k=(.+)$/);
+    expect(match).not.toBeNull();
+    const [, head, body, sig, k] = match!;
+    expect(k).toBe(keys.publicKey);
+
+    const claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(body)));
+    expect(claims).toEqual({
+      aud: 'https://push.example.com',
+      exp: now.getTime() / 1000 + 12 * 3600,
+      sub: 'mailto:test@example.com',
+    });
+
+    const verifyKey = await crypto.subtle.importKey('raw', base64UrlDecode(keys.publicKey), { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+    const valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      verifyKey,
+      base64UrlDecode(sig),
+      new TextEncoder().encode(`${head}.${body}`),
+    );
+    expect(valid).toBe(true);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Payload encryption
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('encryptPayload', () => {
+  it('produces an aes128gcm record the browser can decrypt', async () => {
+    // Play the browser: a P-256 key pair and an auth secret
+    const ua = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair;
+    const uaPublic = new Uint8Array(await crypto.subtle.exportKey('raw', ua.publicKey) as ArrayBuffer);
+    const authSecret = crypto.getRandomValues(new Uint8Array(16));
+
+    const body = await encryptPayload('{"type":"tap_now"}', {
+      p256dh: base64UrlEncode(uaPublic),
+      auth: base64UrlEncode(authSecret),
+    });
+
+    const salt = body.slice(0, 16);
+    expect(new DataView(body.buffer).getUint32(16)).toBe(4096);
+    const keyLength = body[20];
+    expect(keyLength).toBe(65);
+    const asPublic = body.slice(21, 21 + keyLength);
+    const ciphertext = body.slice(21 + keyLength);
+
+    const asKey = await crypto.subtle.importKey('raw', asPublic, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+    const ecdhParams = { name: 'ECDH', public: asKey } as unknown as SubtleCryptoDeriveKeyAlgorithm;
+    const ecdhSecret = new Uint8Array(await crypto.subtle.deriveBits(ecdhParams, ua.privateKey, 256));
+    const { cek, nonce } = await deriveContentKeys(ecdhSecret, authSecret, uaPublic, asPublic, salt);
+
+    const aesKey = await crypto.subtle.importKey('raw', cek, 'AES-GCM', false, ['decrypt']);
+    const plaintext = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: nonce }, aesKey, ciphertext));
+
+    expect(plaintext[plaintext.length - 1]).toBe(2);
+    expect(new TextDecoder().decode(plaintext.slice(0, -1))).toBe('{"type":"tap_now"}');
+  });
+});
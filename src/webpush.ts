@@ -0,0 +1,126 @@
+// Web Push — VAPID authorization (RFC 8292) and aes128gcm payload
+// encryption (RFC 8291), built on WebCrypto so it runs in the Worker
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface VapidKeys {
+  publicKey: string;  // base64url, uncompressed P-256 point (65 bytes)
+  privateKey: string; // base64url, raw P-256 scalar (32 bytes)
+  subject: string;    // mailto: or https: contact for the push service
+}
+
+export interface PushSubscriptionKeys {
+  p256dh: string; // base64url, browser's P-256 public key
+  auth: string;   // base64url, 16-byte auth secret
+}
+
+const VAPID_TOKEN_TTL = 12 * 3600; // push services reject tokens over 24h
+const RECORD_SIZE = 4096;
+
+const encoder = new TextEncoder();
+
+// ── base64url ──────────────────────────────────────────────────────────────
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(str: string): Uint8Array {
+  const base64 = str.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+// ── VAPID ──────────────────────────────────────────────────────────────────
+
+async function importVapidKey(keys: VapidKeys): Promise<CryptoKey> {
+  const pub = base64UrlDecode(keys.publicKey);
+  return crypto.subtle.importKey('jwk', {
+    kty: 'EC',
+    crv: 'P-256',
+    x: base64UrlEncode(pub.slice(1, 33)),
+    y: base64UrlEncode(pub.slice(33, 65)),
+    d: keys.privateKey,
+  }, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign']);
+}
+
+// Returns the Authorization header value for a push to `endpoint`
+export async function buildVapidAuthorization(endpoint: string, keys: VapidKeys, now: Date = new Date()): Promise<string> {
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = base64UrlEncode(encoder.encode(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_TTL,
+    sub: keys.subject,
+  })));
+  const unsigned = `${header}.${claims}`;
+
+  // WebCrypto ECDSA signatures are already raw r||s, as JWS expects
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    await importVapidKey(keys),
+    encoder.encode(unsigned),
+  );
+  return `vapid t=${unsigned}.${base64UrlEncode(new Uint8Array(signature))}, k=${keys.publicKey}`;
+}
+
+// ── Payload encryption ─────────────────────────────────────────────────────
+
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8);
+  return new Uint8Array(bits);
+}
+
+// Derives the content key and nonce shared by sender and browser
+export async function deriveContentKeys(
+  ecdhSecret: Uint8Array,
+  authSecret: Uint8Array,
+  uaPublic: Uint8Array,
+  asPublic: Uint8Array,
+  salt: Uint8Array,
+): Promise<{ cek: Uint8Array; nonce: Uint8Array }> {
+  const keyInfo = concat(encoder.encode('WebPush: info\0'), uaPublic, asPublic);
+  const ikm = await hkdf(authSecret, ecdhSecret, keyInfo, 32);
+  const cek = await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 12);
+  return { cek, nonce };
+}
+
+// Encrypts a payload for one subscription as a single aes128gcm record
+export async function encryptPayload(payload: string, keys: PushSubscriptionKeys): Promise<Uint8Array> {
+  const uaPublic = base64UrlDecode(keys.p256dh);
+  const authSecret = base64UrlDecode(keys.auth);
+
+  const asKeys = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair;
+  const asPublic = new Uint8Array(await crypto.subtle.exportKey('raw', asKeys.publicKey) as ArrayBuffer);
+  const uaKey = await crypto.subtle.importKey('raw', uaPublic, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  // workers-types spells the `public` member `$public`; the runtime wants `public`
+  const ecdhParams = { name: 'ECDH', public: uaKey } as unknown as SubtleCryptoDeriveKeyAlgorithm;
+  const ecdhSecret = new Uint8Array(await crypto.subtle.deriveBits(ecdhParams, asKeys.privateKey, 256));
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const { cek, nonce } = await deriveContentKeys(ecdhSecret, authSecret, uaPublic, asPublic, salt);
+
+  // 0x02 marks the final (and only) record
+  const plaintext = concat(encoder.encode(payload), new Uint8Array([2]));
+  const aesKey = await crypto.subtle.importKey('raw', cek, 'AES-GCM', false, ['encrypt']);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, aesKey, plaintext));
+
+  const header = new Uint8Array(21);
+  header.set(salt, 0);
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+  header[20] = asPublic.length;
+  return concat(header, asPublic, ciphertext);
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toWidgetData,
+  parseWidgetDays,
+  parseEmbedOptions,
+  renderEmbed,
+  WidgetOptionsError,
+  type WidgetData,
+} from './widget';
+import { forecastDay, forecastInput } from './testing';
+
+const FORECAST = forecastInput({
+  days: Array.from({ length: 10 }, (_, i) =>
+    forecastDay(`2026-03-${String(10 + i).padStart(2, '0')}`, i < 2 ? 'excellent' : 'poor')),
+});
+
+const LOCATION = { lat: 44.26, lon: -72.58, name: 'Vermont <Maple>', url: 'https://sapcast.ca/?lat=44.26&lon=-72.58' };
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Data
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('toWidgetData', () => {
+  const data = toWidgetData(FORECAST, LOCATION);
+
+  it('keeps only what a widget shows', () => {
+    expect(data.days[0]).toEqual({ date: '2026-03-10', rating: 'excellent', tempLow: -5, tempHigh: 6 });
+    expect(data.bestWindow).toEqual({ startDate: '2026-03-10', endDate: '2026-03-11', length: 2 });
+    expect(data).not.toHaveProperty('seasonInfo');
+  });
+
+  it('shows a week by default', () => {
+    expect(data.days).toHaveLength(7);
+    expect(toWidgetData(FORECAST, LOCATION, 3).days).toHaveLength(3);
+  });
+});
+
+describe('parseWidgetDays', () => {
+  it('defaults to 7 and accepts 1–16', () => {
+    expect(parseWidgetDays(null)).toBe(7);
+    expect(parseWidgetDays('16')).toBe(16);
+  });
+
+  it('rejects anything else', () => {
+    expect(() => parseWidgetDays('0')).toThrow(WidgetOptionsError);
+    expect(() => parseWidgetDays('2.5')).toThrow(WidgetOptionsError);
+  });
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Embed
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('parseEmbedOptions', () => {
+  it('defaults to a light, brown-accented Celsius strip', () => {
+    expect(parseEmbedOptions(new URLSearchParams())).toEqual({ theme: 'light', accent: '#5C3D2E', unit: 'C' });
+  });
+
+  it('takes a theme, an accent without the # and a unit', () => {
+    expect(parseEmbedOptions(new URLSearchParams('theme=dark&accent=2e7d32&unit=f')))
+      .toEqual({ theme: 'dark', accent: '#2e7d32', unit: 'F' });
+  });
+
+  it('rejects values that would end up in CSS unchecked', () => {
+    expect(() => parseEmbedOptions(new URLSearchParams('accent=red;}body{'))).toThrow(WidgetOptionsError);
+    expect(() => parseEmbedOptions(new URLSearchParams('theme=pink'))).toThrow(WidgetOptionsError);
+  });
+});
+
+describe('renderEmbed', () => {
+  const data: WidgetData = toWidgetData(FORECAST, LOCATION);
+
+  it('shows the call, the window and a bar per day', () => {
+    const html = renderEmbed(data, parseEmbedOptions(new URLSearchParams()));
+    expect(html).toContain('Tap now — excellent conditions for the next 2 days.</strong>');
+    expect(html).not.toContain('Mostly sunny');
+    expect(html).toContain('Best window: Mar 10 – Mar 11 · 2 days');
+    expect(html.match(/class="bar"/g)).toHaveLength(7);
+  });
+
+  it('escapes the name and has no script', () => {
+    const html = renderEmbed(data, parseEmbedOptions(new URLSearchParams()));
+    expect(html).toContain('Vermont &lt;Maple&gt;');
+    expect(html).not.toContain('<script');
+  });
+
+  it('words the chrome in the locale', () => {
+    const html = renderEmbed(data, parseEmbedOptions(new URLSearchParams()), 'fr-CA');
+    expect(html).toContain('<html lang="fr-CA">');
+    expect(html).toContain('Meilleure période : 10 mars – 11 mars · 2 jours');
+    expect(html).toContain('Prévisions complètes sur Sapcast →');
+  });
+
+  it('converts temperatures for Fahrenheit', () => {
+    const html = renderEmbed(data, parseEmbedOptions(new URLSearchParams('unit=F')));
+    expect(html).toContain('23° / 43°');
+  });
+});
@@ -0,0 +1,167 @@
+// Widget — the slice of a forecast a producer association shows on its own
+// site: a JSON badge, and a small self-contained page to iframe
+
+import type { Rating, RecommendationType } from './scoring';
+import { escapeHTML, REC_ICONS, type PrerenderInput } from './prerender';
+import { headline } from './share';
+import { DEFAULT_LOCALE, formatWindowDates, interpolate, intlTag, plural, type Locale } from './i18n';
+import { UI_TEXT } from './pagetext';
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface WidgetDay {
+  date: string;
+  rating: Rating;
+  tempLow: number | null;
+  tempHigh: number | null;
+}
+
+export interface WidgetData {
+  lat: number;
+  lon: number;
+  name: string;
+  recommendation: { type: RecommendationType; message: string };
+  bestWindow: { startDate: string; endDate: string; length: number } | null;
+  days: WidgetDay[];
+  url: string; // the full forecast on Sapcast
+}
+
+export type WidgetTheme = 'light' | 'dark';
+
+export interface EmbedOptions {
+  theme: WidgetTheme;
+  accent: string; // #rrggbb
+  unit: 'C' | 'F';
+}
+
+export class WidgetOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WidgetOptionsError';
+  }
+}
+
+export const WIDGET_DAYS = 7;
+export const MAX_WIDGET_DAYS = 16;
+const DEFAULT_ACCENT = '#5C3D2E';
+
+const THEMES: Record<WidgetTheme, { background: string; text: string; muted: string; border: string }> = {
+  light: { background: '#ffffff', text: '#2c2520', muted: '#6d6157', border: '#e8e3de' },
+  dark: { background: '#1f1b18', text: '#f5f0eb', muted: '#b3a89e', border: '#3a332d' },
+};
+
+const RATING_COLORS: Record<Rating, string> = {
+  excellent: '#00b894',
+  good: '#00cec9',
+  fair: '#fdcb6e',
+  poor: '#b2bec3',
+  unknown: '#b2bec3',
+};
+
+// ── Data ───────────────────────────────────────────────────────────────────
+
+// Returns the number of days to show, or throws for an unusable value
+export function parseWidgetDays(raw: string | null): number {
+  if (raw === null || raw === '') return WIDGET_DAYS;
+  const days = Number(raw);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_WIDGET_DAYS) {
+    throw new WidgetOptionsError(`days must be a whole number from 1 to ${MAX_WIDGET_DAYS}`);
+  }
+  return days;
+}
+
+export function toWidgetData(
+  forecast: PrerenderInput,
+  location: { lat: number; lon: number; name: string; url: string },
+  days: number = WIDGET_DAYS,
+): WidgetData {
+  const w = forecast.bestWindow;
+  return {
+    ...location,
+    recommendation: { type: forecast.recommendation.type, message: forecast.recommendation.message },
+    bestWindow: w ? { startDate: w.startDate, endDate: w.endDate, length: w.length } : null,
+    days: forecast.days.slice(0, days).map(d => ({
+      date: d.date,
+      rating: d.rating,
+      tempLow: d.tempLow,
+      tempHigh: d.tempHigh,
+    })),
+  };
+}
+
+// ── Embed ──────────────────────────────────────────────────────────────────
+
+export function parseEmbedOptions(params: URLSearchParams): EmbedOptions {
+  const theme = params.get('theme') || 'light';
+  if (theme !== 'light' && theme !== 'dark') {
+    throw new WidgetOptionsError('theme must be light or dark');
+  }
+  // Without the #, so it survives being pasted into a URL unencoded
+  const accent = params.get('accent');
+  if (accent && !/^[0-9a-fA-F]{6}$/.test(accent)) {
+    throw new WidgetOptionsError('accent must be a hex colour like 5c3d2e');
+  }
+  const unit = (params.get('unit') || 'C').toUpperCase();
+  if (unit !== 'C' && unit !== 'F') {
+    throw new WidgetOptionsError('unit must be C or F');
+  }
+  return { theme, accent: accent ? `#${accent}` : DEFAULT_ACCENT, unit };
+}
+
+function tempStr(c: number | null, unit: 'C' | 'F'): string {
+  if (c === null) return '--';
+  return `${Math.round(unit === 'F' ? c * 9 / 5 + 32 : c)}°`;
+}
+
+function weekday(date: string, locale: Locale): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString(intlTag(locale), { weekday: 'short', timeZone: 'UTC' });
+}
+
+// A complete page with no script, fonts or images, so it's cheap to frame
+export function renderEmbed(data: WidgetData, options: EmbedOptions, locale: Locale = DEFAULT_LOCALE): string {
+  const text = UI_TEXT[locale];
+  const colors = THEMES[options.theme];
+  const rec = data.recommendation;
+  const w = data.bestWindow;
+
+  const days = data.days.map(d => `<li class="day">`
+    + `<span class="name">${weekday(d.date, locale)}</span>`
+    + `<span class="bar" style="background:${RATING_COLORS[d.rating]}" title="${text.ratings[d.rating]}"></span>`
+    + `<span class="temps">${tempStr(d.tempLow, options.unit)} / ${tempStr(d.tempHigh, options.unit)}</span>`
+    + '</li>').join('');
+
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta name="robots" content="noindex">
+<title>${interpolate(text.embedTitle, { name: escapeHTML(data.name) })}</title>
+<style>
+  * { box-sizing: border-box; margin: 0; padding: 0; }
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; background: ${colors.background}; color: ${colors.text}; padding: 12px; font-size: 14px; line-height: 1.4; }
+  .head { display: flex; justify-content: space-between; gap: 8px; color: ${colors.muted}; font-size: 12px; }
+  .rec { margin: 8px 0; padding: 8px 10px; border-left: 4px solid ${options.accent}; border-radius: 4px; background: ${colors.border}40; }
+  .rec strong { display: block; }
+  .window { color: ${colors.muted}; font-size: 12px; margin-top: 2px; }
+  .days { list-style: none; display: flex; gap: 4px; }
+  .day { flex: 1; text-align: center; font-size: 11px; color: ${colors.muted}; min-width: 0; }
+  .bar { display: block; height: 8px; border-radius: 4px; margin: 3px 0; }
+  .temps { white-space: nowrap; }
+  a { color: ${options.accent}; }
+  .foot { margin-top: 8px; font-size: 11px; text-align: right; }
+</style>
+</head>
+<body>
+<div class="head"><span>${text.embedHeading}</span><span>${escapeHTML(data.name)}</span></div>
+<div class="rec">
+<strong>${REC_ICONS[rec.type] ?? ''} ${escapeHTML(headline(rec.message))}</strong>
+${w ? `<div class="window">${interpolate(text.bestWindow, { dates: formatWindowDates(w.startDate, w.endDate, locale) })}`
+  + ` · ${interpolate(plural(text.dayCount, w.length, locale), { n: w.length })}</div>` : ''}
+</div>
+<ul class="days">${days}</ul>
+<div class="foot"><a href="${escapeHTML(data.url)}" target="_blank" rel="noopener">${text.fullForecast}</a></div>
+</body>
+</html>
+`;
+}